@@ -24,4 +24,17 @@ export default [{
         "no-throw-literal": "warn",
         semi: "warn",
     },
+}, {
+    // The analyzer, the command-line checker and the language server run
+    // outside VS Code
+    files: ["src/core/**/*.ts", "src/cli/**/*.ts", "src/server/**/*.ts"],
+
+    rules: {
+        "no-restricted-imports": ["error", {
+            paths: [{
+                name: "vscode",
+                message: "Keep the analyzer, CLI and language server editor-independent.",
+            }],
+        }],
+    },
 }];
\ No newline at end of file
@@ -0,0 +1,169 @@
+import { performance } from "node:perf_hooks";
+import { type AnalysisResult, Analyzer } from "../core/analyzer";
+import type { ASTNode, TextEdit } from "../core/ast";
+import { findReusableDeclarations, relex } from "../core/incremental";
+import { LineIndex, lex } from "../core/lexer";
+import { Parser } from "../core/parser";
+
+/**
+ * Measures the latency of analyzing a 10,000-line file after a keystroke,
+ * with a full reparse and with incremental reparsing.
+ *
+ * Run with `pnpm run bench`.
+ */
+
+const LINES = 10_000;
+const WARMUP = 5;
+const RUNS = 30;
+
+// A class, an actor and a function, repeated until the file is long enough
+function generateSource(lines: number): string {
+	const out: string[] = [];
+	for (let i = 0; out.length < lines; i++) {
+		out.push(
+			`class Point${i}(val x: Int, val y: Int) {`,
+			"    fun sum(): Int {",
+			"        return x + y",
+			"    }",
+			`    fun scaled(k: Int): Point${i} {`,
+			"        val nx = x * k",
+			`        return Point${i}.new(nx, y * k)`,
+			"    }",
+			"}",
+			"",
+			`actor Counter${i}(start: Int) {`,
+			"    var count: Int = 0",
+			"    io fun increment(n: Int) {",
+			"        count = count + n",
+			'        println("count is ${count}")',
+			"    }",
+			"    fun get(): Int {",
+			"        return count",
+			"    }",
+			"}",
+			"",
+			`fun helper${i}(a: Int, b: Int): Int {`,
+			"    val list = List<Int>.new()",
+			"    list.add(a)",
+			"    var total = 0",
+			"    for (v in list) {",
+			"        total += v",
+			"    }",
+			"    return total + b",
+			"}",
+			"",
+		);
+	}
+	return out.join("\n");
+}
+
+interface Scenario {
+	name: string;
+	marker: string; // the keystroke is typed right after this text
+}
+
+const SCENARIOS: Scenario[] = [
+	{
+		name: "typing in a function",
+		marker: "fun helper160(a: Int, b: Int): Int {\n    val list",
+	},
+	{
+		name: "typing in a class",
+		marker: "class Point160(val x: Int, val y: Int) {\n    fun sum",
+	},
+];
+
+/**
+ * Type one character after the marker, returning the new text and the
+ * edit as an editor would report it.
+ */
+function typeCharacter(
+	text: string,
+	marker: string,
+): { text: string; edit: TextEdit } {
+	const offset = text.indexOf(marker) + marker.length;
+	const position = new LineIndex(text).positionAt(offset);
+	return {
+		text: `${text.slice(0, offset)}x${text.slice(offset)}`,
+		edit: { range: { start: position, end: position }, newText: "x" },
+	};
+}
+
+function measure(run: () => void): { median: number; p95: number } {
+	for (let i = 0; i < WARMUP; i++) {
+		run();
+	}
+	const times: number[] = [];
+	for (let i = 0; i < RUNS; i++) {
+		const start = performance.now();
+		run();
+		times.push(performance.now() - start);
+	}
+	times.sort((a, b) => a - b);
+	return {
+		median: times[Math.floor(RUNS / 2)],
+		p95: times[Math.min(RUNS - 1, Math.ceil(RUNS * 0.95) - 1)],
+	};
+}
+
+function report(label: string, result: { median: number; p95: number }) {
+	console.log(
+		`  ${label.padEnd(24)} median ${result.median.toFixed(1).padStart(7)} ms   p95 ${result.p95.toFixed(1).padStart(7)} ms`,
+	);
+}
+
+function main(): void {
+	const source = generateSource(LINES);
+	console.log(`${LINES} lines, ${source.length} characters\n`);
+
+	for (const scenario of SCENARIOS) {
+		console.log(`${scenario.name}:`);
+
+		// Full reparse after every keystroke
+		let text = source;
+		const analyzer = new Analyzer();
+		report(
+			"full parse",
+			measure(() => {
+				text = typeCharacter(text, scenario.marker).text;
+				new Parser(text).parse();
+			}),
+		);
+		report(
+			"full analysis",
+			measure(() => {
+				text = typeCharacter(text, scenario.marker).text;
+				analyzer.analyze(text);
+			}),
+		);
+
+		// Incremental reparse, chaining each result into the next keystroke
+		text = source;
+		let lexed = lex(text);
+		let ast: ASTNode = new Parser(text, undefined, lexed).parse();
+		report(
+			"incremental parse",
+			measure(() => {
+				const typed = typeCharacter(text, scenario.marker);
+				const reusable = findReusableDeclarations(ast, [], [typed.edit]);
+				lexed = relex(lexed, typed.text, [typed.edit]);
+				text = typed.text;
+				ast = new Parser(text, reusable, lexed).parse();
+			}),
+		);
+
+		text = source;
+		let previous: AnalysisResult = analyzer.analyze(text);
+		report(
+			"incremental analysis",
+			measure(() => {
+				const typed = typeCharacter(text, scenario.marker);
+				text = typed.text;
+				previous = analyzer.reanalyze(text, previous, [typed.edit]);
+			}),
+		);
+		console.log();
+	}
+}
+
+main();
@@ -0,0 +1,124 @@
+#!/usr/bin/env node
+import * as fs from "node:fs";
+import { parseArgs } from "node:util";
+import { Analyzer } from "../core/analyzer";
+import type { SymbolKind } from "../core/ast";
+import { expandPatterns } from "../core/files";
+import { Parser } from "../core/parser";
+import { collectGlobalNames } from "../core/scope";
+import {
+	type FileReport,
+	formatReport,
+	REPORT_FORMATS,
+	type ReportFormat,
+} from "./reporters";
+
+// Exit codes
+const EXIT_OK = 0;
+const EXIT_PROBLEMS = 1; // at least one error was reported
+const EXIT_USAGE = 2; // bad arguments, or files that cannot be read
+
+const USAGE = `Usage: synotra-check [options] <file | directory | glob>...
+
+Parses and type-checks Synotra files and reports the same problems as the
+editor.
+
+Options:
+  -f, --format <format>  Output format: text (default), json or sarif
+  -o, --output <file>    Write the report to a file instead of stdout
+  -h, --help             Show this help`;
+
+/**
+ * Entry point of the synotra-check command. Resolves to the exit code.
+ */
+export async function main(args: string[]): Promise<number> {
+	let options: ReturnType<typeof parseOptions>;
+	try {
+		options = parseOptions(args);
+	} catch (error) {
+		console.error(`synotra-check: ${(error as Error).message}\n\n${USAGE}`);
+		return EXIT_USAGE;
+	}
+
+	if (options.help) {
+		console.log(USAGE);
+		return EXIT_OK;
+	}
+	if (options.patterns.length === 0) {
+		console.error(`synotra-check: no input files\n\n${USAGE}`);
+		return EXIT_USAGE;
+	}
+
+	const { files, unmatched } = await expandPatterns(options.patterns);
+	for (const pattern of unmatched) {
+		console.error(`synotra-check: no Synotra files match '${pattern}'`);
+	}
+	if (unmatched.length > 0) {
+		return EXIT_USAGE;
+	}
+
+	const texts: string[] = [];
+	for (const file of files) {
+		try {
+			texts.push(fs.readFileSync(file, "utf8"));
+		} catch (error) {
+			console.error(
+				`synotra-check: cannot read '${file}': ${(error as Error).message}`,
+			);
+			return EXIT_USAGE;
+		}
+	}
+
+	// The files checked together make up the program, so a name declared
+	// in any of them is declared in all of them
+	const globals = new Map<string, SymbolKind>();
+	for (const text of texts) {
+		collectGlobalNames(new Parser(text).parse(), globals);
+	}
+	const analyzer = new Analyzer();
+	const reports: FileReport[] = files.map((file, i) => ({
+		file,
+		diagnostics: analyzer.analyze(texts[i], globals).diagnostics,
+	}));
+
+	const report = formatReport(reports, options.format);
+	if (options.output) {
+		fs.writeFileSync(options.output, `${report}\n`);
+	} else {
+		console.log(report);
+	}
+
+	const hasErrors = reports.some(({ diagnostics }) =>
+		diagnostics.some((diagnostic) => diagnostic.severity === "error"),
+	);
+	return hasErrors ? EXIT_PROBLEMS : EXIT_OK;
+}
+
+function parseOptions(args: string[]) {
+	const { values, positionals } = parseArgs({
+		args,
+		allowPositionals: true,
+		options: {
+			format: { type: "string", short: "f", default: "text" },
+			output: { type: "string", short: "o" },
+			help: { type: "boolean", short: "h", default: false },
+		},
+	});
+
+	const format = values.format as ReportFormat;
+	if (!REPORT_FORMATS.includes(format)) {
+		throw new Error(`unknown format '${values.format}'`);
+	}
+	return {
+		format,
+		output: values.output,
+		help: values.help,
+		patterns: positionals,
+	};
+}
+
+if (require.main === module) {
+	main(process.argv.slice(2)).then((code) => {
+		process.exitCode = code;
+	});
+}
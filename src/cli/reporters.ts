@@ -0,0 +1,139 @@
+import type { AnalysisDiagnostic, DiagnosticSeverity } from "../core/ast";
+
+export type ReportFormat = "text" | "json" | "sarif";
+
+export const REPORT_FORMATS: ReportFormat[] = ["text", "json", "sarif"];
+
+export interface FileReport {
+	file: string; // path as given on the command line
+	diagnostics: AnalysisDiagnostic[];
+}
+
+// Analyses that report diagnostics, used as SARIF rules
+const RULES = [
+	{ id: "syntax", description: "Syntax errors found while parsing" },
+	{ id: "type", description: "Type errors found by the type checker" },
+	{ id: "effect", description: "I/O performed outside of io functions" },
+];
+
+const SARIF_LEVELS: Record<DiagnosticSeverity, string> = {
+	error: "error",
+	warning: "warning",
+	information: "note",
+	hint: "note",
+};
+
+export function formatReport(
+	reports: FileReport[],
+	format: ReportFormat,
+): string {
+	switch (format) {
+		case "text":
+			return formatText(reports);
+		case "json":
+			return formatJson(reports);
+		case "sarif":
+			return formatSarif(reports);
+	}
+}
+
+/**
+ * One "file:line:column: severity: message [code]" line per diagnostic and
+ * a summary, with 1-based positions as editors and terminals expect.
+ */
+function formatText(reports: FileReport[]): string {
+	const lines: string[] = [];
+	let errors = 0;
+	let warnings = 0;
+
+	for (const { file, diagnostics } of reports) {
+		for (const diagnostic of diagnostics) {
+			const { line, character } = diagnostic.range.start;
+			const code = diagnostic.code ? ` [${diagnostic.code}]` : "";
+			lines.push(
+				`${file}:${line + 1}:${character + 1}: ${diagnostic.severity}: ${diagnostic.message}${code}`,
+			);
+			if (diagnostic.severity === "error") {
+				errors++;
+			} else if (diagnostic.severity === "warning") {
+				warnings++;
+			}
+		}
+	}
+
+	const files = plural(reports.length, "file");
+	lines.push(
+		errors + warnings === 0
+			? `No problems found in ${files}`
+			: `${plural(errors, "error")}, ${plural(warnings, "warning")} in ${files}`,
+	);
+	return lines.join("\n");
+}
+
+function formatJson(reports: FileReport[]): string {
+	const diagnostics = reports.flatMap(({ file, diagnostics }) =>
+		diagnostics.map((diagnostic) => ({
+			file,
+			line: diagnostic.range.start.line + 1,
+			column: diagnostic.range.start.character + 1,
+			endLine: diagnostic.range.end.line + 1,
+			endColumn: diagnostic.range.end.character + 1,
+			severity: diagnostic.severity,
+			code: diagnostic.code,
+			message: diagnostic.message,
+		})),
+	);
+	return JSON.stringify(diagnostics, null, 2);
+}
+
+/**
+ * SARIF 2.1.0, the format accepted by code scanning services for
+ * annotating pull requests.
+ */
+function formatSarif(reports: FileReport[]): string {
+	const results = reports.flatMap(({ file, diagnostics }) =>
+		diagnostics.map((diagnostic) => ({
+			ruleId: diagnostic.code,
+			level: SARIF_LEVELS[diagnostic.severity],
+			message: { text: diagnostic.message },
+			locations: [
+				{
+					physicalLocation: {
+						artifactLocation: { uri: file.split("\\").join("/") },
+						region: {
+							startLine: diagnostic.range.start.line + 1,
+							startColumn: diagnostic.range.start.character + 1,
+							endLine: diagnostic.range.end.line + 1,
+							endColumn: diagnostic.range.end.character + 1,
+						},
+					},
+				},
+			],
+		})),
+	);
+
+	const log = {
+		$schema: "https://json.schemastore.org/sarif-2.1.0.json",
+		version: "2.1.0",
+		runs: [
+			{
+				tool: {
+					driver: {
+						name: "synotra-check",
+						informationUri: "https://github.com/BlueGeckoJP/synotra-vscode",
+						rules: RULES.map((rule) => ({
+							id: rule.id,
+							shortDescription: { text: rule.description },
+						})),
+					},
+				},
+				results,
+			},
+		],
+	};
+	return JSON.stringify(log, null, 2);
+}
+
+function plural(count: number, noun: string): string {
+	return `${count} ${noun}${count === 1 ? "" : "s"}`;
+}
@@ -0,0 +1,341 @@
+import type { AnalysisDiagnostic, ASTNode, SourceRange, TextEdit } from "./ast";
+import { TypeChecker } from "./checker";
+import { checkEffects, EffectAnalyzer, type IoOperation } from "./effects";
+import {
+	changedNames,
+	describeTopLevel,
+	findReusableDeclarations,
+	mentionsAny,
+	relex,
+	replaceDeclarations,
+	shiftDiagnostic,
+	topLevelNodeAt,
+} from "./incremental";
+import { InferenceEngine, type TypeInfo } from "./inference";
+import { type LexedText, lex } from "./lexer";
+import { Parser } from "./parser";
+import type { GlobalNames } from "./scope";
+
+export interface AnalysisResult {
+	ast: ASTNode;
+	types: Map<ASTNode, TypeInfo>;
+	effects: Map<ASTNode, IoOperation[]>; // function -> I/O it performs
+	diagnostics: AnalysisDiagnostic[];
+}
+
+/**
+ * A top-level node of a reanalyzed AST that was copied from the previous
+ * AST.
+ */
+export interface ReusedNode {
+	previous: ASTNode; // the node it was copied from
+	takenOver: boolean; // whether its types and effects were taken over too
+}
+
+/**
+ * What is kept of an analysis to reanalyze its text after edits.
+ */
+interface ReanalysisState {
+	lexed: LexedText;
+	text: string;
+	globals: GlobalNames | null;
+	signatures?: Map<string, string>; // see describeTopLevel
+	reused?: Map<ASTNode, ReusedNode>; // by copy, for results of reanalyze
+}
+
+// How many times reanalysis widens the set of top-level nodes it analyzes
+// again before analyzing the whole file instead
+const MAX_REANALYSIS_ROUNDS = 3;
+
+/**
+ * Runs every analysis on a Synotra source file: parsing, type inference,
+ * type checking and effect checking. Editor-independent, so that the
+ * extension and the command-line checker report the same problems.
+ */
+export class Analyzer {
+	private engine = new InferenceEngine();
+	private checker = new TypeChecker(this.engine);
+	private effectAnalyzer = new EffectAnalyzer(this.engine);
+	private states = new WeakMap<ASTNode, ReanalysisState>(); // by AST
+
+	/**
+	 * Analyze a source file. `globals` are the names declared by the other
+	 * files of the program, or null while they are not known, e.g. while
+	 * the workspace is scanned; names declared nowhere are only reported
+	 * when they are known.
+	 */
+	analyze(
+		text: string,
+		globals: GlobalNames | null = new Map(),
+	): AnalysisResult {
+		const lexed = lex(text);
+		const parser = new Parser(text, undefined, lexed);
+		const ast = parser.parse();
+		const state: ReanalysisState = { lexed, text, globals };
+		this.states.set(ast, state);
+		return this.analyzeAll(ast, parser.diagnostics, state);
+	}
+
+	/**
+	 * Analyze the text produced by applying `edits` to the text of a
+	 * previous result. Only the edited part of the text is lexed again, and
+	 * top-level classes, actors and functions the edits did not touch are
+	 * copied from the previous AST instead of being parsed again. The
+	 * previous result is left as it is.
+	 *
+	 * Types, effects and type errors are only computed again for the
+	 * top-level nodes that were parsed again, and for those mentioning a
+	 * declaration whose signature changed; the rest are taken over. All of
+	 * them are computed again when `globals` differ from those of the
+	 * previous result.
+	 */
+	reanalyze(
+		text: string,
+		previous: AnalysisResult,
+		edits: TextEdit[],
+		globals: GlobalNames | null = new Map(),
+	): AnalysisResult {
+		const state = this.states.get(previous.ast);
+		const lexed = state ? relex(state.lexed, text, edits) : lex(text);
+		const reusable = findReusableDeclarations(
+			previous.ast,
+			previous.diagnostics.filter((d) => d.code === "syntax"),
+			edits,
+		);
+		const parser = new Parser(text, reusable, lexed);
+		const ast = parser.parse();
+		const reused = new Map<ASTNode, ReusedNode>();
+		for (const node of previous.ast.children) {
+			const copy = parser.copies.get(node);
+			if (copy) {
+				reused.set(copy, { previous: node, takenOver: false });
+			}
+		}
+		const next: ReanalysisState = { lexed, text, globals, reused };
+		this.states.set(ast, next);
+		const changed =
+			state && sameGlobals(state.globals, globals)
+				? this.analyzeChanged(ast, parser, previous, next)
+				: null;
+		return changed ?? this.analyzeAll(ast, parser.diagnostics, next);
+	}
+
+	private analyzeAll(
+		ast: ASTNode,
+		syntaxDiagnostics: AnalysisDiagnostic[],
+		state: ReanalysisState,
+	): AnalysisResult {
+		const types = this.engine.infer(ast);
+		const effects = this.effectAnalyzer.analyze(ast);
+		const diagnostics = [
+			...withCode(syntaxDiagnostics, "syntax"),
+			...withCode(this.checker.check(ast, types, state), "type"),
+			...withCode(checkEffects(effects), "effect"),
+		];
+		return { ast, types, effects, diagnostics };
+	}
+
+	/**
+	 * Analyze the top-level nodes of a reparsed AST that were not copied
+	 * from the previous AST, taking over the results of the copies. Returns
+	 * null when the copies cannot be taken over.
+	 */
+	private analyzeChanged(
+		ast: ASTNode,
+		parser: Parser,
+		previous: AnalysisResult,
+		state: ReanalysisState,
+	): AnalysisResult | null {
+		const { copies } = parser;
+		const signatures =
+			this.states.get(previous.ast)?.signatures ??
+			describeTopLevel(previous.ast, previous.types);
+		const reused = state.reused ?? new Map<ASTNode, ReusedNode>();
+		const changed = new Set(ast.children.filter((node) => !reused.has(node)));
+
+		// Classes and actors in the previous types that were parsed again
+		// are replaced by their new declarations
+		const typeDeclarations = new Map<string, ASTNode>();
+		for (const node of ast.children) {
+			if (node.kind === "class" || node.kind === "actor") {
+				typeDeclarations.set(node.name, node);
+			}
+		}
+		const replace = (declaration: ASTNode) =>
+			copies.get(declaration) ?? typeDeclarations.get(declaration.name) ?? null;
+
+		const known = new Map<ASTNode, TypeInfo>();
+		for (const [node, type] of previous.types) {
+			const copy = copies.get(node);
+			if (!copy) {
+				continue;
+			}
+			if (copy.kind === "parameter" && !copy.typeAnnotation) {
+				return null; // its type may have come from calls parsed again
+			}
+			const replaced = replaceDeclarations(type, replace);
+			if (!replaced) {
+				return null;
+			}
+			known.set(copy, replaced);
+		}
+
+		// Infer the changed nodes. When that changes a signature, the nodes
+		// mentioning it are inferred again too, until no other node is
+		// affected.
+		let types = known;
+		let after: Map<string, string>;
+		for (let round = 0; ; round++) {
+			types = this.engine.inferNodes(
+				ast.children.filter((node) => changed.has(node)),
+				known,
+			);
+			for (const [node, type] of known) {
+				if (types.get(node) !== type && !changed.has(topLevelOf(node))) {
+					return null;
+				}
+			}
+			after = describeTopLevel(ast, types);
+			const names = changedNames(signatures, after);
+			if (names.size === 0) {
+				break;
+			}
+			const affected = ast.children.filter(
+				(node) => !changed.has(node) && mentionsAny(node, names),
+			);
+			if (affected.length === 0) {
+				break;
+			}
+			if (round === MAX_REANALYSIS_ROUNDS) {
+				return null;
+			}
+			for (const node of affected) {
+				changed.add(node);
+			}
+		}
+
+		state.signatures = after;
+
+		// Fixes may edit other declarations (e.g. adding a handler to an
+		// actor), which could have moved, so those are checked again too.
+		// Fixes may also suggest top-level names (e.g. "Did you mean"), so
+		// all diagnostics, with fixes or not, are checked again when
+		// top-level names were added or removed.
+		const namesChanged =
+			signatures.size !== after.size ||
+			[...after.keys()].some((name) => !signatures.has(name));
+		const previousDiagnostics = previous.diagnostics
+			.filter((d) => d.code === "type")
+			.map((d) => ({
+				diagnostic: d,
+				node: topLevelNodeAt(previous.ast, d.range.start.offset),
+			}));
+		for (const { diagnostic, node } of previousDiagnostics) {
+			const copy = node && copies.get(node);
+			if (copy && (!editsWithin(diagnostic, node.range) || namesChanged)) {
+				changed.add(copy);
+			}
+		}
+		const typeDiagnostics: AnalysisDiagnostic[] = [];
+		for (const { diagnostic, node } of previousDiagnostics) {
+			const copy = node && copies.get(node);
+			if (copy && !changed.has(copy)) {
+				typeDiagnostics.push(
+					shiftDiagnostic(
+						diagnostic,
+						copy.range.start.line - node.range.start.line,
+						copy.range.start.offset - node.range.start.offset,
+					),
+				);
+			}
+		}
+		const nodes = ast.children.filter((node) => changed.has(node));
+		for (const [copy, node] of reused) {
+			node.takenOver = !changed.has(copy);
+		}
+		typeDiagnostics.push(
+			...withCode(this.checker.check(ast, types, state, nodes), "type"),
+		);
+
+		const effects = this.effectAnalyzer.analyze(ast, nodes);
+		for (const [fn, operations] of previous.effects) {
+			const copy = copies.get(fn);
+			if (copy && !effects.has(copy)) {
+				effects.set(
+					copy,
+					operations.map((operation) => ({
+						...operation,
+						call: copies.get(operation.call) ?? operation.call,
+					})),
+				);
+			}
+		}
+
+		const diagnostics = [
+			...withCode(parser.diagnostics, "syntax"),
+			...typeDiagnostics,
+			...withCode(checkEffects(effects), "effect"),
+		];
+		return { ast, types, effects, diagnostics };
+	}
+
+	/**
+	 * The top-level nodes of a result of `reanalyze` that were copied from
+	 * the previous result. Empty for results of `analyze`.
+	 */
+	reusedNodes(result: AnalysisResult): Map<ASTNode, ReusedNode> {
+		return this.states.get(result.ast)?.reused ?? new Map();
+	}
+
+	/**
+	 * Infer the type of an expression in an AST from a previous `analyze`.
+	 */
+	typeOf(expr: ASTNode, types: Map<ASTNode, TypeInfo>): TypeInfo {
+		return this.engine.typeOf(expr, types);
+	}
+}
+
+function withCode(
+	diagnostics: AnalysisDiagnostic[],
+	code: string,
+): AnalysisDiagnostic[] {
+	return diagnostics.map((diagnostic) => ({ ...diagnostic, code }));
+}
+
+function sameGlobals(a: GlobalNames | null, b: GlobalNames | null): boolean {
+	if (!a || !b) {
+		return a === b;
+	}
+	if (a.size !== b.size) {
+		return false;
+	}
+	for (const [name, kind] of a) {
+		if (b.get(name) !== kind) {
+			return false;
+		}
+	}
+	return true;
+}
+
+function topLevelOf(node: ASTNode): ASTNode {
+	while (node.parent && node.parent.kind !== "program") {
+		node = node.parent;
+	}
+	return node;
+}
+
+/**
+ * Whether the fixes of a diagnostic only edit text within a range.
+ */
+function editsWithin(
+	diagnostic: AnalysisDiagnostic,
+	range: SourceRange,
+): boolean {
+	return (diagnostic.fixes ?? []).every((fix) =>
+		fix.edits.every(
+			(edit) =>
+				edit.range.start.offset >= range.start.offset &&
+				edit.range.end.offset <= range.end.offset,
+		),
+	);
+}
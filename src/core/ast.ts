@@ -0,0 +1,210 @@
+export type NodeKind =
+	// Declarations
+	| "program"
+	| "class"
+	| "actor"
+	| "function"
+	| "parameter"
+	| "variable"
+	// Statements
+	| "block"
+	| "if"
+	| "while"
+	| "for"
+	| "return"
+	| "assignment"
+	| "expression"
+	// Expressions
+	| "binary"
+	| "unary"
+	| "call"
+	| "member"
+	| "index"
+	| "identifier"
+	| "number"
+	| "string"
+	| "char"
+	| "boolean"
+	| "null"
+	// Type annotations
+	| "typeRef";
+
+export interface SourcePosition {
+	line: number; // zero-based
+	character: number; // zero-based
+	offset: number; // zero-based character offset into the document
+}
+
+export interface SourceRange {
+	start: SourcePosition;
+	end: SourcePosition; // exclusive
+}
+
+export interface ASTNode {
+	kind: NodeKind;
+	name: string;
+	line: number;
+	startLine: number;
+	endLine: number;
+	children: ASTNode[];
+	parent: ASTNode | null;
+	range: SourceRange;
+	nameRange?: SourceRange; // range of the identifier for named nodes
+
+	// Declarations
+	isIo?: boolean; // "io fun"
+	mutable?: boolean; // "var" (true) or "val" (false)
+	params?: ASTNode[]; // function / class / actor parameters
+	typeAnnotation?: ASTNode; // variable / parameter type
+	returnType?: ASTNode; // function return type
+	initializer?: ASTNode; // variable initializer
+	body?: ASTNode; // function / while / for body
+
+	// Statements and expressions
+	condition?: ASTNode; // if / while
+	thenBranch?: ASTNode;
+	elseBranch?: ASTNode;
+	iterator?: ASTNode; // for loop variable
+	expression?: ASTNode; // return value, expression statement, unary operand, for iterable
+	operator?: string; // binary / unary / assignment operator
+	left?: ASTNode; // binary left operand, assignment target
+	right?: ASTNode; // binary right operand, assignment value
+	callee?: ASTNode;
+	args?: ASTNode[];
+	object?: ASTNode; // member / index receiver
+	value?: string; // literal source text
+	typeArgs?: ASTNode[]; // generic arguments of a typeRef or identifier (List<Int>.new())
+	nullable?: boolean; // typeRef followed by "?", e.g. Int?
+}
+
+export type DiagnosticSeverity = "error" | "warning" | "information" | "hint";
+
+/**
+ * Editor-independent problem report produced by the parser and analyzers.
+ */
+export interface AnalysisDiagnostic {
+	message: string;
+	range: SourceRange;
+	severity: DiagnosticSeverity;
+	code?: string; // analysis that reported it: "syntax", "type" or "effect"
+	fixes?: QuickFix[];
+}
+
+/**
+ * Replacement of a range of the analyzed text; an empty range inserts.
+ */
+export interface TextEdit {
+	range: SourceRange;
+	newText: string;
+}
+
+/**
+ * Editor-independent fix for a diagnostic, applied as a set of edits to
+ * the analyzed document.
+ */
+export interface QuickFix {
+	title: string;
+	edits: TextEdit[];
+	isPreferred?: boolean; // the fix most likely intended, e.g. the closest name
+}
+
+export type SymbolKind = "variable" | "function" | "class";
+
+export interface SymbolInfo {
+	name: string;
+	kind: SymbolKind;
+	line: number;
+	node: ASTNode;
+}
+
+/**
+ * Leading whitespace of the line containing an offset.
+ */
+export function indentationAt(text: string, offset: number): string {
+	const lineStart = text.lastIndexOf("\n", offset - 1) + 1;
+	return /^[ \t]*/.exec(text.slice(lineStart))?.[0] ?? "";
+}
+
+/**
+ * One level of indentation as the code around a node uses it: how much
+ * deeper the first statement of an enclosing function is indented than
+ * the function, else the first indented line of the text, else four
+ * spaces.
+ */
+export function indentationUnit(text: string, node: ASTNode): string {
+	for (let fn: ASTNode | null = node; fn; fn = fn.parent) {
+		const statement = fn.kind === "function" && fn.body?.children[0];
+		if (statement && statement.range.start.line > fn.range.start.line) {
+			const outer = indentationAt(text, fn.range.start.offset);
+			const inner = indentationAt(text, statement.range.start.offset);
+			if (inner.length > outer.length && inner.startsWith(outer)) {
+				return inner.slice(outer.length);
+			}
+		}
+	}
+	return /^([ \t]+)\S/m.exec(text)?.[1] ?? "    ";
+}
+
+/**
+ * Visit every node below (and including) the given node in source order.
+ */
+export function walk(node: ASTNode, visit: (node: ASTNode) => void): void {
+	visit(node);
+	for (const child of node.children) {
+		walk(child, visit);
+	}
+}
+
+/**
+ * Find the innermost node whose range contains the given offset.
+ */
+export function findNodeAt(node: ASTNode, offset: number): ASTNode | null {
+	if (offset < node.range.start.offset || offset > node.range.end.offset) {
+		return null;
+	}
+	for (const child of node.children) {
+		const found = findNodeAt(child, offset);
+		if (found) {
+			return found;
+		}
+	}
+	return node;
+}
+
+/**
+ * Source form of a type annotation, e.g. "MutableMap<String, List<Int>>?".
+ */
+export function typeRefToString(typeRef: ASTNode): string {
+	const suffix = typeRef.nullable ? "?" : "";
+	if (!typeRef.typeArgs || typeRef.typeArgs.length === 0) {
+		return `${typeRef.name}${suffix}`;
+	}
+	return `${typeRef.name}<${typeRef.typeArgs.map(typeRefToString).join(", ")}>${suffix}`;
+}
+
+/**
+ * Parameter list and return type of a function as written in the source,
+ * e.g. "(a: Int, b: String): Int".
+ */
+export function formatSignature(fn: ASTNode): string {
+	const params = (fn.params ?? [])
+		.map((param) =>
+			param.typeAnnotation
+				? `${param.name}: ${typeRefToString(param.typeAnnotation)}`
+				: param.name,
+		)
+		.join(", ");
+	const returnType = fn.returnType ? `: ${typeRefToString(fn.returnType)}` : "";
+	return `(${params})${returnType}`;
+}
+
+export function debugPrintAST(node: ASTNode, indent: string = ""): void {
+	for (const child of node.children) {
+		console.log(
+			`${indent}${child.kind} "${child.name}" (lines ${child.startLine + 1}-${
+				child.endLine + 1
+			})`,
+		);
+		debugPrintAST(child, `${indent}  `);
+	}
+}
@@ -0,0 +1,301 @@
+import { parseTypeString, type TypeInfo, typeToString } from "./inference";
+
+/**
+ * Signature of a built-in method, written with the type parameters of its
+ * collection (T for elements, K and V for map keys and values).
+ */
+interface BuiltinMethodDefinition {
+	name: string;
+	params: [name: string, type: string][];
+	returnType: string;
+	detail: string;
+}
+
+export interface MethodSignature {
+	name: string;
+	params: { name: string; type: TypeInfo }[];
+	returnType: TypeInfo;
+	detail: string;
+}
+
+const COLLECTION_TYPE_PARAMS: Record<string, string[]> = {
+	List: ["T"],
+	MutableSet: ["T"],
+	MutableMap: ["K", "V"],
+};
+
+const COLLECTION_METHODS: Record<string, BuiltinMethodDefinition[]> = {
+	List: [
+		{
+			name: "add",
+			params: [["element", "T"]],
+			returnType: "Unit",
+			detail: "Appends an element to the end of the list.",
+		},
+		{
+			name: "get",
+			params: [["index", "Int"]],
+			returnType: "T",
+			detail: "Returns the element at the given index.",
+		},
+		{
+			name: "set",
+			params: [
+				["index", "Int"],
+				["element", "T"],
+			],
+			returnType: "Unit",
+			detail: "Replaces the element at the given index.",
+		},
+		{
+			name: "removeAt",
+			params: [["index", "Int"]],
+			returnType: "T",
+			detail: "Removes and returns the element at the given index.",
+		},
+		{
+			name: "contains",
+			params: [["element", "T"]],
+			returnType: "Bool",
+			detail: "Checks whether the list contains the element.",
+		},
+		{
+			name: "indexOf",
+			params: [["element", "T"]],
+			returnType: "Int",
+			detail: "Returns the first index of the element, or -1.",
+		},
+		{
+			name: "size",
+			params: [],
+			returnType: "Int",
+			detail: "Returns the number of elements.",
+		},
+		{
+			name: "isEmpty",
+			params: [],
+			returnType: "Bool",
+			detail: "Checks whether the list has no elements.",
+		},
+		{
+			name: "clear",
+			params: [],
+			returnType: "Unit",
+			detail: "Removes all elements.",
+		},
+	],
+	MutableMap: [
+		{
+			name: "put",
+			params: [
+				["key", "K"],
+				["value", "V"],
+			],
+			returnType: "Unit",
+			detail: "Associates the value with the key.",
+		},
+		{
+			name: "get",
+			params: [["key", "K"]],
+			returnType: "V?",
+			detail: "Returns the value for the key, or null if it is absent.",
+		},
+		{
+			name: "remove",
+			params: [["key", "K"]],
+			returnType: "V?",
+			detail:
+				"Removes the key and returns its value, or null if it was absent.",
+		},
+		{
+			name: "containsKey",
+			params: [["key", "K"]],
+			returnType: "Bool",
+			detail: "Checks whether the map contains the key.",
+		},
+		{
+			name: "keys",
+			params: [],
+			returnType: "MutableSet<K>",
+			detail: "Returns the set of keys.",
+		},
+		{
+			name: "values",
+			params: [],
+			returnType: "List<V>",
+			detail: "Returns the list of values.",
+		},
+		{
+			name: "size",
+			params: [],
+			returnType: "Int",
+			detail: "Returns the number of entries.",
+		},
+		{
+			name: "isEmpty",
+			params: [],
+			returnType: "Bool",
+			detail: "Checks whether the map has no entries.",
+		},
+		{
+			name: "clear",
+			params: [],
+			returnType: "Unit",
+			detail: "Removes all entries.",
+		},
+	],
+	MutableSet: [
+		{
+			name: "add",
+			params: [["element", "T"]],
+			returnType: "Unit",
+			detail: "Adds the element to the set.",
+		},
+		{
+			name: "remove",
+			params: [["element", "T"]],
+			returnType: "Unit",
+			detail: "Removes the element from the set.",
+		},
+		{
+			name: "contains",
+			params: [["element", "T"]],
+			returnType: "Bool",
+			detail: "Checks whether the set contains the element.",
+		},
+		{
+			name: "size",
+			params: [],
+			returnType: "Int",
+			detail: "Returns the number of elements.",
+		},
+		{
+			name: "isEmpty",
+			params: [],
+			returnType: "Bool",
+			detail: "Checks whether the set has no elements.",
+		},
+		{
+			name: "clear",
+			params: [],
+			returnType: "Unit",
+			detail: "Removes all elements.",
+		},
+	],
+};
+
+const BUILTIN_FUNCTIONS: BuiltinMethodDefinition[] = [
+	{
+		name: "println",
+		params: [["value", "Any"]],
+		returnType: "Unit",
+		detail: "Prints a line to the console.",
+	},
+	{
+		name: "print",
+		params: [["value", "Any"]],
+		returnType: "Unit",
+		detail: "Prints to the console without a newline.",
+	},
+	{
+		name: "ask",
+		params: [
+			["actor", "Any"],
+			["message", "Any"],
+		],
+		returnType: "Any",
+		detail:
+			"Sends a message to an actor and waits for the reply of its handler, e.g. ask(counter, get()).",
+	},
+	{
+		name: "send",
+		params: [
+			["actor", "Any"],
+			["message", "Any"],
+		],
+		returnType: "Unit",
+		detail:
+			"Sends a message to an actor without waiting for a reply, e.g. send(counter, increment(1)).",
+	},
+];
+
+// Built-in functions accept values of any type, which the checker treats
+// like Unknown
+const ANY_TYPE: TypeInfo = { kind: "Unknown", readonlyName: "Any" };
+
+/**
+ * Whether a type name refers to a built-in collection (List, MutableMap,
+ * MutableSet).
+ */
+export function isCollectionType(name: string): boolean {
+	return name in COLLECTION_METHODS;
+}
+
+/**
+ * Names of the built-in collection types.
+ */
+export function getCollectionTypeNames(): string[] {
+	return Object.keys(COLLECTION_METHODS);
+}
+
+/**
+ * Built-in methods of a collection type with its type parameters replaced
+ * by the receiver's generics, e.g. List<Int>.add(element: Int).
+ * Returns an empty list for other types.
+ */
+export function getBuiltinMethods(receiver: TypeInfo): MethodSignature[] {
+	const definitions = COLLECTION_METHODS[receiver.kind];
+	if (!definitions) {
+		return [];
+	}
+
+	const typeParams = new Map<string, TypeInfo>();
+	COLLECTION_TYPE_PARAMS[receiver.kind].forEach((name, i) => {
+		typeParams.set(name, receiver.generics?.[i] ?? { kind: "Unknown" });
+	});
+
+	return definitions.map((definition) => specialize(definition, typeParams));
+}
+
+/**
+ * Signature of a built-in function such as println, or undefined when
+ * `name` is not one.
+ */
+export function getBuiltinFunction(name: string): MethodSignature | undefined {
+	const definition = BUILTIN_FUNCTIONS.find((fn) => fn.name === name);
+	return definition
+		? specialize(definition, new Map([["Any", ANY_TYPE]]))
+		: undefined;
+}
+
+/**
+ * Names of the built-in functions.
+ */
+export function getBuiltinFunctionNames(): string[] {
+	return BUILTIN_FUNCTIONS.map((fn) => fn.name);
+}
+
+function specialize(
+	definition: BuiltinMethodDefinition,
+	typeParams: Map<string, TypeInfo>,
+): MethodSignature {
+	return {
+		name: definition.name,
+		params: definition.params.map(([name, type]) => ({
+			name,
+			type: parseTypeString(type, typeParams),
+		})),
+		returnType: parseTypeString(definition.returnType, typeParams),
+		detail: definition.detail,
+	};
+}
+
+/**
+ * Format a method signature for display, e.g. "put(key: String, value: Int): Unit".
+ */
+export function formatMethodSignature(method: MethodSignature): string {
+	const params = method.params
+		.map((param) => `${param.name}: ${typeToString(param.type)}`)
+		.join(", ");
+	return `${method.name}(${params}): ${typeToString(method.returnType)}`;
+}
@@ -0,0 +1,921 @@
+import {
+	type AnalysisDiagnostic,
+	type ASTNode,
+	indentationAt,
+	indentationUnit,
+	type QuickFix,
+	type SourcePosition,
+	type SourceRange,
+	type SymbolKind,
+	type TextEdit,
+	typeRefToString,
+	walk,
+} from "./ast";
+import {
+	getBuiltinFunction,
+	getBuiltinFunctionNames,
+	getBuiltinMethods,
+	getCollectionTypeNames,
+	isCollectionType,
+} from "./builtins";
+import {
+	ARITHMETIC_OPERATORS,
+	COMPARISON_OPERATORS,
+	EQUALITY_OPERATORS,
+	type InferenceEngine,
+	isDenotable,
+	isNumeric,
+	LOGICAL_OPERATORS,
+	type TypeInfo,
+	typeToString,
+	widensTo,
+} from "./inference";
+import {
+	type ActorMessage,
+	findHandler,
+	getActorMessage,
+	getEnclosingActorMessage,
+} from "./messaging";
+import {
+	findMember,
+	type GlobalNames,
+	isField,
+	isGlobalDeclaration,
+	ScopeResolver,
+} from "./scope";
+import { suggestNames } from "./suggestions";
+
+// Operators whose operand types are checked
+const CHECKED_OPERATORS = new Set([
+	...ARITHMETIC_OPERATORS,
+	...COMPARISON_OPERATORS,
+	...EQUALITY_OPERATORS,
+	...LOGICAL_OPERATORS,
+]);
+
+/**
+ * What the checker needs to know besides the AST and its types.
+ */
+export interface CheckContext {
+	text: string; // the checked source, to indent the code fixes insert
+	// Declarations of the other files of the program; undeclared names are
+	// not reported while they are not known (null)
+	globals: GlobalNames | null;
+}
+
+/**
+ * Reports type errors using the types inferred by an InferenceEngine.
+ * Must run right after `engine.infer(ast)` on the same AST.
+ */
+export class TypeChecker {
+	private diagnostics: AnalysisDiagnostic[] = [];
+	private ast: ASTNode | null = null;
+	private types: Map<ASTNode, TypeInfo> = new Map();
+	private context: CheckContext = { text: "", globals: null };
+	private declaredGlobals = new Set<string>(); // global declarations of the AST
+	private resolver = new ScopeResolver();
+	private mutableLocals: ASTNode[] = []; // local `var`s, in source order
+	private reassigned = new Set<ASTNode>(); // declarations assigned to
+
+	constructor(private engine: InferenceEngine) {}
+
+	/**
+	 * Type errors in the AST, or in the given top-level nodes of it.
+	 */
+	check(
+		ast: ASTNode,
+		types: Map<ASTNode, TypeInfo>,
+		context: CheckContext,
+		nodes = ast.children,
+	): AnalysisDiagnostic[] {
+		this.diagnostics = [];
+		this.ast = ast;
+		this.types = types;
+		this.context = context;
+		this.declaredGlobals = new Set(
+			ast.children.filter(isGlobalDeclaration).map((node) => node.name),
+		);
+		this.mutableLocals = [];
+		this.reassigned = new Set();
+
+		const visit = (node: ASTNode) => {
+			switch (node.kind) {
+				case "variable":
+					this.checkVariable(node);
+					break;
+				case "assignment":
+					this.checkAssignment(node);
+					break;
+				case "binary":
+					this.checkBinary(node);
+					break;
+				case "unary":
+					this.checkUnary(node);
+					break;
+				case "call": {
+					this.checkCall(node);
+					const message = getActorMessage(node, (id) =>
+						this.resolver.resolve(id),
+					);
+					if (message) {
+						this.checkActorMessage(message);
+					}
+					break;
+				}
+				case "return":
+					this.checkReturn(node);
+					break;
+				case "member":
+					this.checkMember(node);
+					break;
+				case "index":
+					this.checkIndex(node);
+					break;
+				case "identifier":
+					this.checkIdentifier(node);
+					break;
+			}
+		};
+		for (const node of nodes) {
+			walk(node, visit);
+		}
+		if (nodes !== ast.children) {
+			this.collectGlobalAssignments(ast, new Set(nodes));
+		}
+		this.checkNeverReassigned();
+
+		return this.diagnostics;
+	}
+
+	/**
+	 * var x: Int = "text"  -> initializer does not match the annotation
+	 * var x                -> neither annotation nor initializer
+	 */
+	private checkVariable(node: ASTNode) {
+		if (node.parent?.iterator === node || !node.name) {
+			return;
+		}
+
+		if (!node.typeAnnotation && !node.initializer) {
+			this.error(
+				`Variable '${node.name}' needs a type annotation or an initializer`,
+				node.nameRange ?? node.range,
+			);
+			return;
+		}
+
+		// Fields may be assigned from other files, so only locals are checked
+		if (node.mutable && node.initializer && !isField(node)) {
+			this.mutableLocals.push(node);
+		}
+
+		if (node.typeAnnotation && node.initializer) {
+			const declared = this.types.get(node);
+			const actual = this.engine.inferExpressionType(node.initializer);
+			if (declared && !isAssignable(declared, actual)) {
+				this.error(
+					notAssignableMessage(declared, actual, "type"),
+					node.initializer.range,
+				);
+			}
+		}
+	}
+
+	/**
+	 * x = value, x += value
+	 */
+	private checkAssignment(node: ASTNode) {
+		const target = node.left;
+		const value = node.right;
+		if (!target || !value || target.kind !== "identifier") {
+			return;
+		}
+
+		const declaration = this.resolver.resolve(target);
+		if (!declaration) {
+			return;
+		}
+		this.reassigned.add(declaration);
+
+		if (declaration.kind === "variable" && declaration.mutable === false) {
+			this.error(
+				`Cannot reassign '${target.name}' because it is declared with 'val'`,
+				target.range,
+			);
+			return;
+		}
+		if (declaration.kind === "parameter" && !declaration.mutable) {
+			this.error(`Cannot assign to parameter '${target.name}'`, target.range);
+			return;
+		}
+
+		const declared = this.types.get(declaration);
+		if (!declared) {
+			return;
+		}
+
+		let actual = this.engine.inferExpressionType(value);
+		if (node.operator && node.operator !== "=") {
+			// Compound assignment: x += v behaves like x = x + v
+			const operator = node.operator.slice(0, -1);
+			if (!this.checkOperands(operator, declared, actual, node.range)) {
+				return;
+			}
+			actual = this.engine.inferBinaryOperationType(declared, operator, actual);
+		}
+
+		if (!isAssignable(declared, actual)) {
+			this.error(notAssignableMessage(declared, actual, "type"), value.range);
+		}
+	}
+
+	/**
+	 * Top-level variables may be assigned to by code that is not checked.
+	 */
+	private collectGlobalAssignments(ast: ASTNode, checked: Set<ASTNode>) {
+		if (!this.mutableLocals.some((node) => node.parent === ast)) {
+			return;
+		}
+		for (const node of ast.children) {
+			if (checked.has(node)) {
+				continue;
+			}
+			walk(node, (child) => {
+				if (child.kind === "assignment" && child.left?.kind === "identifier") {
+					const declaration = this.resolver.resolve(child.left);
+					if (declaration?.parent === ast) {
+						this.reassigned.add(declaration);
+					}
+				}
+			});
+		}
+	}
+
+	/**
+	 * var x = 1 where x is never assigned to -> could be a val
+	 */
+	private checkNeverReassigned() {
+		for (const node of this.mutableLocals) {
+			if (this.reassigned.has(node)) {
+				continue;
+			}
+			this.diagnostics.push({
+				message: `Variable '${node.name}' is never reassigned; declare it with 'val'`,
+				range: node.nameRange ?? node.range,
+				severity: "warning",
+				fixes: [
+					{
+						title: "Change 'var' to 'val'",
+						edits: [
+							{
+								range: rangeAt(node.range.start, "var".length),
+								newText: "val",
+							},
+						],
+					},
+				],
+			});
+		}
+	}
+
+	private checkBinary(node: ASTNode) {
+		if (!node.left || !node.right || !node.operator) {
+			return;
+		}
+		this.checkOperands(
+			node.operator,
+			this.engine.inferExpressionType(node.left),
+			this.engine.inferExpressionType(node.right),
+			node.range,
+		);
+	}
+
+	/**
+	 * !1, -"text"
+	 */
+	private checkUnary(node: ASTNode) {
+		if (!node.expression || !node.operator) {
+			return;
+		}
+		const operand = this.engine.inferExpressionType(node.expression);
+		if (
+			operand.kind !== "Unknown" &&
+			this.engine.inferUnaryOperationType(node.operator, operand).kind ===
+				"Unknown"
+		) {
+			this.error(
+				`Operator '${node.operator}' cannot be applied to type '${typeToString(operand)}'`,
+				node.range,
+			);
+		}
+	}
+
+	/**
+	 * Report an operator applied to operands it does not support. Returns
+	 * false when an error was reported.
+	 */
+	private checkOperands(
+		operator: string,
+		left: TypeInfo,
+		right: TypeInfo,
+		range: SourceRange,
+	): boolean {
+		if (
+			!CHECKED_OPERATORS.has(operator) ||
+			left.kind === "Unknown" ||
+			right.kind === "Unknown"
+		) {
+			return true;
+		}
+		const result = this.engine.inferBinaryOperationType(left, operator, right);
+		if (result.kind !== "Unknown") {
+			return true;
+		}
+		this.error(
+			`Operator '${operator}' cannot be applied to types '${typeToString(left)}' and '${typeToString(right)}'`,
+			range,
+		);
+		return false;
+	}
+
+	/**
+	 * Calls to user-defined functions, methods, constructors and built-in
+	 * collection methods must pass one argument of the right type per
+	 * parameter.
+	 */
+	private checkCall(node: ASTNode) {
+		const params = this.getParameters(node.callee);
+		if (!params) {
+			return;
+		}
+
+		const args = node.args ?? [];
+		if (params.length !== args.length) {
+			this.error(
+				`Expected ${params.length} argument${params.length === 1 ? "" : "s"} but got ${args.length}`,
+				node.range,
+			);
+			return;
+		}
+
+		args.forEach((arg, i) => {
+			const declared = params[i].type;
+			const actual = this.engine.inferExpressionType(arg);
+			if (!isAssignable(declared, actual)) {
+				this.error(
+					notAssignableMessage(
+						declared,
+						actual,
+						`parameter '${params[i].name}' of type`,
+					),
+					arg.range,
+				);
+			}
+		});
+	}
+
+	/**
+	 * Names and types of the parameters of a callee, or null when it cannot
+	 * be resolved.
+	 */
+	private getParameters(
+		callee: ASTNode | undefined,
+	): { name: string; type: TypeInfo }[] | null {
+		const declaration = this.engine.resolveCallee(callee);
+		if (declaration) {
+			return (declaration.params ?? []).map((param) => ({
+				name: param.name,
+				type: this.types.get(param) ?? { kind: "Unknown" },
+			}));
+		}
+
+		if (callee?.kind === "member" && callee.object) {
+			const receiver = this.engine.inferExpressionType(callee.object);
+			const method = getBuiltinMethods(receiver).find(
+				(m) => m.name === callee.name,
+			);
+			if (method) {
+				return method.params;
+			}
+		}
+		return null;
+	}
+
+	/**
+	 * send(target, handler(args)) and ask(target, handler(args)): the target
+	 * must be an actor with a `fun` named by the message. Arguments of the
+	 * message are checked against the handler by checkCall.
+	 */
+	private checkActorMessage(message: ActorMessage) {
+		const { kind, call, target } = message;
+		if (!target || (call.args ?? []).length !== 2) {
+			this.error(
+				`'${kind}' expects an actor and a message, e.g. ${kind}(counter, increment(1))`,
+				call.range,
+			);
+			return;
+		}
+
+		const targetType = this.engine.inferExpressionType(target);
+		const actor = targetType.declaration;
+		if (targetType.nullable) {
+			this.error(
+				`Cannot ${kind} to a value of nullable type '${typeToString(targetType)}'; check it against null first`,
+				target.range,
+			);
+			return;
+		}
+		if (actor?.kind === "class") {
+			this.error(
+				`'${kind}' requires an actor, but '${actor.name}' is a class`,
+				target.range,
+				[
+					{
+						title: `Convert class '${actor.name}' to an actor`,
+						edits: [
+							{
+								range: rangeAt(actor.range.start, "class".length),
+								newText: "actor",
+							},
+						],
+					},
+				],
+			);
+			return;
+		}
+		if (!actor) {
+			if (targetType.kind !== "Unknown") {
+				this.error(
+					`'${kind}' requires an actor, but got a value of type '${typeToString(targetType)}'`,
+					target.range,
+				);
+			}
+			return;
+		}
+
+		const handlerCall = message.message;
+		if (
+			handlerCall?.kind !== "call" ||
+			handlerCall.callee?.kind !== "identifier"
+		) {
+			this.error(
+				`The message must call a handler of '${actor.name}', e.g. ${kind}(${target.name || "counter"}, increment(1))`,
+				(handlerCall ?? target).range,
+			);
+			return;
+		}
+
+		const name = handlerCall.callee.name;
+		const handler = findHandler(actor, handlerCall);
+		if (!handler) {
+			this.error(
+				`Actor '${actor.name}' has no handler '${name}'`,
+				handlerCall.callee.range,
+				this.addHandlerFixes(message, handlerCall, actor),
+			);
+			return;
+		}
+
+		const reply = this.types.get(handler)?.returnType;
+		const callee = call.callee;
+		if (!callee) {
+			return;
+		}
+		if (kind === "ask" && reply?.kind === "Unit") {
+			this.error(
+				`Handler '${name}' does not reply; use 'send' instead of 'ask'`,
+				callee.range,
+				[
+					{
+						title: "Replace 'ask' with 'send'",
+						edits: [{ range: callee.range, newText: "send" }],
+					},
+				],
+			);
+		}
+	}
+
+	/**
+	 * Add a `fun` handling the message, with parameter types taken from the
+	 * arguments and, for `ask`, the reply type from an annotated variable
+	 * the reply is stored in.
+	 */
+	private addHandlerFixes(
+		message: ActorMessage,
+		handlerCall: ASTNode,
+		actor: ASTNode,
+	): QuickFix[] {
+		const params = this.stubParameters(handlerCall, "");
+		if (params === null) {
+			return [];
+		}
+		const name = handlerCall.callee?.name;
+		const indent = this.memberIndentation(actor, message.call);
+		const reply =
+			message.kind === "ask" ? annotationOfStoredValue(message.call) : "";
+		return [
+			{
+				title: `Add handler '${name}' to actor '${actor.name}'`,
+				edits: [
+					{
+						range: rangeAt(insertionBeforeClosingBrace(actor), 0),
+						newText: `\n${indent}fun ${name}(${params})${reply} {\n${indent}}\n`,
+					},
+				],
+			},
+		];
+	}
+
+	/**
+	 * point.z -> Point has no field or function named z
+	 */
+	private checkMember(node: ASTNode) {
+		if (!node.object || !node.name || !node.nameRange) {
+			return;
+		}
+		const receiver = this.engine.inferExpressionType(node.object);
+		if (receiver.nullable) {
+			this.error(
+				`Cannot access '${node.name}' on a value of nullable type '${typeToString(receiver)}'; check it against null first`,
+				node.nameRange,
+			);
+			return;
+		}
+		if (receiver.declaration && !findMember(receiver.declaration, node.name)) {
+			this.error(
+				`Property '${node.name}' does not exist on type '${typeToString(receiver)}'`,
+				node.nameRange,
+			);
+		}
+	}
+
+	/**
+	 * list[0] where list may be null
+	 */
+	private checkIndex(node: ASTNode) {
+		if (!node.object) {
+			return;
+		}
+		const receiver = this.engine.inferExpressionType(node.object);
+		if (receiver.nullable) {
+			this.error(
+				`Cannot index a value of nullable type '${typeToString(receiver)}'; check it against null first`,
+				node.object.range,
+			);
+		}
+	}
+
+	/**
+	 * fun f(): Int { return "text" } -> value does not match the return type
+	 * fun f(): Int { return }        -> missing value
+	 */
+	private checkReturn(node: ASTNode) {
+		let fn = node.parent;
+		while (fn && fn.kind !== "function") {
+			fn = fn.parent;
+		}
+		if (!fn?.returnType) {
+			return;
+		}
+
+		const declared = this.types.get(fn)?.returnType;
+		if (!declared) {
+			return;
+		}
+
+		if (!node.expression) {
+			if (declared.kind !== "Unit" && declared.kind !== "Unknown") {
+				this.error(
+					`Function '${fn.name}' must return a value of type '${typeToString(declared)}'`,
+					node.range,
+				);
+			}
+			return;
+		}
+
+		const actual = this.engine.inferExpressionType(node.expression);
+		if (!isAssignable(declared, actual)) {
+			this.error(
+				notAssignableMessage(declared, actual, "return type"),
+				node.expression.range,
+			);
+		}
+	}
+
+	/**
+	 * foo(1) where foo is declared nowhere: not in scope, not built in and
+	 * not in another file
+	 */
+	private checkIdentifier(node: ASTNode) {
+		const { name } = node;
+		const { globals } = this.context;
+		if (
+			!globals ||
+			!name ||
+			globals.has(name) ||
+			// Visible everywhere, so without looking through the scopes
+			this.declaredGlobals.has(name) ||
+			this.resolver.resolve(node) ||
+			getBuiltinFunction(name) ||
+			isCollectionType(name)
+		) {
+			return;
+		}
+		// The handler named by send(counter, increment(1)) belongs to the
+		// actor; checkActorMessage reports it when it is missing
+		const call = node.parent;
+		if (
+			call?.kind === "call" &&
+			call.callee === node &&
+			getEnclosingActorMessage(call, (id) => this.resolver.resolve(id))
+		) {
+			return;
+		}
+		this.error(
+			`Cannot find name '${name}'`,
+			node.nameRange ?? node.range,
+			this.undeclaredNameFixes(node),
+		);
+	}
+
+	/**
+	 * Replace a misspelled name with a similar one that is declared, or
+	 * create the function, class or actor a call expects.
+	 */
+	private undeclaredNameFixes(identifier: ASTNode): QuickFix[] {
+		const parent = identifier.parent;
+		const call =
+			parent?.kind === "call" && parent.callee === identifier ? parent : null;
+		const constructorCall =
+			parent?.kind === "member" &&
+			parent.object === identifier &&
+			parent.name === "new" &&
+			parent.parent?.kind === "call" &&
+			parent.parent.callee === parent
+				? parent.parent
+				: null;
+
+		// Only names that can stand where the identifier is are suggested
+		const kind: SymbolKind = call
+			? "function"
+			: constructorCall
+				? "class"
+				: "variable";
+		const fits = (candidate: SymbolKind) =>
+			candidate === kind || (kind === "variable" && candidate === "class");
+		const candidates = this.resolver
+			.getSymbolsAtLine(this.ast ?? identifier, identifier.range.start.line)
+			.filter((symbol) => fits(symbol.kind))
+			.map((symbol) => symbol.name);
+		for (const [name, global] of this.context.globals ?? []) {
+			if (fits(global)) {
+				candidates.push(name);
+			}
+		}
+		if (call) {
+			candidates.push(...getBuiltinFunctionNames());
+		} else if (constructorCall) {
+			candidates.push(...getCollectionTypeNames());
+		}
+
+		const fixes: QuickFix[] = suggestNames(identifier.name, candidates).map(
+			(suggestion, i) => ({
+				title: `Did you mean '${suggestion}'?`,
+				edits: [
+					{
+						range: identifier.nameRange ?? identifier.range,
+						newText: suggestion,
+					},
+				],
+				isPreferred: i === 0,
+			}),
+		);
+		if (call) {
+			fixes.push(...this.createFunctionFixes(identifier.name, call));
+		} else if (constructorCall) {
+			fixes.push(
+				...this.createTypeFixes("actor", identifier.name, constructorCall),
+				...this.createTypeFixes("class", identifier.name, constructorCall),
+			);
+		}
+		return fixes;
+	}
+
+	/**
+	 * Create the function a call expects: a member of the class or actor
+	 * the call is made in, otherwise a top-level function after the
+	 * declaration containing the call.
+	 */
+	private createFunctionFixes(name: string, call: ASTNode): QuickFix[] {
+		const params = this.stubParameters(call, "");
+		if (params === null) {
+			return [];
+		}
+		const returnType = annotationOfStoredValue(call);
+		const owner = enclosingType(call);
+		if (!owner) {
+			return [
+				{
+					title: `Create function '${name}'`,
+					edits: [
+						insertAfterDeclaration(
+							call,
+							`fun ${name}(${params})${returnType} {\n}`,
+						),
+					],
+				},
+			];
+		}
+		const indent = this.memberIndentation(owner, call);
+		return [
+			{
+				title: `Create function '${name}' in ${owner.kind} '${owner.name}'`,
+				edits: [
+					{
+						range: rangeAt(insertionBeforeClosingBrace(owner), 0),
+						newText: `\n${indent}fun ${name}(${params})${returnType} {\n${indent}}\n`,
+					},
+				],
+			},
+		];
+	}
+
+	/**
+	 * Create the class or actor constructed by `Name.new(...)`, with a
+	 * constructor parameter for each argument.
+	 */
+	private createTypeFixes(
+		kind: "class" | "actor",
+		name: string,
+		call: ASTNode,
+	): QuickFix[] {
+		// Class parameters become fields; actor state is declared in the body
+		const params = this.stubParameters(call, kind === "class" ? "val " : "");
+		if (params === null) {
+			return [];
+		}
+		const header = params ? `${kind} ${name}(${params})` : `${kind} ${name}`;
+		return [
+			{
+				title: `Create ${kind} '${name}'`,
+				edits: [insertAfterDeclaration(call, `${header} {\n}`)],
+			},
+		];
+	}
+
+	/**
+	 * Parameters for the arguments of a call, named after the arguments
+	 * where they are plain names and typed with their inferred types. Null
+	 * when the type of an argument cannot be written down (e.g. `null` or
+	 * an undeclared name): parameters must be typed, and a made-up type
+	 * would not be checked.
+	 */
+	private stubParameters(call: ASTNode, keyword: string): string | null {
+		const params: string[] = [];
+		for (const [i, arg] of (call.args ?? []).entries()) {
+			const type = this.engine.inferExpressionType(arg);
+			if (!isDenotable(type)) {
+				return null;
+			}
+			const name = arg.kind === "identifier" ? arg.name : `arg${i + 1}`;
+			params.push(`${keyword}${name}: ${typeToString(type)}`);
+		}
+		return params.join(", ");
+	}
+
+	/**
+	 * Indentation of a new member of a class or actor: that of its members,
+	 * or one level deeper than the declaration, as the code around `from`
+	 * is indented.
+	 */
+	private memberIndentation(type: ASTNode, from: ASTNode): string {
+		const { text } = this.context;
+		const member = type.children.find(
+			(child) =>
+				(child.kind === "function" || child.kind === "variable") &&
+				child.range.start.line > type.range.start.line,
+		);
+		if (member) {
+			return indentationAt(text, member.range.start.offset);
+		}
+		return (
+			indentationAt(text, type.range.start.offset) + indentationUnit(text, from)
+		);
+	}
+
+	private error(message: string, range: SourceRange, fixes?: QuickFix[]) {
+		this.diagnostics.push({ message, range, severity: "error", fixes });
+	}
+}
+
+/**
+ * The range of `length` characters on one line starting at `start`.
+ */
+function rangeAt(start: SourcePosition, length: number): SourceRange {
+	return {
+		start,
+		end: {
+			line: start.line,
+			character: start.character + length,
+			offset: start.offset + length,
+		},
+	};
+}
+
+/**
+ * Position of the closing brace of a class or actor body.
+ */
+function insertionBeforeClosingBrace(type: ASTNode): SourcePosition {
+	const { end } = type.range;
+	return {
+		line: end.line,
+		character: Math.max(end.character - 1, 0),
+		offset: end.offset - 1,
+	};
+}
+
+/**
+ * ": Type" when the value of a call is stored in an annotated variable,
+ * e.g. `val total: Int = sum(xs)`, otherwise an empty string.
+ */
+function annotationOfStoredValue(call: ASTNode): string {
+	const variable = call.parent;
+	return variable?.kind === "variable" &&
+		variable.initializer === call &&
+		variable.typeAnnotation
+		? `: ${typeRefToString(variable.typeAnnotation)}`
+		: "";
+}
+
+/**
+ * The class or actor whose function contains a node.
+ */
+function enclosingType(node: ASTNode): ASTNode | null {
+	for (let parent = node.parent; parent; parent = parent.parent) {
+		if (parent.kind === "class" || parent.kind === "actor") {
+			return parent;
+		}
+	}
+	return null;
+}
+
+/**
+ * Insert a new top-level declaration after the one containing `node`.
+ */
+function insertAfterDeclaration(node: ASTNode, source: string): TextEdit {
+	let declaration = node;
+	while (declaration.parent && declaration.parent.kind !== "program") {
+		declaration = declaration.parent;
+	}
+	return {
+		range: rangeAt(declaration.range.end, 0),
+		newText: `\n\n${source}`,
+	};
+}
+
+/**
+ * Whether a value of type `source` may be stored where `target` is expected.
+ * Unknown types are compatible with everything to avoid false positives.
+ * Nullable values (including null itself) need a nullable target. Numbers
+ * widen like they do in inference: an Int may be stored in a Double.
+ */
+export function isAssignable(target: TypeInfo, source: TypeInfo): boolean {
+	if (target.kind === "Unknown" || source.kind === "Unknown") {
+		return true;
+	}
+	if (source.nullable && !target.nullable) {
+		return false;
+	}
+	if (source.kind === "Nothing") {
+		return true;
+	}
+	if (isNumeric(target.kind) && isNumeric(source.kind)) {
+		return widensTo(source.kind, target.kind);
+	}
+	if (
+		target.kind !== source.kind ||
+		(target.kind === "Custom" && target.readonlyName !== source.readonlyName)
+	) {
+		return false;
+	}
+	const targetGenerics = target.generics ?? [];
+	const sourceGenerics = source.generics ?? [];
+	return targetGenerics.every(
+		(g, i) => !sourceGenerics[i] || isAssignable(g, sourceGenerics[i]),
+	);
+}
+
+/**
+ * Message for a value of type `actual` used where `declared` is expected,
+ * e.g. "Type 'String' is not assignable to return type 'Int'".
+ */
+function notAssignableMessage(
+	declared: TypeInfo,
+	actual: TypeInfo,
+	target: string,
+): string {
+	if (actual.kind === "Nothing") {
+		return `Null cannot be a value of non-null ${target} '${typeToString(declared)}'`;
+	}
+	return `Type '${typeToString(actual)}' is not assignable to ${target} '${typeToString(declared)}'`;
+}
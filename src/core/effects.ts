@@ -0,0 +1,143 @@
+import { type AnalysisDiagnostic, type ASTNode, walk } from "./ast";
+import type { InferenceEngine } from "./inference";
+import { getActorMessage, getEnclosingActorMessage } from "./messaging";
+import { ScopeResolver } from "./scope";
+
+// Built-in functions that write to the console
+const IO_BUILTINS = new Set(["println", "print"]);
+
+/**
+ * A call that makes the function containing it perform I/O.
+ */
+export interface IoOperation {
+	call: ASTNode;
+	description: string; // e.g. "calls 'println'"
+}
+
+/**
+ * Effect analysis. A function performs I/O, and must be declared with
+ * `io fun`, when its own body
+ *
+ *   calls println or print
+ *   calls an `io` function or method
+ *   messages an actor with send or ask
+ *
+ * Handler calls inside a message, like increment(1) in
+ * send(counter, increment(1)), run on the actor and do not count.
+ */
+export class EffectAnalyzer {
+	private resolver = new ScopeResolver();
+
+	constructor(private engine: InferenceEngine) {}
+
+	/**
+	 * I/O operations performed directly by each function in the AST, or in
+	 * the given top-level nodes of it. Must run right after `engine.infer`
+	 * on the same AST.
+	 */
+	analyze(ast: ASTNode, nodes = ast.children): Map<ASTNode, IoOperation[]> {
+		const effects = new Map<ASTNode, IoOperation[]>();
+		const visit = (node: ASTNode) => {
+			if (node.kind === "function") {
+				effects.set(node, []);
+				return;
+			}
+			if (node.kind !== "call") {
+				return;
+			}
+			const fn = enclosingFunction(node);
+			const description = fn ? this.describeIo(node) : null;
+			if (fn && description) {
+				effects.get(fn)?.push({ call: node, description });
+			}
+		};
+		for (const node of nodes) {
+			walk(node, visit);
+		}
+		return effects;
+	}
+
+	/**
+	 * Why a call performs I/O, or null when it does not.
+	 */
+	private describeIo(call: ASTNode): string | null {
+		const resolve = (id: ASTNode) => this.resolver.resolve(id);
+		const message = getActorMessage(call, resolve);
+		if (message) {
+			return `messages an actor with '${message.kind}'`;
+		}
+		if (getEnclosingActorMessage(call, resolve)) {
+			return null;
+		}
+
+		const callee = this.engine.resolveCallee(call.callee);
+		if (callee) {
+			return callee.isIo ? `calls io function '${callee.name}'` : null;
+		}
+		if (
+			call.callee?.kind === "identifier" &&
+			IO_BUILTINS.has(call.callee.name) &&
+			!resolve(call.callee)
+		) {
+			return `calls '${call.callee.name}'`;
+		}
+		return null;
+	}
+}
+
+/**
+ * Functions that perform I/O without being declared `io fun`, with a fix
+ * adding the modifier.
+ */
+export function checkEffects(
+	effects: Map<ASTNode, IoOperation[]>,
+): AnalysisDiagnostic[] {
+	const diagnostics: AnalysisDiagnostic[] = [];
+	effects.forEach((operations, fn) => {
+		if (fn.isIo || operations.length === 0 || !fn.name) {
+			return;
+		}
+		diagnostics.push({
+			message: `Function '${fn.name}' ${operations[0].description} but is not declared 'io'`,
+			range: fn.nameRange ?? fn.range,
+			severity: "error",
+			fixes: [
+				{
+					title: `Add 'io' modifier to '${fn.name}'`,
+					edits: [
+						{
+							range: { start: fn.range.start, end: fn.range.start },
+							newText: "io ",
+						},
+					],
+				},
+			],
+		});
+	});
+	return diagnostics;
+}
+
+/**
+ * Effect of a function for display: "io", "pure", or the I/O it performs
+ * without declaring it.
+ */
+export function formatEffect(
+	fn: ASTNode,
+	operations: IoOperation[] | undefined,
+): string {
+	if (fn.isIo) {
+		return "io";
+	}
+	if (operations?.length) {
+		return `io, not declared (${operations[0].description})`;
+	}
+	return "pure";
+}
+
+function enclosingFunction(node: ASTNode): ASTNode | null {
+	let parent = node.parent;
+	while (parent && parent.kind !== "function") {
+		parent = parent.parent;
+	}
+	return parent ?? null;
+}
@@ -0,0 +1,133 @@
+import type { Dirent, Stats } from "node:fs";
+import * as fs from "node:fs/promises";
+import * as path from "node:path";
+
+const SOURCE_EXTENSION = ".sy";
+
+// Directories never searched for source files
+const SKIPPED_DIRECTORIES = new Set(["node_modules"]);
+
+/**
+ * Expand command-line arguments into the Synotra files they name. An
+ * argument is a file, a directory (searched recursively for .sy files) or
+ * a glob using *, **, ? and {a,b}. Resolves to the files in a stable order
+ * and the arguments that matched nothing.
+ */
+export async function expandPatterns(patterns: string[]): Promise<{
+	files: string[];
+	unmatched: string[];
+}> {
+	const files = new Set<string>();
+	const unmatched: string[] = [];
+
+	for (const pattern of patterns) {
+		const matches = isGlob(pattern)
+			? await matchGlob(pattern)
+			: await findSourceFiles(pattern);
+		if (matches.length === 0) {
+			unmatched.push(pattern);
+		}
+		for (const file of matches) {
+			files.add(path.normalize(file));
+		}
+	}
+	return { files: [...files].sort(), unmatched };
+}
+
+function isGlob(pattern: string): boolean {
+	return /[*?{]/.test(pattern);
+}
+
+/**
+ * The file itself, or the source files below a directory.
+ */
+async function findSourceFiles(target: string): Promise<string[]> {
+	const stat = await statOrNull(target);
+	if (stat?.isFile()) {
+		return [target];
+	}
+	return stat?.isDirectory()
+		? (await walkFiles(target)).filter((file) =>
+				file.endsWith(SOURCE_EXTENSION),
+			)
+		: [];
+}
+
+async function matchGlob(pattern: string): Promise<string[]> {
+	const normalized = pattern.split(path.sep).join("/");
+	const segments = normalized.split("/");
+	const firstGlob = segments.findIndex(isGlob);
+	const base = segments.slice(0, firstGlob).join("/") || ".";
+	const regex = globToRegExp(normalized);
+
+	if (!(await statOrNull(base))?.isDirectory()) {
+		return [];
+	}
+	return (await walkFiles(base)).filter((file) =>
+		regex.test(file.split(path.sep).join("/")),
+	);
+}
+
+/**
+ * Translate a glob to a regular expression over "/"-separated paths:
+ * "**" spans directories, "*" and "?" stay within one, and "{a,b}" is an
+ * alternative.
+ */
+function globToRegExp(glob: string): RegExp {
+	let source = "";
+	for (let i = 0; i < glob.length; i++) {
+		const ch = glob[i];
+		if (glob.startsWith("**/", i)) {
+			source += "(?:.*/)?";
+			i += 2;
+		} else if (glob.startsWith("**", i)) {
+			source += ".*";
+			i++;
+		} else if (ch === "*") {
+			source += "[^/]*";
+		} else if (ch === "?") {
+			source += "[^/]";
+		} else if (ch === "{") {
+			source += "(?:";
+		} else if (ch === "}") {
+			source += ")";
+		} else if (ch === ",") {
+			source += "|";
+		} else {
+			source += ch.replace(/[.+^$()|[\]\\]/g, "\\$&");
+		}
+	}
+	// "./src/*.sy" should match "src/a.sy" as produced by walkFiles
+	return new RegExp(`^(?:\\./)?${source.replace(/^\\\.\//, "")}$`);
+}
+
+async function statOrNull(target: string): Promise<Stats | null> {
+	try {
+		return await fs.stat(target);
+	} catch {
+		return null;
+	}
+}
+
+async function walkFiles(directory: string): Promise<string[]> {
+	const files: string[] = [];
+	let entries: Dirent[];
+	try {
+		entries = await fs.readdir(directory, { withFileTypes: true });
+	} catch {
+		return files; // removed or unreadable while walking
+	}
+	for (const entry of entries) {
+		if (entry.name.startsWith(".") || SKIPPED_DIRECTORIES.has(entry.name)) {
+			continue;
+		}
+		const full =
+			directory === "." ? entry.name : path.join(directory, entry.name);
+		if (entry.isDirectory()) {
+			files.push(...(await walkFiles(full)));
+		} else if (entry.isFile()) {
+			files.push(full);
+		}
+	}
+	return files;
+}
@@ -0,0 +1,515 @@
+import type { TextEdit } from "./ast";
+import { Lexer, LineIndex, type Token } from "./lexer";
+
+/**
+ * Indentation settings, compatible with vscode.FormattingOptions.
+ */
+export interface FormatOptions {
+	tabSize: number;
+	insertSpaces: boolean;
+}
+
+/**
+ * A token or a comment. Comments are skipped by the lexer and recovered
+ * from the gaps between tokens.
+ */
+interface Item {
+	kind: Token["kind"] | "comment";
+	value: string;
+	start: number;
+	end: number;
+	generic?: boolean; // "<" or ">" delimiting type arguments
+}
+
+interface Line {
+	items: Item[];
+	blankLinesBefore: number;
+}
+
+/**
+ * The formatted text of one line, replacing the original text from the
+ * end of the previous line up to the end of this one.
+ */
+interface Segment {
+	start: number;
+	end: number;
+	contentStart: number; // offset of the first item of the line
+	newText: string;
+}
+
+// Keywords that start a declaration or statement whose "{" belongs on the
+// same line
+const HEADER_KEYWORDS = new Set([
+	"class",
+	"actor",
+	"io",
+	"fun",
+	"if",
+	"else",
+	"while",
+	"for",
+]);
+
+// Keywords that are values, spaced like identifiers
+const VALUE_KEYWORDS = new Set(["true", "false", "null"]);
+
+const OPENERS = new Set(["(", "[", "{"]);
+const CLOSERS = new Set([")", "]", "}"]);
+
+/**
+ * Edits that format the whole document, or null when it cannot be
+ * tokenized without errors and is left alone.
+ */
+export function formatDocument(
+	text: string,
+	options: FormatOptions,
+): TextEdit[] | null {
+	const segments = formatSegments(text, options);
+	return segments ? toEdits(text, segments) : null;
+}
+
+/**
+ * Edits that format the lines overlapping the offsets `start` to `end`.
+ */
+export function formatRange(
+	text: string,
+	start: number,
+	end: number,
+	options: FormatOptions,
+): TextEdit[] | null {
+	const segments = formatSegments(text, options);
+	if (!segments) {
+		return null;
+	}
+	return toEdits(
+		text,
+		segments.filter(
+			(segment) =>
+				segment.end >= start &&
+				// A range ending at the start of a line does not cover it
+				(segment.contentStart < end || segment.contentStart <= start),
+		),
+	);
+}
+
+/**
+ * Edits after typing `ch` at `offset`: "}" formats the block it closes,
+ * a newline formats the line it ended.
+ */
+export function formatOnType(
+	text: string,
+	offset: number,
+	ch: string,
+	options: FormatOptions,
+): TextEdit[] | null {
+	if (ch === "}") {
+		const open = findMatchingBrace(text, offset - 1);
+		return open === -1
+			? null
+			: formatRange(text, open, Math.max(offset - 1, open), options);
+	}
+	if (ch === "\n") {
+		const lineStart = text.lastIndexOf("\n", offset - 1);
+		if (lineStart === -1) {
+			return null;
+		}
+		const previousLineStart = text.lastIndexOf("\n", lineStart - 1) + 1;
+		return formatRange(text, previousLineStart, lineStart, options);
+	}
+	return null;
+}
+
+/**
+ * Format the text line by line. The formatter keeps the line structure of
+ * the source, except that a "{" or "else" on its own line joins the header
+ * before it, and only normalizes what lies between tokens:
+ *
+ *   indentation by bracket depth
+ *   spacing around ":", ",", operators and generics
+ *   at most one blank line in a row, none at the edges of a block, and one
+ *   before each fun
+ *
+ * Strings and comments are copied unchanged.
+ */
+function formatSegments(
+	text: string,
+	options: FormatOptions,
+): Segment[] | null {
+	const items = tokenize(text);
+	if (!items) {
+		return null;
+	}
+	const lines = splitLines(text, items);
+	normalizeBlankLines(lines);
+
+	const indentUnit = options.insertSpaces ? " ".repeat(options.tabSize) : "\t";
+	const eol = text.includes("\r\n") ? "\r\n" : "\n";
+	const segments: Segment[] = [];
+	const openers: number[] = []; // line index of each unclosed bracket
+	let previousEnd = 0;
+
+	lines.forEach((line, index) => {
+		let leadingClosers = 0;
+		while (
+			leadingClosers < line.items.length &&
+			CLOSERS.has(line.items[leadingClosers].value) &&
+			line.items[leadingClosers].kind === "punctuation"
+		) {
+			openers.pop();
+			leadingClosers++;
+		}
+		const depth = new Set(openers).size;
+
+		for (const item of line.items.slice(leadingClosers)) {
+			if (item.kind !== "punctuation") {
+				continue;
+			}
+			if (OPENERS.has(item.value)) {
+				openers.push(index);
+			} else if (CLOSERS.has(item.value)) {
+				openers.pop();
+			}
+		}
+
+		const last = line.items[line.items.length - 1];
+		const lineBreaks = index === 0 ? "" : eol.repeat(1 + line.blankLinesBefore);
+		segments.push({
+			start: previousEnd,
+			end: last.end,
+			contentStart: line.items[0].start,
+			newText: lineBreaks + indentUnit.repeat(depth) + formatLine(line.items),
+		});
+		previousEnd = last.end;
+	});
+
+	segments.push({
+		start: previousEnd,
+		end: text.length,
+		contentStart: text.length,
+		newText: lines.length > 0 ? eol : "",
+	});
+	return segments;
+}
+
+/**
+ * Tokens and comments of the text, or null when the lexer reports errors.
+ */
+function tokenize(text: string): Item[] | null {
+	const lexer = new Lexer(text);
+	const tokens = lexer.tokenize();
+	if (lexer.errors.length > 0) {
+		return null;
+	}
+
+	const items: Item[] = [];
+	let previousEnd = 0;
+	for (const token of tokens) {
+		items.push(...findComments(text, previousEnd, token.start));
+		if (token.kind !== "eof") {
+			items.push({
+				kind: token.kind,
+				value: token.value,
+				start: token.start,
+				end: token.end,
+			});
+		}
+		previousEnd = token.end;
+	}
+	markGenerics(items);
+	return items;
+}
+
+/**
+ * Comments in a gap between tokens, which holds only whitespace and
+ * comments.
+ */
+function findComments(text: string, start: number, end: number): Item[] {
+	const comments: Item[] = [];
+	let pos = start;
+	while (pos < end) {
+		if (text.startsWith("//", pos)) {
+			let close = text.indexOf("\n", pos);
+			if (close === -1 || close > end) {
+				close = end;
+			}
+			// Keep a trailing "\r" out of the comment
+			const stop = text[close - 1] === "\r" ? close - 1 : close;
+			comments.push({
+				kind: "comment",
+				value: text.slice(pos, stop),
+				start: pos,
+				end: stop,
+			});
+			pos = close;
+		} else if (text.startsWith("/*", pos)) {
+			const close = text.indexOf("*/", pos + 2) + 2;
+			comments.push({
+				kind: "comment",
+				value: text.slice(pos, close),
+				start: pos,
+				end: close,
+			});
+			pos = close;
+		} else {
+			pos++;
+		}
+	}
+	return comments;
+}
+
+/**
+ * Mark "<" and ">" pairs that enclose type arguments, as in List<Int> or
+ * MutableMap<String, List<Int>?>. The "<" must follow a capitalized name
+ * and the brackets may only contain names, ",", "?" and nested brackets.
+ */
+function markGenerics(items: Item[]): void {
+	for (let i = 1; i < items.length; i++) {
+		const before = items[i - 1];
+		if (
+			items[i].value !== "<" ||
+			before.kind !== "identifier" ||
+			!/^[A-Z]/.test(before.value) ||
+			items[i - 1].end !== items[i].start
+		) {
+			continue;
+		}
+
+		let depth = 0;
+		for (let j = i; j < items.length; j++) {
+			const item = items[j];
+			if (item.value === "<") {
+				depth++;
+			} else if (item.value === ">") {
+				depth--;
+				if (depth === 0) {
+					for (let k = i; k <= j; k++) {
+						if (items[k].value === "<" || items[k].value === ">") {
+							items[k].generic = true;
+						}
+					}
+					break;
+				}
+			} else if (
+				item.kind !== "identifier" &&
+				item.value !== "," &&
+				item.value !== "?"
+			) {
+				break;
+			}
+		}
+	}
+}
+
+/**
+ * Group items into lines as they appear in the source, joining a line
+ * that starts with "{" or "else" to the header or "}" before it.
+ */
+function splitLines(text: string, items: Item[]): Line[] {
+	const lines: Line[] = [];
+	let previousEnd = 0;
+
+	for (const item of items) {
+		const gap = text.slice(previousEnd, item.start);
+		const newlines = gap.split("\n").length - 1;
+		const current = lines[lines.length - 1];
+		previousEnd = item.end;
+
+		if (current && (newlines === 0 || joinsPreviousLine(current, item))) {
+			current.items.push(item);
+			continue;
+		}
+		lines.push({
+			items: [item],
+			blankLinesBefore: Math.max(newlines - 1, 0),
+		});
+	}
+	return lines;
+}
+
+function joinsPreviousLine(previous: Line, item: Item): boolean {
+	const first = previous.items[0];
+	const last = previous.items[previous.items.length - 1];
+	if (last.kind === "comment") {
+		return false;
+	}
+	if (item.kind === "punctuation" && item.value === "{") {
+		return (
+			(first.kind === "keyword" && HEADER_KEYWORDS.has(first.value)) ||
+			(first.value === "}" && previous.items.some((i) => i.value === "else"))
+		);
+	}
+	return item.kind === "keyword" && item.value === "else" && last.value === "}";
+}
+
+function normalizeBlankLines(lines: Line[]): void {
+	lines.forEach((line, index) => {
+		const previous = lines[index - 1];
+		if (!previous || line.items[0].value === "}" || endsWith(previous, "{")) {
+			line.blankLinesBefore = 0;
+		} else {
+			line.blankLinesBefore = Math.min(line.blankLinesBefore, 1);
+		}
+	});
+
+	// One blank line before each fun, above the comments attached to it
+	lines.forEach((line, index) => {
+		const first = line.items[0];
+		if (
+			first.kind !== "keyword" ||
+			(first.value !== "fun" && first.value !== "io")
+		) {
+			return;
+		}
+		let top = index;
+		while (
+			top > 0 &&
+			lines[top].blankLinesBefore === 0 &&
+			lines[top - 1].items.every((item) => item.kind === "comment")
+		) {
+			top--;
+		}
+		if (top > 0 && !endsWith(lines[top - 1], "{")) {
+			lines[top].blankLinesBefore = 1;
+		}
+	});
+}
+
+function endsWith(line: Line, value: string): boolean {
+	const last = line.items[line.items.length - 1];
+	return last.kind === "punctuation" && last.value === value;
+}
+
+function formatLine(items: Item[]): string {
+	let result = items[0].value;
+	for (let i = 1; i < items.length; i++) {
+		result +=
+			spaceBetween(items[i - 1], items[i], items[i - 2]) + items[i].value;
+	}
+	return result;
+}
+
+/**
+ * The whitespace between two adjacent items on a line. `beforePrev`
+ * decides whether an operator in `prev` is unary.
+ */
+function spaceBetween(
+	prev: Item,
+	next: Item,
+	beforePrev: Item | undefined,
+): string {
+	if (prev.kind === "comment" || next.kind === "comment") {
+		return " ";
+	}
+	const p = prev.value;
+	const n = next.value;
+
+	if (n === "}") {
+		return p === "{" ? "" : " ";
+	}
+	if (p === "{") {
+		return " ";
+	}
+	if (prev.generic) {
+		// Inside or right after type arguments: List<Int>.new(), List<Int> =
+		return p === "<" || [".", "(", ">", "?", ",", ")"].includes(n) ? "" : " ";
+	}
+	if (next.generic) {
+		return "";
+	}
+	if ([",", ";", ")", "]", ":"].includes(n) && next.kind === "punctuation") {
+		return "";
+	}
+	if ((p === "(" || p === "[") && prev.kind === "punctuation") {
+		return "";
+	}
+	if ([",", ";", ":"].includes(p) && prev.kind === "punctuation") {
+		return " ";
+	}
+	if ([".", ".."].includes(p) || [".", ".."].includes(n)) {
+		return "";
+	}
+	if (n === "?" && next.kind === "operator") {
+		return "";
+	}
+	if (prev.kind === "operator" && isUnary(prev, beforePrev)) {
+		return "";
+	}
+	if (n === "(" || n === "[") {
+		if (prev.kind === "keyword" && !VALUE_KEYWORDS.has(p)) {
+			return " ";
+		}
+		return prev.kind === "operator" && p !== "?" ? " " : "";
+	}
+	return " ";
+}
+
+/**
+ * Whether an operator applies to the operand after it: "!" always, "-"
+ * and "+" when they cannot be binary.
+ */
+function isUnary(operator: Item, before: Item | undefined): boolean {
+	if (operator.value === "!") {
+		return true;
+	}
+	if (operator.value !== "-" && operator.value !== "+") {
+		return false;
+	}
+	if (!before) {
+		return true;
+	}
+	switch (before.kind) {
+		case "operator":
+			return !before.generic && before.value !== "?";
+		case "punctuation":
+			return !CLOSERS.has(before.value);
+		case "keyword":
+			return !VALUE_KEYWORDS.has(before.value);
+		default:
+			return false;
+	}
+}
+
+/**
+ * Offset of the "{" matching the "}" at `close`, or -1.
+ */
+function findMatchingBrace(text: string, close: number): number {
+	const items = tokenize(text);
+	if (!items) {
+		return -1;
+	}
+	const index = items.findIndex((item) => item.start === close);
+	if (index === -1 || items[index].value !== "}") {
+		return -1;
+	}
+
+	let depth = 0;
+	for (let i = index; i >= 0; i--) {
+		if (items[i].kind !== "punctuation") {
+			continue;
+		}
+		if (items[i].value === "}") {
+			depth++;
+		} else if (items[i].value === "{") {
+			depth--;
+			if (depth === 0) {
+				return items[i].start;
+			}
+		}
+	}
+	return -1;
+}
+
+function toEdits(text: string, segments: Segment[]): TextEdit[] {
+	const lineIndex = new LineIndex(text);
+	return segments
+		.filter(
+			(segment) => text.slice(segment.start, segment.end) !== segment.newText,
+		)
+		.map((segment) => ({
+			range: {
+				start: lineIndex.positionAt(segment.start),
+				end: lineIndex.positionAt(segment.end),
+			},
+			newText: segment.newText,
+		}));
+}
@@ -0,0 +1,554 @@
+import {
+	type AnalysisDiagnostic,
+	type ASTNode,
+	type SourcePosition,
+	type SourceRange,
+	type TextEdit,
+	walk,
+} from "./ast";
+import { type TypeInfo, typeToString } from "./inference";
+import { type LexedText, Lexer, type Token } from "./lexer";
+import { isDeclaration } from "./scope";
+
+/**
+ * A top-level class, actor or function of a previous parse that no edit
+ * touched, and how far the edits before it moved it.
+ */
+export interface ReusableDeclaration {
+	node: ASTNode;
+	diagnostics: AnalysisDiagnostic[]; // syntax errors inside the declaration
+	lineDelta: number;
+	offsetDelta: number;
+}
+
+/**
+ * Find the top-level classes, actors and functions of a previous parse
+ * that lie on lines no edit touched. The edits are applied one after another, each
+ * range referring to the text produced by the edits before it, as editors
+ * report changes. Returns the declarations by the offset at which they
+ * start in the edited text.
+ */
+export function findReusableDeclarations(
+	ast: ASTNode,
+	syntaxDiagnostics: AnalysisDiagnostic[],
+	edits: TextEdit[],
+): Map<number, ReusableDeclaration> {
+	let candidates: ReusableDeclaration[] = ast.children
+		.filter(
+			(node) =>
+				node.kind === "class" ||
+				node.kind === "actor" ||
+				node.kind === "function",
+		)
+		.map((node) => ({
+			node,
+			diagnostics: syntaxDiagnostics.filter((d) =>
+				reportedIn(node.range, d.range),
+			),
+			lineDelta: 0,
+			offsetDelta: 0,
+		}));
+
+	for (const edit of edits) {
+		const { start, end } = edit.range;
+		const lineDelta = countLines(edit.newText) - (end.line - start.line);
+		const offsetDelta = edit.newText.length - (end.offset - start.offset);
+
+		candidates = candidates.filter((candidate) => {
+			const { range } = candidate.node;
+			if (end.line < range.start.line + candidate.lineDelta) {
+				// Before the declaration: it only moves
+				candidate.lineDelta += lineDelta;
+				candidate.offsetDelta += offsetDelta;
+				return true;
+			}
+			// After the declaration, or on one of its lines
+			return start.line > range.end.line + candidate.lineDelta;
+		});
+	}
+
+	return new Map(
+		candidates.map((candidate) => [
+			candidate.node.range.start.offset + candidate.offsetDelta,
+			candidate,
+		]),
+	);
+}
+
+/**
+ * Copy a subtree of a previous parse to its place in the edited text. The
+ * previous parse is left as it is, since results built on it may still be
+ * in use. Every copied node is recorded in `copies`.
+ */
+export function copyNode(
+	node: ASTNode,
+	lineDelta: number,
+	offsetDelta: number,
+	copies: Map<ASTNode, ASTNode>,
+): ASTNode {
+	const range = shiftRange(node.range, lineDelta, offsetDelta);
+	const copy: ASTNode = {
+		kind: node.kind,
+		// Blocks are named after the line they start on
+		name: node.kind === "block" ? `block_${range.start.line}` : node.name,
+		line: node.line + lineDelta,
+		startLine: node.startLine + lineDelta,
+		endLine: node.endLine + lineDelta,
+		children: [],
+		parent: null,
+		range,
+	};
+	if (node.nameRange) {
+		copy.nameRange = shiftRange(node.nameRange, lineDelta, offsetDelta);
+	}
+	if (node.isIo !== undefined) {
+		copy.isIo = node.isIo;
+	}
+	if (node.mutable !== undefined) {
+		copy.mutable = node.mutable;
+	}
+	if (node.operator !== undefined) {
+		copy.operator = node.operator;
+	}
+	if (node.value !== undefined) {
+		copy.value = node.value;
+	}
+	if (node.nullable !== undefined) {
+		copy.nullable = node.nullable;
+	}
+	copies.set(node, copy);
+
+	for (const child of node.children) {
+		const childCopy = copyNode(child, lineDelta, offsetDelta, copies);
+		childCopy.parent = copy;
+		copy.children.push(childCopy);
+	}
+
+	// Fields referring to nodes point to the copies of those nodes, all of
+	// which are children
+	const copyOf = (field: ASTNode) => copies.get(field) ?? field;
+	if (node.typeAnnotation) {
+		copy.typeAnnotation = copyOf(node.typeAnnotation);
+	}
+	if (node.returnType) {
+		copy.returnType = copyOf(node.returnType);
+	}
+	if (node.initializer) {
+		copy.initializer = copyOf(node.initializer);
+	}
+	if (node.body) {
+		copy.body = copyOf(node.body);
+	}
+	if (node.condition) {
+		copy.condition = copyOf(node.condition);
+	}
+	if (node.thenBranch) {
+		copy.thenBranch = copyOf(node.thenBranch);
+	}
+	if (node.elseBranch) {
+		copy.elseBranch = copyOf(node.elseBranch);
+	}
+	if (node.iterator) {
+		copy.iterator = copyOf(node.iterator);
+	}
+	if (node.expression) {
+		copy.expression = copyOf(node.expression);
+	}
+	if (node.left) {
+		copy.left = copyOf(node.left);
+	}
+	if (node.right) {
+		copy.right = copyOf(node.right);
+	}
+	if (node.callee) {
+		copy.callee = copyOf(node.callee);
+	}
+	if (node.object) {
+		copy.object = copyOf(node.object);
+	}
+	if (node.params) {
+		copy.params = node.params.map(copyOf);
+	}
+	if (node.args) {
+		copy.args = node.args.map(copyOf);
+	}
+	if (node.typeArgs) {
+		copy.typeArgs = node.typeArgs.map(copyOf);
+	}
+	return copy;
+}
+
+/**
+ * Copy of a range moved by the given number of lines and characters.
+ * Ranges are never updated in place, so one that does not move is shared.
+ */
+export function shiftRange(
+	range: SourceRange,
+	lineDelta: number,
+	offsetDelta: number,
+): SourceRange {
+	if (lineDelta === 0 && offsetDelta === 0) {
+		return range;
+	}
+	return {
+		start: shiftPosition(range.start, lineDelta, offsetDelta),
+		end: shiftPosition(range.end, lineDelta, offsetDelta),
+	};
+}
+
+function shiftPosition(
+	position: SourcePosition,
+	lineDelta: number,
+	offsetDelta: number,
+): SourcePosition {
+	return {
+		line: position.line + lineDelta,
+		character: position.character,
+		offset: position.offset + offsetDelta,
+	};
+}
+
+/**
+ * Copy of a diagnostic, and of the edits of its fixes, moved by the given
+ * number of lines and characters.
+ */
+export function shiftDiagnostic(
+	diagnostic: AnalysisDiagnostic,
+	lineDelta: number,
+	offsetDelta: number,
+): AnalysisDiagnostic {
+	if (lineDelta === 0 && offsetDelta === 0) {
+		return diagnostic;
+	}
+	return {
+		...diagnostic,
+		range: shiftRange(diagnostic.range, lineDelta, offsetDelta),
+		fixes: diagnostic.fixes?.map((fix) => ({
+			...fix,
+			edits: fix.edits.map((edit) => ({
+				...edit,
+				range: shiftRange(edit.range, lineDelta, offsetDelta),
+			})),
+		})),
+	};
+}
+
+/**
+ * Tokens of the text produced by applying `edits` to the text `previous`
+ * was read from. Only the edited region is read again: lexing restarts
+ * shortly before the first edit and stops as soon as it is back in step
+ * with the previous tokens after the edits, which are then taken over.
+ */
+export function relex(
+	previous: LexedText,
+	text: string,
+	edits: TextEdit[],
+): LexedText {
+	const region = changedRegion(edits);
+	if (!region) {
+		return previous;
+	}
+	const { tokens, errors } = previous;
+	const delta = region.newEnd - region.oldEnd;
+
+	// The lexer looks a character or two past the end of a token to find
+	// where it ends, so the token before the edited one is read again too
+	const kept = Math.max(0, firstTokenEndingAt(tokens, region.start) - 1);
+	const restart = kept > 0 ? tokens[kept - 1].end : 0;
+	const relexed: LexedText = {
+		tokens: tokens.slice(0, kept),
+		errors: errors.filter((error) => error.start < restart),
+	};
+
+	const lexer = new Lexer(text, restart);
+	let old = kept;
+	for (;;) {
+		const token = lexer.next();
+		if (token.start >= region.newEnd) {
+			while (old < tokens.length && tokens[old].start + delta < token.start) {
+				old++;
+			}
+			if (old < tokens.length && inStep(tokens[old], token, delta)) {
+				// The rest of the text is unchanged, and so are its tokens
+				const resumed = tokens[old].start;
+				for (let i = old; i < tokens.length; i++) {
+					relexed.tokens.push(shiftToken(tokens[i], delta));
+				}
+				relexed.errors.push(...lexer.errors);
+				for (const error of errors) {
+					if (error.start >= resumed) {
+						relexed.errors.push({
+							...error,
+							start: error.start + delta,
+							end: error.end + delta,
+						});
+					}
+				}
+				return relexed;
+			}
+		}
+		relexed.tokens.push(token);
+		if (token.kind === "eof") {
+			relexed.errors.push(...lexer.errors);
+			return relexed;
+		}
+	}
+}
+
+/**
+ * The region that a sequence of edits replaced: it starts at `start` in
+ * both texts, and ends at `oldEnd` in the text before the edits and at
+ * `newEnd` in the text after them. Null when there are no edits.
+ */
+function changedRegion(
+	edits: TextEdit[],
+): { start: number; oldEnd: number; newEnd: number } | null {
+	if (edits.length === 0) {
+		return null;
+	}
+	const first = edits[0].range.start.offset;
+	const region = { start: first, oldEnd: first, newEnd: first };
+	for (const edit of edits) {
+		const start = edit.range.start.offset;
+		const end = edit.range.end.offset;
+		// Text after the region so far is still the text before the edits
+		region.oldEnd += Math.max(0, end - region.newEnd);
+		region.newEnd =
+			Math.max(region.newEnd, end) + edit.newText.length - (end - start);
+		region.start = Math.min(region.start, start);
+	}
+	return region;
+}
+
+/**
+ * Index of the first token ending at or after an offset.
+ */
+function firstTokenEndingAt(tokens: Token[], offset: number): number {
+	let low = 0;
+	let high = tokens.length - 1;
+	while (low < high) {
+		const mid = (low + high) >> 1;
+		if (tokens[mid].end < offset) {
+			low = mid + 1;
+		} else {
+			high = mid;
+		}
+	}
+	return low;
+}
+
+/**
+ * Whether a token read from the edited text is the previous token moved
+ * by `delta` characters.
+ */
+function inStep(previous: Token, token: Token, delta: number): boolean {
+	return (
+		previous.start + delta === token.start &&
+		previous.end + delta === token.end &&
+		previous.kind === token.kind &&
+		previous.value === token.value &&
+		previous.newlineBefore === token.newlineBefore
+	);
+}
+
+function shiftToken(token: Token, delta: number): Token {
+	if (delta === 0) {
+		return token; // tokens are never modified, so they can be shared
+	}
+	const shifted: Token = {
+		kind: token.kind,
+		value: token.value,
+		start: token.start + delta,
+		end: token.end + delta,
+		newlineBefore: token.newlineBefore,
+	};
+	if (token.parts) {
+		shifted.parts = token.parts.map((part) => ({
+			...part,
+			start: part.start + delta,
+			end: part.end + delta,
+		}));
+	}
+	return shifted;
+}
+
+/**
+ * The top-level node of an AST containing an offset.
+ */
+export function topLevelNodeAt(ast: ASTNode, offset: number): ASTNode | null {
+	const nodes = ast.children;
+	let low = 0;
+	let high = nodes.length - 1;
+	while (low <= high) {
+		const mid = (low + high) >> 1;
+		const { start, end } = nodes[mid].range;
+		if (offset < start.offset) {
+			high = mid - 1;
+		} else if (offset >= end.offset) {
+			low = mid + 1;
+		} else {
+			return nodes[mid];
+		}
+	}
+	return null;
+}
+
+/**
+ * What the rest of a file can see of its top-level declarations: the
+ * kind, modifiers, parameter names and types of each top-level
+ * declaration by name, and of each member of a class or actor by its
+ * owner and name, e.g. "Counter.get". Code only depends on the
+ * declarations it names, so a change to one of these only affects code
+ * mentioning its name.
+ */
+export function describeTopLevel(
+	ast: ASTNode,
+	types: Map<ASTNode, TypeInfo>,
+): Map<string, string> {
+	const signatures = new Map<string, string>();
+	const describe = (node: ASTNode, owner?: ASTNode) => {
+		const key = owner ? `${owner.name}.${node.name}` : node.name;
+		const params = (node.params ?? [])
+			.map(
+				(param) =>
+					`${param.mutable ?? ""} ${param.name}: ${typeToString(types.get(param))}`,
+			)
+			.join(", ");
+		const signature = `${node.kind} ${node.isIo ?? ""} ${node.mutable ?? ""} (${params}) ${typeToString(types.get(node))}`;
+		const previous = signatures.get(key);
+		signatures.set(
+			key,
+			previous === undefined ? signature : `${previous}; ${signature}`,
+		);
+	};
+
+	for (const node of ast.children) {
+		if (!isDeclaration(node)) {
+			continue;
+		}
+		describe(node);
+		if (node.kind === "class" || node.kind === "actor") {
+			for (const member of node.children) {
+				if (isDeclaration(member)) {
+					describe(member, node);
+				}
+			}
+		}
+	}
+	return signatures;
+}
+
+/**
+ * Keys of the signatures (see `describeTopLevel`) that differ.
+ */
+export function changedNames(
+	before: Map<string, string>,
+	after: Map<string, string>,
+): Set<string> {
+	const names = new Set<string>();
+	for (const [name, signature] of before) {
+		if (after.get(name) !== signature) {
+			names.add(name);
+		}
+	}
+	for (const name of after.keys()) {
+		if (!before.has(name)) {
+			names.add(name);
+		}
+	}
+	return names;
+}
+
+/**
+ * Whether code refers to any of the declarations with the given signature
+ * keys (see `describeTopLevel`), as a variable, function, member or type.
+ * A member is mentioned by its name alone, whatever its owner.
+ */
+export function mentionsAny(node: ASTNode, keys: Set<string>): boolean {
+	const names = new Set(
+		[...keys].map((key) => key.slice(key.lastIndexOf(".") + 1)),
+	);
+	let found = false;
+	walk(node, (child) => {
+		if (
+			(child.kind === "identifier" ||
+				child.kind === "member" ||
+				child.kind === "typeRef") &&
+			names.has(child.name)
+		) {
+			found = true;
+		}
+	});
+	return found;
+}
+
+/**
+ * Copy of a type whose class and actor declarations are replaced by
+ * `replace`, or null when one of them has no replacement.
+ */
+export function replaceDeclarations(
+	type: TypeInfo,
+	replace: (declaration: ASTNode) => ASTNode | null,
+): TypeInfo | null {
+	let changed = false;
+	const replaceAll = (nested: TypeInfo[] | undefined) => {
+		if (!nested) {
+			return nested;
+		}
+		const replaced: TypeInfo[] = [];
+		for (const item of nested) {
+			const result = replaceDeclarations(item, replace);
+			if (!result) {
+				return null;
+			}
+			changed ||= result !== item;
+			replaced.push(result);
+		}
+		return replaced;
+	};
+
+	const declaration = type.declaration && replace(type.declaration);
+	const generics = replaceAll(type.generics);
+	const params = replaceAll(type.params);
+	const returnType = type.returnType
+		? replaceDeclarations(type.returnType, replace)
+		: type.returnType;
+	if (
+		declaration === null ||
+		generics === null ||
+		params === null ||
+		returnType === null
+	) {
+		return null;
+	}
+	if (
+		!changed &&
+		declaration === type.declaration &&
+		returnType === type.returnType
+	) {
+		return type; // nothing to replace
+	}
+	return { ...type, declaration, generics, params, returnType };
+}
+
+/**
+ * Whether a diagnostic belongs to a declaration. Errors at its very end
+ * (e.g. about the token after it) belong to the code that follows.
+ */
+function reportedIn(declaration: SourceRange, error: SourceRange): boolean {
+	return (
+		declaration.start.offset <= error.start.offset &&
+		error.start.offset < declaration.end.offset &&
+		error.end.offset <= declaration.end.offset
+	);
+}
+
+function countLines(text: string): number {
+	let count = 0;
+	for (const ch of text) {
+		if (ch === "\n") {
+			count++;
+		}
+	}
+	return count;
+}
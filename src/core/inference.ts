@@ -0,0 +1,1069 @@
+import { type ASTNode, walk } from "./ast";
+import { getBuiltinFunction, getBuiltinMethods } from "./builtins";
+import {
+	findHandler,
+	getActorMessage,
+	getEnclosingActorMessage,
+} from "./messaging";
+import { isNonNullAt } from "./narrowing";
+import { findMember, ScopeResolver } from "./scope";
+
+export type TypeKind =
+	| "Int"
+	| "Float"
+	| "Double"
+	| "Char"
+	| "String"
+	| "Bool"
+	| "List"
+	| "MutableMap"
+	| "MutableSet"
+	| "Function"
+	| "Unit"
+	| "Nothing"
+	| "Custom"
+	| "Unknown";
+
+export interface TypeInfo {
+	kind: TypeKind;
+	generics?: TypeInfo[]; // e.g. List<T> -> generics = [T]
+	readonlyName?: string; // optional friendly name
+	hasTypeAnnotation?: boolean; // whether this type was explicitly annotated
+	params?: TypeInfo[]; // Function: parameter types
+	returnType?: TypeInfo; // Function: return type
+	declaration?: ASTNode; // Custom: the class or actor node
+	nullable?: boolean; // T? - may hold null
+}
+
+function make(
+	kind: TypeKind,
+	generics?: TypeInfo[],
+	readonlyName?: string,
+	hasTypeAnnotation?: boolean,
+): TypeInfo {
+	return { kind, generics, readonlyName, hasTypeAnnotation };
+}
+
+/**
+ * Type of the `null` literal.
+ */
+const NULL_TYPE: TypeInfo = { kind: "Nothing", nullable: true };
+
+/**
+ * The nullable (T?) or non-null (T) variant of a type.
+ */
+export function withNullability(type: TypeInfo, nullable: boolean): TypeInfo {
+	return !!type.nullable === nullable ? type : { ...type, nullable };
+}
+
+/**
+ * Type of the instances of a class or actor.
+ */
+function customType(declaration: ASTNode): TypeInfo {
+	return {
+		kind: "Custom",
+		readonlyName: declaration.name,
+		declaration,
+	};
+}
+
+export function typeToString(t?: TypeInfo): string {
+	if (!t) {
+		return "Unknown";
+	}
+	const suffix = t.nullable ? "?" : "";
+	if (t.kind === "Function" && t.params && t.returnType) {
+		const params = t.params.map((p) => typeToString(p)).join(", ");
+		const fn = `(${params}) -> ${typeToString(t.returnType)}`;
+		return t.nullable ? `(${fn})?` : fn;
+	}
+	if (!t.generics || t.generics.length === 0) {
+		return `${t.readonlyName ?? t.kind}${suffix}`;
+	}
+	const gen = t.generics.map((g) => typeToString(g)).join(", ");
+	return `${t.readonlyName ?? t.kind}<${gen}>${suffix}`;
+}
+
+/**
+ * Whether a type can be written as an annotation: it is known and is not
+ * a function type or the type of `null`.
+ */
+export function isDenotable(type: TypeInfo): boolean {
+	if (
+		type.kind === "Unknown" ||
+		type.kind === "Nothing" ||
+		type.kind === "Function"
+	) {
+		return false;
+	}
+	return (type.generics ?? []).every(isDenotable);
+}
+
+/**
+ * Convert a type name string to TypeKind.
+ */
+export function typeNameToKind(name: string): TypeKind {
+	switch (name) {
+		case "Int":
+			return "Int";
+		case "Float":
+			return "Float";
+		case "Double":
+			return "Double";
+		case "Char":
+			return "Char";
+		case "String":
+			return "String";
+		case "Bool":
+			return "Bool";
+		case "List":
+			return "List";
+		case "MutableMap":
+			return "MutableMap";
+		case "MutableSet":
+			return "MutableSet";
+		case "Function":
+			return "Function";
+		case "Unit":
+			return "Unit";
+		default:
+			return "Unknown";
+	}
+}
+
+/**
+ * Parse a type string recursively, handling nested generic types.
+ * Names found in `typeParams` are substituted, which is how generic
+ * signatures of built-in methods are specialized.
+ * e.g. "List<Int>" -> { kind: "List", generics: [{ kind: "Int" }] }
+ * e.g. "Int?" -> { kind: "Int", nullable: true }
+ * e.g. "MutableMap<String, List<Int>>" -> { kind: "MutableMap", generics: [String, List<Int>] }
+ */
+export function parseTypeString(
+	typeStr: string,
+	typeParams?: Map<string, TypeInfo>,
+): TypeInfo {
+	const trimmed = typeStr.trim();
+
+	// Nullable type: T?
+	if (trimmed.endsWith("?")) {
+		return withNullability(
+			parseTypeString(trimmed.slice(0, -1), typeParams),
+			true,
+		);
+	}
+
+	const substituted = typeParams?.get(trimmed);
+	if (substituted) {
+		return substituted;
+	}
+
+	// Check for generic type: TypeName<...>
+	const genericMatch = trimmed.match(/^([a-zA-Z_][a-zA-Z0-9_]*)\s*<(.+)>$/);
+	if (genericMatch) {
+		const generics = parseCommaSeparated(genericMatch[2]).map((p) =>
+			parseTypeString(p, typeParams),
+		);
+		return make(typeNameToKind(genericMatch[1]), generics);
+	}
+
+	// Simple type without generics
+	return make(typeNameToKind(trimmed));
+}
+
+/**
+ * Split at top-level commas while respecting nested angle brackets.
+ * e.g. "String, List<Int>" -> ["String", "List<Int>"]
+ */
+function parseCommaSeparated(argsString: string): string[] {
+	const args: string[] = [];
+	let current = "";
+	let depth = 0;
+
+	for (const ch of argsString) {
+		if (ch === "<") {
+			depth++;
+		} else if (ch === ">") {
+			depth--;
+		} else if (ch === "," && depth === 0) {
+			args.push(current.trim());
+			current = "";
+			continue;
+		}
+		current += ch;
+	}
+
+	if (current.trim()) {
+		args.push(current.trim());
+	}
+
+	return args;
+}
+
+/**
+ * A location whose type is inferred: a declaration (variable, parameter or
+ * loop variable), or the return type of a function.
+ */
+interface Slot {
+	node: ASTNode;
+	returns?: boolean;
+}
+
+/**
+ * Type constraints collected from the AST, solved together to a fixpoint:
+ *
+ * - flow:     the value of `source` is stored in `target`
+ *             (initializers, call arguments, return values)
+ * - call:     arguments of a call flow into the parameters of whatever the
+ *             callee resolves to, once the receiver type is known
+ * - iterator: a loop variable holds the elements of `iterable`
+ * - function: a function type is assembled from its parameters and return
+ */
+type Constraint =
+	| { kind: "flow"; target: Slot; source: ASTNode }
+	| { kind: "call"; call: ASTNode }
+	| { kind: "iterator"; variable: ASTNode; iterable: ASTNode }
+	| { kind: "function"; fn: ASTNode };
+
+// Upper bound on solver passes. Types only ever gain information, so this
+// is reached only by pathological programs.
+const MAX_ITERATIONS = 50;
+
+/**
+ * Infers the types of declarations from the AST.
+ *
+ * Results are keyed by declaration node (variable, parameter, loop
+ * variable or function), so same-named declarations in different scopes
+ * each get their own type. References are resolved to declarations
+ * through ScopeResolver.
+ *
+ * Every declaration starts out with its annotated type, or Unknown. The
+ * constraints of the whole AST are then applied repeatedly, unifying the
+ * types they imply with the current ones, until nothing changes. Types
+ * therefore flow in both directions and regardless of source order: from
+ * initializers and `add`/`put` calls into collections, from `get` calls and
+ * annotated parameters back into the values they are used as, and between
+ * call arguments, parameters and return values.
+ */
+export class InferenceEngine {
+	private types: Map<ASTNode, TypeInfo> = new Map();
+	private resolver = new ScopeResolver();
+	private resolved = new WeakMap<ASTNode, ASTNode | null>(); // identifier -> declaration
+
+	public infer(ast: ASTNode): Map<ASTNode, TypeInfo> {
+		this.types = new Map();
+		this.resolved = new WeakMap();
+		const constraints = this.collectConstraints(ast);
+		this.solve(constraints);
+		return this.types;
+	}
+
+	/**
+	 * Infer the types of the declarations in some top-level nodes of an AST,
+	 * taking the types of the declarations elsewhere as known. Only the
+	 * constraints of those nodes are solved, so the known types are only
+	 * changed where they flow into parameters without annotations.
+	 */
+	public inferNodes(
+		nodes: ASTNode[],
+		known: Map<ASTNode, TypeInfo>,
+	): Map<ASTNode, TypeInfo> {
+		this.types = new Map(known);
+		this.resolved = new WeakMap();
+		const constraints = nodes.flatMap((node) => this.collectConstraints(node));
+		this.solve(constraints);
+		return this.types;
+	}
+
+	/**
+	 * Assign every declaration its initial type and collect the constraints
+	 * between them, in source order.
+	 */
+	private collectConstraints(root: ASTNode): Constraint[] {
+		const constraints: Constraint[] = [];
+
+		walk(root, (node) => {
+			switch (node.kind) {
+				case "variable":
+					this.types.set(node, this.declaredType(node.typeAnnotation));
+					// Type annotation is required for variables without
+					// initialization. Do NOT infer type from later assignments -
+					// the type must be explicitly annotated at declaration time.
+					// A variable declared without both (e.g. "var x") is not
+					// allowed, so its type stays Unknown to indicate an error.
+					if (node.initializer) {
+						constraints.push({
+							kind: "flow",
+							target: { node },
+							source: node.initializer,
+						});
+					}
+					break;
+				case "parameter":
+					this.types.set(node, this.declaredType(node.typeAnnotation));
+					break;
+				case "function": {
+					const returns = collectReturns(node)
+						.map((ret) => ret.expression)
+						.filter((value) => value !== undefined);
+					this.types.set(node, {
+						kind: "Function",
+						params: [],
+						returnType: node.returnType
+							? this.typeFromAnnotation(node.returnType)
+							: make(returns.length === 0 ? "Unit" : "Unknown"),
+					});
+					for (const value of returns) {
+						constraints.push({
+							kind: "flow",
+							target: { node, returns: true },
+							source: value,
+						});
+					}
+					constraints.push({ kind: "function", fn: node });
+					break;
+				}
+				case "call":
+					constraints.push({ kind: "call", call: node });
+					break;
+				case "for":
+					if (node.iterator && node.expression) {
+						constraints.push({
+							kind: "iterator",
+							variable: node.iterator,
+							iterable: node.expression,
+						});
+					}
+					break;
+			}
+		});
+
+		return constraints;
+	}
+
+	/**
+	 * Apply all constraints until the types stop changing.
+	 */
+	private solve(constraints: Constraint[]) {
+		for (let i = 0; i < MAX_ITERATIONS; i++) {
+			let changed = false;
+			for (const constraint of constraints) {
+				if (this.apply(constraint)) {
+					changed = true;
+				}
+			}
+			if (!changed) {
+				return;
+			}
+		}
+	}
+
+	/**
+	 * Apply a single constraint. Returns true when a type changed.
+	 */
+	private apply(constraint: Constraint): boolean {
+		switch (constraint.kind) {
+			case "flow":
+				return this.flow(constraint.target, constraint.source);
+			case "call":
+				return this.applyCall(constraint.call);
+			case "iterator": {
+				const iterable = this.inferExpressionType(constraint.iterable);
+				return this.refine(
+					{ node: constraint.variable },
+					this.elementType(iterable),
+				);
+			}
+			case "function": {
+				const fn = constraint.fn;
+				const current = this.types.get(fn);
+				const params = (fn.params ?? []).map(
+					(param) => this.types.get(param) ?? make("Unknown"),
+				);
+				const updated: TypeInfo = {
+					kind: "Function",
+					params,
+					returnType: current?.returnType ?? make("Unknown"),
+				};
+				if (current && sameType(current, updated)) {
+					return false;
+				}
+				this.types.set(fn, updated);
+				return true;
+			}
+		}
+	}
+
+	/**
+	 * `source` is stored in `target`: the target learns the type of the
+	 * value, and the value learns the type expected by the target.
+	 */
+	private flow(target: Slot, source: ASTNode): boolean {
+		const forward = this.refine(target, this.inferExpressionType(source));
+		const backward = this.expect(source, this.slotType(target));
+		return forward || backward;
+	}
+
+	/**
+	 * Arguments flow into the parameters of the called function, method or
+	 * constructor, and into the elements of collections they are added to.
+	 */
+	private applyCall(call: ASTNode): boolean {
+		const args = call.args ?? [];
+		let changed = false;
+
+		const target = this.resolveCallee(call.callee);
+		if (target) {
+			const params = target.params ?? [];
+			args.forEach((arg, i) => {
+				if (params[i] && this.flow({ node: params[i] }, arg)) {
+					changed = true;
+				}
+			});
+			return changed;
+		}
+
+		// Collection usages:
+		// list.add(10)        -> list is List<Int>
+		// map.put("key", 20)  -> map is MutableMap<String, Int>
+		// set.add("value")    -> set is MutableSet<String>
+		const callee = call.callee;
+		if (callee?.kind !== "member" || !callee.object) {
+			return false;
+		}
+		const receiver = callee.object;
+		const collection = this.inferExpressionType(receiver);
+		const argTypes = args.map((arg) => this.inferExpressionType(arg));
+
+		switch (collection.kind) {
+			case "List":
+			case "MutableSet": {
+				const element =
+					callee.name === "add" && args.length === 1
+						? args[0]
+						: callee.name === "set" &&
+								collection.kind === "List" &&
+								args.length === 2
+							? args[1]
+							: null;
+				if (!element) {
+					return false;
+				}
+				const elementType = argTypes[args.indexOf(element)];
+				changed = this.expect(receiver, make(collection.kind, [elementType]));
+				return (
+					this.expect(element, collection.generics?.[0] ?? make("Unknown")) ||
+					changed
+				);
+			}
+			case "MutableMap": {
+				if (callee.name !== "put" || args.length !== 2) {
+					return false;
+				}
+				changed = this.expect(receiver, make("MutableMap", argTypes));
+				const keyChanged = this.expect(
+					args[0],
+					collection.generics?.[0] ?? make("Unknown"),
+				);
+				const valueChanged = this.expect(
+					args[1],
+					collection.generics?.[1] ?? make("Unknown"),
+				);
+				return changed || keyChanged || valueChanged;
+			}
+		}
+		return false;
+	}
+
+	/**
+	 * An expression is used where a value of `type` is expected. Variables
+	 * and parameters referenced by it take on that type, and `get` calls
+	 * pass it on to the collection they read from.
+	 */
+	private expect(expr: ASTNode, type: TypeInfo): boolean {
+		if (type.kind === "Unknown") {
+			return false;
+		}
+
+		if (expr.kind === "identifier") {
+			const declaration = this.resolve(expr);
+			if (
+				declaration?.kind === "variable" ||
+				declaration?.kind === "parameter"
+			) {
+				return this.refine({ node: declaration }, type, true);
+			}
+			return false;
+		}
+
+		// list.get(0) used as an Int -> list is List<Int>
+		const callee = expr.kind === "call" ? expr.callee : undefined;
+		if (callee?.kind === "member" && callee.object) {
+			const receiver = this.inferExpressionType(callee.object);
+			if (
+				receiver.kind === "List" &&
+				(callee.name === "get" || callee.name === "removeAt")
+			) {
+				return this.expect(
+					callee.object,
+					make("List", [withNullability(type, false)]),
+				);
+			}
+			if (
+				receiver.kind === "MutableMap" &&
+				(callee.name === "get" || callee.name === "remove")
+			) {
+				return this.expect(
+					callee.object,
+					make("MutableMap", [make("Unknown"), withNullability(type, false)]),
+				);
+			}
+		}
+
+		return false;
+	}
+
+	private slotType(slot: Slot): TypeInfo {
+		const type = this.types.get(slot.node) ?? make("Unknown");
+		return slot.returns ? (type.returnType ?? make("Unknown")) : type;
+	}
+
+	/**
+	 * Unify the current type of a slot with new information. Annotated
+	 * slots never change. An expected type (`expect`) only fills in the
+	 * Unknown parts. Returns true when the type changed.
+	 */
+	private refine(slot: Slot, incoming: TypeInfo, expected = false): boolean {
+		const annotated = slot.returns
+			? slot.node.returnType
+			: slot.node.typeAnnotation;
+		if (annotated) {
+			return false;
+		}
+
+		const current = this.slotType(slot);
+		const unified = expected
+			? this.fill(current, incoming)
+			: this.unify(current, incoming);
+		if (sameType(current, unified)) {
+			return false;
+		}
+
+		if (slot.returns) {
+			const fn = this.types.get(slot.node);
+			this.types.set(slot.node, {
+				kind: "Function",
+				params: fn?.params ?? [],
+				returnType: unified,
+			});
+		} else {
+			this.types.set(slot.node, unified);
+		}
+		return true;
+	}
+
+	private declaredType(typeRef: ASTNode | undefined): TypeInfo {
+		return typeRef ? this.typeFromAnnotation(typeRef) : make("Unknown");
+	}
+
+	private typeFromAnnotation(typeRef: ASTNode): TypeInfo {
+		const annotated = this.typeFromNode(typeRef);
+		annotated.hasTypeAnnotation = true;
+		return annotated;
+	}
+
+	/**
+	 * Convert a typeRef node into a TypeInfo, handling nested generic types.
+	 * e.g. "MutableMap<String, List<Int>>" -> { kind: "MutableMap", generics: [String, List<Int>] }
+	 * Names of classes and actors in scope become Custom types.
+	 */
+	private typeFromNode(typeRef: ASTNode): TypeInfo {
+		const type = this.typeFromName(typeRef);
+		return typeRef.nullable ? withNullability(type, true) : type;
+	}
+
+	private typeFromName(typeRef: ASTNode): TypeInfo {
+		const kind = typeNameToKind(typeRef.name);
+		if (kind === "Unknown") {
+			const declaration = this.resolver.resolveType(typeRef.name, typeRef);
+			return declaration ? customType(declaration) : make("Unknown");
+		}
+		if (typeRef.typeArgs && typeRef.typeArgs.length > 0) {
+			return make(
+				kind,
+				typeRef.typeArgs.map((arg) => this.typeFromNode(arg)),
+			);
+		}
+		return make(kind);
+	}
+
+	/**
+	 * Type of a declaration referenced by an identifier, or Unknown when the
+	 * identifier cannot be resolved.
+	 */
+	private lookupType(identifier: ASTNode): TypeInfo {
+		const declaration = this.resolve(identifier);
+		const type = declaration && this.types.get(declaration);
+		if (!declaration || !type) {
+			return make("Unknown");
+		}
+		// Smart cast: x is non-null inside "if (x != null) { ... }"
+		if (
+			type.nullable &&
+			isNonNullAt(identifier, declaration, (id) => this.resolve(id))
+		) {
+			return withNullability(type, false);
+		}
+		return type;
+	}
+
+	/**
+	 * ScopeResolver.resolve, cached because the solver looks up the same
+	 * identifiers on every pass.
+	 */
+	private resolve(identifier: ASTNode): ASTNode | null {
+		let declaration = this.resolved.get(identifier);
+		if (declaration === undefined) {
+			declaration = this.resolver.resolve(identifier);
+			this.resolved.set(identifier, declaration);
+		}
+		return declaration;
+	}
+
+	/**
+	 * The function called by a callee, or the class or actor whose
+	 * constructor is called by X.new(...). The handler of an actor message
+	 * counts as called by the message. Null for built-ins and callees that
+	 * cannot be resolved.
+	 */
+	public resolveCallee(callee: ASTNode | undefined): ASTNode | null {
+		if (callee?.kind === "identifier") {
+			const declaration =
+				this.resolve(callee) ??
+				(callee.parent ? this.resolveHandler(callee.parent) : null);
+			return declaration?.kind === "function" ? declaration : null;
+		}
+		if (callee?.kind !== "member" || !callee.object) {
+			return null;
+		}
+
+		if (callee.name === "new" && callee.object.kind === "identifier") {
+			const type = this.resolver.resolveType(callee.object.name, callee.object);
+			if (type) {
+				return type;
+			}
+		}
+
+		const receiver = this.inferExpressionType(callee.object);
+		const member = receiver.declaration
+			? findMember(receiver.declaration, callee.name)
+			: null;
+		return member?.kind === "function" ? member : null;
+	}
+
+	/**
+	 * The actor `fun` handling a message call: increment(1) in
+	 * send(counter, increment(1)).
+	 */
+	private resolveHandler(call: ASTNode): ASTNode | null {
+		const message = getEnclosingActorMessage(call, (id) => this.resolve(id));
+		if (!message?.target) {
+			return null;
+		}
+		const actor = this.inferExpressionType(message.target).declaration;
+		return actor ? findHandler(actor, call) : null;
+	}
+
+	/**
+	 * Infer the type of an expression from the given declaration types,
+	 * which must come from an `infer` run over the same AST.
+	 */
+	public typeOf(expr: ASTNode, types: Map<ASTNode, TypeInfo>): TypeInfo {
+		this.types = types;
+		return this.inferExpressionType(expr);
+	}
+
+	/**
+	 * Infer the type of an expression from the declaration types of the most
+	 * recent `infer` run.
+	 */
+	public inferExpressionType(expr: ASTNode): TypeInfo {
+		switch (expr.kind) {
+			case "string":
+				return make("String");
+			case "char":
+				return make("Char");
+			case "boolean":
+				return make("Bool");
+			case "null":
+				return NULL_TYPE;
+			case "number":
+				return make(numberLiteralKind(expr.value ?? expr.name));
+			case "identifier":
+				return this.lookupType(expr);
+			case "unary":
+				if (!expr.expression || !expr.operator) {
+					return make("Unknown");
+				}
+				return this.inferUnaryOperationType(
+					expr.operator,
+					this.inferExpressionType(expr.expression),
+				);
+			case "binary":
+				if (!expr.left || !expr.right || !expr.operator) {
+					return make("Unknown");
+				}
+				return this.inferBinaryOperationType(
+					this.inferExpressionType(expr.left),
+					expr.operator,
+					this.inferExpressionType(expr.right),
+				);
+			case "call":
+				return this.inferCallType(expr);
+			case "member":
+				return this.inferMemberType(expr);
+			default:
+				return make("Unknown");
+		}
+	}
+
+	private inferCallType(call: ASTNode): TypeInfo {
+		const callee = call.callee;
+
+		// Function call: compute(3), println("text")
+		if (callee?.kind === "identifier") {
+			const declaration = this.resolve(callee) ?? this.resolveHandler(call);
+			if (declaration) {
+				return this.types.get(declaration)?.returnType ?? make("Unknown");
+			}
+
+			// ask(actor, handler()) replies with the handler's return value
+			const message = getActorMessage(call, (id) => this.resolve(id));
+			if (message?.kind === "ask" && message.message?.kind === "call") {
+				const handler = this.resolveHandler(message.message);
+				if (handler) {
+					return this.types.get(handler)?.returnType ?? make("Unknown");
+				}
+			}
+			return getBuiltinFunction(callee.name)?.returnType ?? make("Unknown");
+		}
+
+		// Construction: TypeName<...>.new(...) or ClassName.new(...)
+		// Supports nested generics like List<List<Int>>.new() or MutableMap<String, List<Int>>.new()
+		if (
+			callee?.kind === "member" &&
+			callee.name === "new" &&
+			callee.object?.kind === "identifier"
+		) {
+			const receiver = callee.object;
+			const kind = typeNameToKind(receiver.name);
+
+			if (kind === "Unknown") {
+				const declaration = this.resolver.resolveType(receiver.name, receiver);
+				if (declaration) {
+					return customType(declaration);
+				}
+			}
+
+			if (receiver.typeArgs && receiver.typeArgs.length > 0) {
+				return make(
+					kind,
+					receiver.typeArgs.map((arg) => this.typeFromNode(arg)),
+				);
+			}
+
+			// No generic parameters specified
+			switch (kind) {
+				case "List":
+				case "MutableSet":
+					return make(kind, [make("Unknown")]);
+				case "MutableMap":
+					return make(kind, [make("Unknown"), make("Unknown")]);
+			}
+		}
+
+		// Built-in collection methods: list.get(0), map.keys()
+		if (callee?.kind === "member" && callee.object) {
+			const receiver = this.inferExpressionType(callee.object);
+			const method = getBuiltinMethods(receiver).find(
+				(m) => m.name === callee.name,
+			);
+			if (method) {
+				return method.returnType;
+			}
+
+			// Method of a class or actor: point.distanceTo(other)
+			const member = receiver.declaration
+				? findMember(receiver.declaration, callee.name)
+				: null;
+			if (member?.kind === "function") {
+				return this.types.get(member)?.returnType ?? make("Unknown");
+			}
+		}
+
+		return make("Unknown");
+	}
+
+	/**
+	 * Type of a field or method of a class or actor: point.x
+	 */
+	private inferMemberType(member: ASTNode): TypeInfo {
+		if (!member.object) {
+			return make("Unknown");
+		}
+		const receiver = this.inferExpressionType(member.object);
+		const declaration = receiver.declaration
+			? findMember(receiver.declaration, member.name)
+			: null;
+		return (declaration && this.types.get(declaration)) ?? make("Unknown");
+	}
+
+	/**
+	 * Element type produced by iterating over a collection.
+	 */
+	private elementType(collection: TypeInfo): TypeInfo {
+		if (collection.kind === "List" || collection.kind === "MutableSet") {
+			return collection.generics?.[0] ?? make("Unknown");
+		}
+		return make("Unknown");
+	}
+
+	/**
+	 * Combine two types describing the same value. Unknown parts are filled
+	 * in from the other type and numeric types widen. On a conflict the
+	 * current type wins, and the checker reports the mismatch.
+	 */
+	private unify(current: TypeInfo, incoming: TypeInfo): TypeInfo {
+		const unified = this.unifyKinds(current, incoming);
+		// A value that may be null in either view may be null
+		return (current.nullable || incoming.nullable) && unified.kind !== "Unknown"
+			? withNullability(unified, true)
+			: unified;
+	}
+
+	/**
+	 * Fill in the Unknown parts of a type from the type expected of it,
+	 * without otherwise changing it: passing an Int to a Double? parameter
+	 * does not make it a Double?.
+	 */
+	private fill(current: TypeInfo, expected: TypeInfo): TypeInfo {
+		if (current.kind === "Unknown") {
+			return withoutAnnotation(expected);
+		}
+		if (current.kind !== expected.kind || !current.generics) {
+			return current;
+		}
+		return {
+			...current,
+			generics: current.generics.map((g, i) => {
+				const other = expected.generics?.[i];
+				return other ? this.fill(g, other) : g;
+			}),
+		};
+	}
+
+	private unifyKinds(current: TypeInfo, incoming: TypeInfo): TypeInfo {
+		if (current.kind === "Unknown" || current.kind === "Nothing") {
+			return withoutAnnotation(incoming);
+		}
+		if (incoming.kind === "Unknown" || incoming.kind === "Nothing") {
+			return current;
+		}
+		// Mixed numeric types widen: Int and Double -> Double
+		if (isNumeric(current.kind) && isNumeric(incoming.kind)) {
+			return make(widerNumeric(current.kind, incoming.kind));
+		}
+		if (current.kind !== incoming.kind || current.kind === "Custom") {
+			return current;
+		}
+
+		if (current.kind === "Function") {
+			return {
+				kind: "Function",
+				params: current.params?.map((param, i) => {
+					const other = incoming.params?.[i];
+					return other ? this.unify(param, other) : param;
+				}),
+				returnType:
+					current.returnType && incoming.returnType
+						? this.unify(current.returnType, incoming.returnType)
+						: (current.returnType ?? incoming.returnType),
+			};
+		}
+
+		// Merge generics recursively: List<Unknown> and List<Int> -> List<Int>
+		const generics = current.generics?.map((g, i) => {
+			const other = incoming.generics?.[i];
+			return other ? this.unify(g, other) : g;
+		});
+		return make(current.kind, generics ?? incoming.generics);
+	}
+
+	/**
+	 * Result type of a binary operation, or Unknown when the operator is not
+	 * defined for the operand types.
+	 */
+	public inferBinaryOperationType(
+		leftType: TypeInfo,
+		operator: string,
+		rightType: TypeInfo,
+	): TypeInfo {
+		const left = leftType.kind;
+		const right = rightType.kind;
+
+		// Anything may be compared with null
+		if (EQUALITY_OPERATORS.has(operator)) {
+			if (
+				(isNumeric(left) && isNumeric(right)) ||
+				left === right ||
+				left === "Unknown" ||
+				right === "Unknown" ||
+				left === "Nothing" ||
+				right === "Nothing"
+			) {
+				return make("Bool");
+			}
+			return make("Unknown");
+		}
+
+		// Other operators need non-null operands
+		if (leftType.nullable || rightType.nullable) {
+			return make("Unknown");
+		}
+
+		if (ARITHMETIC_OPERATORS.has(operator)) {
+			// Mixed numeric operands widen to the larger type: Int + Double -> Double
+			if (isNumeric(left) && isNumeric(right)) {
+				return make(widerNumeric(left, right));
+			}
+			// Char arithmetic: 'a' + 1 -> Char, 'z' - 'a' -> Int
+			if (left === "Char" && right === "Int" && /^[+-]$/.test(operator)) {
+				return make("Char");
+			}
+			if (left === "Char" && right === "Char" && operator === "-") {
+				return make("Int");
+			}
+			// String: only supports concatenation with another String
+			if (left === "String" && right === "String" && operator === "+") {
+				return make("String");
+			}
+			return make("Unknown");
+		}
+
+		if (COMPARISON_OPERATORS.has(operator)) {
+			if (
+				(isNumeric(left) && isNumeric(right)) ||
+				(left === right && (left === "Char" || left === "String"))
+			) {
+				return make("Bool");
+			}
+			return make("Unknown");
+		}
+
+		if (LOGICAL_OPERATORS.has(operator)) {
+			return left === "Bool" && right === "Bool"
+				? make("Bool")
+				: make("Unknown");
+		}
+
+		// All other operators return Unknown
+		return make("Unknown");
+	}
+
+	/**
+	 * Result type of a unary operation, or Unknown when the operator is not
+	 * defined for the operand type.
+	 */
+	public inferUnaryOperationType(
+		operator: string,
+		operandType: TypeInfo,
+	): TypeInfo {
+		if (operandType.nullable) {
+			return make("Unknown");
+		}
+		if (operator === "!") {
+			return operandType.kind === "Bool" ? make("Bool") : make("Unknown");
+		}
+		if (operator === "-" || operator === "+") {
+			return isNumeric(operandType.kind) ? operandType : make("Unknown");
+		}
+		return make("Unknown");
+	}
+}
+
+export const ARITHMETIC_OPERATORS = new Set(["+", "-", "*", "/", "%"]);
+export const COMPARISON_OPERATORS = new Set(["<", "<=", ">", ">="]);
+export const EQUALITY_OPERATORS = new Set(["==", "!="]);
+export const LOGICAL_OPERATORS = new Set(["&&", "||"]);
+
+/**
+ * Whether two types are structurally the same, as far as they are shown to
+ * the user.
+ */
+function sameType(a: TypeInfo, b: TypeInfo): boolean {
+	return typeToString(a) === typeToString(b);
+}
+
+/**
+ * A copy of an annotated type for a declaration that is not annotated
+ * itself, e.g. a variable initialized from an annotated parameter.
+ */
+function withoutAnnotation(type: TypeInfo): TypeInfo {
+	return type.hasTypeAnnotation ? { ...type, hasTypeAnnotation: false } : type;
+}
+
+// Numeric types from narrowest to widest
+const NUMERIC_KINDS: TypeKind[] = ["Int", "Float", "Double"];
+
+export function isNumeric(kind: TypeKind): boolean {
+	return NUMERIC_KINDS.includes(kind);
+}
+
+/**
+ * Whether numbers of kind `source` widen to `target`, as they do when the
+ * two are unified: Int to Float or Double, and Float to Double.
+ */
+export function widensTo(source: TypeKind, target: TypeKind): boolean {
+	return (
+		isNumeric(source) &&
+		isNumeric(target) &&
+		NUMERIC_KINDS.indexOf(source) <= NUMERIC_KINDS.indexOf(target)
+	);
+}
+
+function widerNumeric(a: TypeKind, b: TypeKind): TypeKind {
+	return NUMERIC_KINDS.indexOf(a) >= NUMERIC_KINDS.indexOf(b) ? a : b;
+}
+
+/**
+ * Type of a numeric literal: 1 -> Int, 1.5 / 1e3 -> Double, 1.5f -> Float.
+ */
+function numberLiteralKind(literal: string): TypeKind {
+	if (/[fF]$/.test(literal)) {
+		return "Float";
+	}
+	if (/[.eE]/.test(literal)) {
+		return "Double";
+	}
+	return "Int";
+}
+
+/**
+ * Return statements that belong to a function, excluding those of nested
+ * functions.
+ */
+export function collectReturns(fn: ASTNode): ASTNode[] {
+	const returns: ASTNode[] = [];
+	const visit = (node: ASTNode) => {
+		for (const child of node.children) {
+			if (child.kind === "return") {
+				returns.push(child);
+			}
+			if (child.kind !== "function") {
+				visit(child);
+			}
+		}
+	};
+	visit(fn);
+	return returns;
+}
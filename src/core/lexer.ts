@@ -0,0 +1,483 @@
+import type { SourcePosition } from "./ast";
+
+export type TokenKind =
+	| "identifier"
+	| "keyword"
+	| "number"
+	| "string"
+	| "char"
+	| "operator"
+	| "punctuation"
+	| "eof";
+
+/**
+ * A piece of a string literal. Text parts hold the raw characters between
+ * quotes, expression parts hold the source inside `${...}`.
+ */
+export interface StringPart {
+	kind: "text" | "expression";
+	value: string;
+	start: number; // offset of the first character of the part
+	end: number; // offset just past the last character of the part
+}
+
+export interface Token {
+	kind: TokenKind;
+	value: string;
+	start: number; // offset of the first character
+	end: number; // offset just past the last character
+	newlineBefore: boolean; // whether a line break separates it from the previous token
+	parts?: StringPart[]; // only for string tokens
+}
+
+export interface LexerError {
+	message: string;
+	start: number;
+	end: number;
+}
+
+/**
+ * The tokens of a whole text and the errors found while reading them.
+ */
+export interface LexedText {
+	tokens: Token[]; // ends with an "eof" token
+	errors: LexerError[];
+}
+
+export const LEXER_KEYWORDS = new Set([
+	"class",
+	"actor",
+	"io",
+	"fun",
+	"var",
+	"val",
+	"if",
+	"else",
+	"for",
+	"while",
+	"return",
+	"true",
+	"false",
+	"null",
+]);
+
+// Longest operators first so that "==" wins over "="
+const OPERATORS = [
+	"==",
+	"!=",
+	"<=",
+	">=",
+	"&&",
+	"||",
+	"+=",
+	"-=",
+	"*=",
+	"/=",
+	"->",
+	"..",
+	"+",
+	"-",
+	"*",
+	"/",
+	"%",
+	"=",
+	"<",
+	">",
+	"!",
+	"?",
+	".",
+];
+
+const PUNCTUATION = new Set(["(", ")", "{", "}", "[", "]", ",", ":", ";"]);
+
+/**
+ * Converts between character offsets and line/character positions.
+ */
+export class LineIndex {
+	private lineStarts: number[] = [0];
+
+	constructor(text: string) {
+		for (let i = 0; i < text.length; i++) {
+			if (text[i] === "\n") {
+				this.lineStarts.push(i + 1);
+			}
+		}
+	}
+
+	get lineCount(): number {
+		return this.lineStarts.length;
+	}
+
+	positionAt(offset: number): SourcePosition {
+		// Binary search for the last line starting at or before offset
+		let low = 0;
+		let high = this.lineStarts.length - 1;
+		while (low < high) {
+			const mid = (low + high + 1) >> 1;
+			if (this.lineStarts[mid] <= offset) {
+				low = mid;
+			} else {
+				high = mid - 1;
+			}
+		}
+		return { line: low, character: offset - this.lineStarts[low], offset };
+	}
+
+	offsetAt(line: number, character: number): number {
+		if (line >= this.lineStarts.length) {
+			return this.lineStarts[this.lineStarts.length - 1] + character;
+		}
+		return this.lineStarts[Math.max(0, line)] + character;
+	}
+}
+
+/**
+ * Splits Synotra source into tokens. Whitespace and comments are skipped,
+ * but line breaks are remembered on the following token because Synotra
+ * statements are terminated by newlines.
+ */
+export class Lexer {
+	readonly errors: LexerError[] = [];
+	private pos: number;
+	private newlineBefore = false;
+
+	constructor(
+		private text: string,
+		start = 0,
+		private end = text.length,
+	) {
+		this.pos = start;
+	}
+
+	tokenize(): Token[] {
+		const tokens: Token[] = [];
+		for (;;) {
+			const token = this.next();
+			tokens.push(token);
+			if (token.kind === "eof") {
+				return tokens;
+			}
+		}
+	}
+
+	/**
+	 * Read the next token, skipping invalid characters.
+	 */
+	next(): Token {
+		let token = this.read();
+		while (!token) {
+			token = this.read();
+		}
+		return token;
+	}
+
+	/**
+	 * Read one token, or return null after skipping an invalid character.
+	 */
+	private read(): Token | null {
+		this.skipTrivia();
+		const start = this.pos;
+		if (start >= this.end) {
+			return this.make("eof", start, start);
+		}
+
+		const ch = this.text[start];
+
+		if (isIdentifierStart(ch)) {
+			while (this.pos < this.end && isIdentifierPart(this.text[this.pos])) {
+				this.pos++;
+			}
+			const value = this.text.slice(start, this.pos);
+			return this.make(
+				LEXER_KEYWORDS.has(value) ? "keyword" : "identifier",
+				start,
+				this.pos,
+			);
+		}
+
+		if (isDigit(ch)) {
+			return this.readNumber();
+		}
+
+		if (ch === '"') {
+			return this.readString();
+		}
+
+		if (ch === "'") {
+			return this.readChar();
+		}
+
+		if (PUNCTUATION.has(ch)) {
+			this.pos++;
+			return this.make("punctuation", start, this.pos);
+		}
+
+		for (const op of OPERATORS) {
+			if (this.text.startsWith(op, start) && start + op.length <= this.end) {
+				this.pos += op.length;
+				return this.make("operator", start, this.pos);
+			}
+		}
+
+		// Unknown character: report it and continue with the next token
+		this.pos++;
+		this.errors.push({
+			message: `Unexpected character '${ch}'`,
+			start,
+			end: this.pos,
+		});
+		return null;
+	}
+
+	private make(kind: TokenKind, start: number, end: number): Token {
+		const token: Token = {
+			kind,
+			value: this.text.slice(start, end),
+			start,
+			end,
+			newlineBefore: this.newlineBefore,
+		};
+		this.newlineBefore = false;
+		return token;
+	}
+
+	private skipTrivia(): void {
+		while (this.pos < this.end) {
+			const ch = this.text[this.pos];
+			if (ch === "\n") {
+				this.newlineBefore = true;
+				this.pos++;
+			} else if (ch === " " || ch === "\t" || ch === "\r") {
+				this.pos++;
+			} else if (this.text.startsWith("//", this.pos)) {
+				while (this.pos < this.end && this.text[this.pos] !== "\n") {
+					this.pos++;
+				}
+			} else if (this.text.startsWith("/*", this.pos)) {
+				const close = this.text.indexOf("*/", this.pos + 2);
+				const unterminated = close === -1 || close + 2 > this.end;
+				const stop = unterminated ? this.end : close + 2;
+				if (unterminated) {
+					this.errors.push({
+						message: "Unterminated block comment",
+						start: this.pos,
+						end: this.pos + 2,
+					});
+				}
+				if (this.text.slice(this.pos, stop).includes("\n")) {
+					this.newlineBefore = true;
+				}
+				this.pos = stop;
+			} else {
+				return;
+			}
+		}
+	}
+
+	private readNumber(): Token {
+		const start = this.pos;
+		while (this.pos < this.end && isDigit(this.text[this.pos])) {
+			this.pos++;
+		}
+		// Only treat "." as a decimal point when a digit follows, so that
+		// ranges like "0..10" and member access stay intact
+		if (
+			this.text[this.pos] === "." &&
+			this.pos + 1 < this.end &&
+			isDigit(this.text[this.pos + 1])
+		) {
+			this.pos++;
+			while (this.pos < this.end && isDigit(this.text[this.pos])) {
+				this.pos++;
+			}
+		}
+		// Exponent: 1e10, 2.5E-3
+		if (this.text[this.pos] === "e" || this.text[this.pos] === "E") {
+			let next = this.pos + 1;
+			if (this.text[next] === "+" || this.text[next] === "-") {
+				next++;
+			}
+			if (next < this.end && isDigit(this.text[next])) {
+				this.pos = next;
+				while (this.pos < this.end && isDigit(this.text[this.pos])) {
+					this.pos++;
+				}
+			}
+		}
+		// Float suffix: 1.5f, 2F
+		if (
+			this.pos < this.end &&
+			(this.text[this.pos] === "f" || this.text[this.pos] === "F")
+		) {
+			this.pos++;
+		}
+		return this.make("number", start, this.pos);
+	}
+
+	/**
+	 * Read a single-quoted character literal such as 'a' or '\n'.
+	 */
+	private readChar(): Token {
+		const start = this.pos;
+		this.pos++; // opening quote
+
+		if (this.text[this.pos] === "'" && this.pos < this.end) {
+			this.pos++;
+			this.errors.push({
+				message: "Empty character literal",
+				start,
+				end: this.pos,
+			});
+			return this.make("char", start, this.pos);
+		}
+
+		if (this.text[this.pos] === "\\" && this.pos + 1 < this.end) {
+			this.pos++;
+		}
+		if (this.pos < this.end && this.text[this.pos] !== "\n") {
+			this.pos++;
+		}
+
+		if (this.pos < this.end && this.text[this.pos] === "'") {
+			this.pos++;
+		} else {
+			this.errors.push({
+				message: "Unterminated character literal",
+				start,
+				end: this.pos,
+			});
+		}
+		return this.make("char", start, this.pos);
+	}
+
+	/**
+	 * Read a double-quoted string, splitting it into text and `${...}` parts.
+	 * Braces inside an interpolation are balanced so that nested blocks and
+	 * strings do not end the interpolation early.
+	 */
+	private readString(): Token {
+		const start = this.pos;
+		const parts: StringPart[] = [];
+		this.pos++; // opening quote
+		let textStart = this.pos;
+
+		const pushText = (endOffset: number) => {
+			if (endOffset > textStart) {
+				parts.push({
+					kind: "text",
+					value: this.text.slice(textStart, endOffset),
+					start: textStart,
+					end: endOffset,
+				});
+			}
+		};
+
+		while (this.pos < this.end) {
+			const ch = this.text[this.pos];
+			if (ch === "\\") {
+				this.pos += 2;
+				continue;
+			}
+			if (ch === '"') {
+				pushText(this.pos);
+				this.pos++;
+				const token = this.make("string", start, this.pos);
+				token.parts = parts;
+				return token;
+			}
+			if (ch === "\n") {
+				break;
+			}
+			if (ch === "$" && this.text[this.pos + 1] === "{") {
+				pushText(this.pos);
+				const exprStart = this.pos + 2;
+				const exprEnd = this.findInterpolationEnd(exprStart);
+				if (this.text[exprEnd] !== "}") {
+					// Treat the rest as plain text so that the closing quote
+					// still ends the string
+					this.errors.push({
+						message: "Unterminated string interpolation",
+						start: this.pos,
+						end: exprStart,
+					});
+					textStart = this.pos;
+					this.pos = exprStart;
+					continue;
+				}
+				parts.push({
+					kind: "expression",
+					value: this.text.slice(exprStart, exprEnd),
+					start: exprStart,
+					end: exprEnd,
+				});
+				this.pos = exprEnd + 1;
+				textStart = this.pos;
+				continue;
+			}
+			this.pos++;
+		}
+
+		// Unterminated string: stop at the end of the line
+		this.pos = Math.min(this.pos, this.end);
+		pushText(this.pos);
+		this.errors.push({
+			message: "Unterminated string literal",
+			start,
+			end: this.pos,
+		});
+		const token = this.make("string", start, this.pos);
+		token.parts = parts;
+		return token;
+	}
+
+	private findInterpolationEnd(from: number): number {
+		let depth = 0;
+		let inString = false;
+		for (let i = from; i < this.end; i++) {
+			const ch = this.text[i];
+			if (ch === "\n") {
+				return i;
+			}
+			if (inString) {
+				if (ch === "\\") {
+					i++;
+				} else if (ch === '"') {
+					inString = false;
+				}
+				continue;
+			}
+			if (ch === '"') {
+				inString = true;
+			} else if (ch === "{") {
+				depth++;
+			} else if (ch === "}") {
+				if (depth === 0) {
+					return i;
+				}
+				depth--;
+			}
+		}
+		return this.end;
+	}
+}
+
+/**
+ * Split a whole text into tokens.
+ */
+export function lex(text: string): LexedText {
+	const lexer = new Lexer(text);
+	const tokens = lexer.tokenize();
+	return { tokens, errors: lexer.errors };
+}
+
+function isDigit(ch: string): boolean {
+	return ch >= "0" && ch <= "9";
+}
+
+function isIdentifierStart(ch: string): boolean {
+	return (ch >= "a" && ch <= "z") || (ch >= "A" && ch <= "Z") || ch === "_";
+}
+
+function isIdentifierPart(ch: string): boolean {
+	return isIdentifierStart(ch) || isDigit(ch);
+}
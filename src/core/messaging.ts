@@ -0,0 +1,66 @@
+import type { ASTNode } from "./ast";
+import { findMember } from "./scope";
+
+type Resolve = (identifier: ASTNode) => ASTNode | null;
+
+/**
+ * A message sent to an actor:
+ *
+ *   send(counter, increment(1))    delivers the message, no reply
+ *   ask(counter, get())            waits for the handler's return value
+ *
+ * The message is a call to a `fun` of the actor, its handler.
+ */
+export interface ActorMessage {
+	kind: "send" | "ask";
+	call: ASTNode;
+	target?: ASTNode;
+	message?: ASTNode;
+}
+
+/**
+ * The message sent by a call to `send` or `ask`, unless a user
+ * declaration shadows the built-in.
+ */
+export function getActorMessage(
+	call: ASTNode,
+	resolve: Resolve,
+): ActorMessage | null {
+	const callee = call.callee;
+	if (
+		call.kind !== "call" ||
+		callee?.kind !== "identifier" ||
+		(callee.name !== "send" && callee.name !== "ask") ||
+		resolve(callee)
+	) {
+		return null;
+	}
+	const [target, message] = call.args ?? [];
+	return { kind: callee.name, call, target, message };
+}
+
+/**
+ * The message whose handler call is `call`, such as increment(1) in
+ * send(counter, increment(1)).
+ */
+export function getEnclosingActorMessage(
+	call: ASTNode,
+	resolve: Resolve,
+): ActorMessage | null {
+	if (!call.parent) {
+		return null;
+	}
+	const message = getActorMessage(call.parent, resolve);
+	return message?.message === call ? message : null;
+}
+
+/**
+ * The handler `fun` named by a message call on the given actor.
+ */
+export function findHandler(actor: ASTNode, call: ASTNode): ASTNode | null {
+	if (actor.kind !== "actor" || call.callee?.kind !== "identifier") {
+		return null;
+	}
+	const handler = findMember(actor, call.callee.name);
+	return handler?.kind === "function" ? handler : null;
+}
@@ -0,0 +1,260 @@
+import { type ASTNode, walk } from "./ast";
+import { isField } from "./scope";
+
+type Resolve = (identifier: ASTNode) => ASTNode | null;
+
+/**
+ * Flow-sensitive null checks ("smart casts"). A reference to a nullable
+ * declaration is known to be non-null where it can only be reached after
+ * a check against null:
+ *
+ *   if (x != null) { x }             then branch
+ *   if (x == null) { } else { x }    else branch
+ *   while (x != null) { x }          loop body
+ *   x != null && x                   right operand of && (|| for x == null)
+ *   if (x == null) { return }  x     statements after an early return
+ *
+ * Assigning to the variable between the check and the reference ends the
+ * narrowing, as does an assignment in a loop around the reference, which
+ * may run before it on an earlier iteration. Fields declared with `var`
+ * are never narrowed, since other code may change them.
+ */
+export function isNonNullAt(
+	reference: ASTNode,
+	declaration: ASTNode,
+	resolve: Resolve,
+): boolean {
+	if (isField(declaration) && declaration.mutable) {
+		return false;
+	}
+
+	const implies = (condition: ASTNode | undefined, when: boolean) =>
+		condition !== undefined &&
+		impliesNonNull(condition, when, declaration, resolve);
+	// Whether the value checked is still the one read by the reference
+	const unassignedIn = (checked: ASTNode) =>
+		!isAssignedBefore(checked, reference, declaration, resolve);
+
+	let child = reference;
+	for (let parent = reference.parent; parent; parent = parent.parent) {
+		switch (parent.kind) {
+			case "if":
+				if (
+					((child === parent.thenBranch && implies(parent.condition, true)) ||
+						(child === parent.elseBranch &&
+							implies(parent.condition, false))) &&
+					unassignedIn(child)
+				) {
+					return true;
+				}
+				break;
+			case "while":
+				if (
+					child === parent.body &&
+					implies(parent.condition, true) &&
+					unassignedIn(child)
+				) {
+					return true;
+				}
+				break;
+			case "binary":
+				if (
+					child === parent.right &&
+					((parent.operator === "&&" && implies(parent.left, true)) ||
+						(parent.operator === "||" && implies(parent.left, false))) &&
+					unassignedIn(child)
+				) {
+					return true;
+				}
+				break;
+			case "block":
+				if (
+					narrowedByEarlierStatements(
+						parent,
+						child,
+						reference,
+						declaration,
+						resolve,
+					)
+				) {
+					return true;
+				}
+				break;
+			case "function":
+				// Checks outside a function do not apply inside it
+				return false;
+		}
+		child = parent;
+	}
+	return false;
+}
+
+/**
+ * Whether an early return such as `if (x == null) { return }` precedes
+ * `statement` in the block, without an assignment to the variable between
+ * it and the reference.
+ */
+function narrowedByEarlierStatements(
+	block: ASTNode,
+	statement: ASTNode,
+	reference: ASTNode,
+	declaration: ASTNode,
+	resolve: Resolve,
+): boolean {
+	const position = block.children.indexOf(statement);
+	let check = -1; // index of the last early return before the statement
+	block.children.slice(0, position).forEach((sibling, i) => {
+		if (
+			sibling.kind === "if" &&
+			sibling.condition &&
+			!sibling.elseBranch &&
+			sibling.thenBranch &&
+			alwaysReturns(sibling.thenBranch) &&
+			impliesNonNull(sibling.condition, false, declaration, resolve)
+		) {
+			check = i;
+		}
+	});
+	return (
+		check !== -1 &&
+		block.children
+			.slice(check + 1, position + 1)
+			.every(
+				(sibling) =>
+					!isAssignedBefore(sibling, reference, declaration, resolve),
+			)
+	);
+}
+
+/**
+ * Whether code in `region`, which runs after a null check, may assign the
+ * declaration before `reference` reads it: an assignment that completes
+ * before the reference, or one in a loop around the reference.
+ */
+function isAssignedBefore(
+	region: ASTNode,
+	reference: ASTNode,
+	declaration: ASTNode,
+	resolve: Resolve,
+): boolean {
+	let assigned = false;
+	walk(region, (node) => {
+		if (
+			!assigned &&
+			node.kind === "assignment" &&
+			node.left?.kind === "identifier" &&
+			resolve(node.left) === declaration
+		) {
+			assigned =
+				node.range.end.offset <= reference.range.start.offset ||
+				inLoopAround(node, reference, region);
+		}
+	});
+	return assigned;
+}
+
+/**
+ * Whether a loop within `region` (or the region itself) contains both the
+ * assignment and the reference, so that the assignment may run first.
+ */
+function inLoopAround(
+	assignment: ASTNode,
+	reference: ASTNode,
+	region: ASTNode,
+): boolean {
+	for (let node = assignment.parent; node; node = node.parent) {
+		if (
+			(node.kind === "while" || node.kind === "for") &&
+			node.range.start.offset <= reference.range.start.offset &&
+			reference.range.end.offset <= node.range.end.offset
+		) {
+			return true;
+		}
+		if (node === region) {
+			return false;
+		}
+	}
+	return false;
+}
+
+/**
+ * Whether `condition` evaluating to `when` guarantees that the declaration
+ * is not null.
+ */
+function impliesNonNull(
+	condition: ASTNode,
+	when: boolean,
+	declaration: ASTNode,
+	resolve: Resolve,
+): boolean {
+	const implies = (operand: ASTNode | undefined, value: boolean) =>
+		operand !== undefined &&
+		impliesNonNull(operand, value, declaration, resolve);
+
+	if (condition.kind === "unary" && condition.operator === "!") {
+		return implies(condition.expression, !when);
+	}
+	if (condition.kind !== "binary") {
+		return false;
+	}
+
+	switch (condition.operator) {
+		case "!=":
+		case "==": {
+			const compared = nullComparisonOperand(condition);
+			return (
+				compared !== null &&
+				resolve(compared) === declaration &&
+				when === (condition.operator === "!=")
+			);
+		}
+		case "&&":
+			// Both operands are true when the whole condition is
+			return (
+				when &&
+				(implies(condition.left, true) || implies(condition.right, true))
+			);
+		case "||":
+			// Both operands are false when the whole condition is
+			return (
+				!when &&
+				(implies(condition.left, false) || implies(condition.right, false))
+			);
+		default:
+			return false;
+	}
+}
+
+/**
+ * The identifier compared in `x == null` / `null != x`, if any.
+ */
+function nullComparisonOperand(comparison: ASTNode): ASTNode | null {
+	const { left, right } = comparison;
+	if (left?.kind === "identifier" && right?.kind === "null") {
+		return left;
+	}
+	if (right?.kind === "identifier" && left?.kind === "null") {
+		return right;
+	}
+	return null;
+}
+
+function alwaysReturns(statement: ASTNode): boolean {
+	switch (statement.kind) {
+		case "return":
+			return true;
+		case "block": {
+			const last = statement.children[statement.children.length - 1];
+			return last !== undefined && alwaysReturns(last);
+		}
+		case "if":
+			return (
+				statement.thenBranch !== undefined &&
+				statement.elseBranch !== undefined &&
+				alwaysReturns(statement.thenBranch) &&
+				alwaysReturns(statement.elseBranch)
+			);
+		default:
+			return false;
+	}
+}
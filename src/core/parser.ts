@@ -0,0 +1,1023 @@
+import type { AnalysisDiagnostic, ASTNode, NodeKind, SourceRange } from "./ast";
+import { copyNode, type ReusableDeclaration } from "./incremental";
+import {
+	type LexedText,
+	Lexer,
+	type LexerError,
+	LineIndex,
+	lex,
+	type StringPart,
+	type Token,
+} from "./lexer";
+
+const ASSIGNMENT_OPERATORS = new Set(["=", "+=", "-=", "*=", "/="]);
+
+// Binary operators grouped by precedence, lowest first
+const BINARY_PRECEDENCE: string[][] = [
+	["||"],
+	["&&"],
+	["==", "!="],
+	["<", "<=", ">", ">="],
+	[".."],
+	["+", "-"],
+	["*", "/", "%"],
+];
+
+const UNARY_OPERATORS = new Set(["!", "-", "+"]);
+
+/**
+ * Recursive-descent parser for Synotra source.
+ *
+ * Declarations, statements and expressions all become ASTNodes. Every node
+ * records its exact source range, and named declarations also record the
+ * range of their identifier.
+ *
+ * The parser never gives up: syntax errors are collected in `diagnostics`
+ * and parsing resumes at the next statement, so the rest of the file still
+ * produces a usable tree while the user is mid-edit.
+ *
+ * When reparsing an edited document, top-level declarations that the
+ * edits did not touch can be passed in (see `findReusableDeclarations`);
+ * they are copied to their new place instead of being parsed again, and
+ * `copies` maps their nodes to the copies. The tokens of the text can be
+ * passed in too when they are already known (see `relex`).
+ */
+export class Parser {
+	readonly diagnostics: AnalysisDiagnostic[] = [];
+	readonly copies = new Map<ASTNode, ASTNode>(); // reused node -> its copy
+	private lineIndex: LineIndex;
+	private tokens: Token[];
+	private lexerErrors: LexerError[];
+	private index = 0;
+
+	constructor(
+		private text: string,
+		private reusable = new Map<number, ReusableDeclaration>(),
+		lexed: LexedText = lex(text),
+	) {
+		this.lineIndex = new LineIndex(text);
+		this.tokens = lexed.tokens;
+		this.lexerErrors = lexed.errors;
+		this.reportLexerErrors(lexed.errors);
+	}
+
+	parse(): ASTNode {
+		const root = this.createNode("program", "root", 0);
+		root.parent = null;
+
+		while (!this.isAtEnd()) {
+			if (this.check("}")) {
+				// Stray closing brace at the top level
+				const token = this.advance();
+				this.error("Unexpected '}'", token.start, token.end);
+				continue;
+			}
+			if (this.reuseDeclaration(root)) {
+				continue;
+			}
+			this.parseStatementInto(root);
+		}
+
+		this.finishNode(root, this.text.length);
+		root.startLine = 0;
+		root.endLine = this.lineIndex.lineCount - 1;
+		return root;
+	}
+
+	/**
+	 * Take over a declaration from a previous parse if one starts at the
+	 * current token. It is only reused when the tokens still line up: the
+	 * same keyword at its start and the brace closing its body at its end.
+	 * This catches e.g. an unterminated comment before it, or a body that
+	 * was never closed and so depended on the text after it.
+	 */
+	private reuseDeclaration(parent: ASTNode): boolean {
+		const token = this.peek();
+		const reusable = this.reusable.get(token.start);
+		if (
+			!reusable ||
+			token.kind !== "keyword" ||
+			token.value !== startKeyword(reusable.node)
+		) {
+			return false;
+		}
+
+		const end = reusable.node.range.end.offset + reusable.offsetDelta;
+		let next = this.index;
+		let depth = 0;
+		while (next < this.tokens.length - 1 && this.tokens[next].start < end) {
+			const current = this.tokens[next];
+			if (current.kind === "punctuation" && current.value === "{") {
+				depth++;
+			} else if (current.kind === "punctuation" && current.value === "}") {
+				depth--;
+			}
+			next++;
+		}
+		const last = this.tokens[next - 1];
+		if (
+			depth !== 0 ||
+			last.kind !== "punctuation" ||
+			last.value !== "}" ||
+			last.end !== end
+		) {
+			return false;
+		}
+
+		const { node, lineDelta, offsetDelta } = reusable;
+		this.attach(parent, copyNode(node, lineDelta, offsetDelta, this.copies));
+		for (const diagnostic of reusable.diagnostics) {
+			if (this.isLexerError(diagnostic, offsetDelta)) {
+				continue; // already reported with the other lexer errors
+			}
+			this.error(
+				diagnostic.message,
+				diagnostic.range.start.offset + offsetDelta,
+				diagnostic.range.end.offset + offsetDelta,
+			);
+		}
+		this.index = next;
+		return true;
+	}
+
+	// ---------------------------------------------------------------------
+	// Declarations and statements
+	// ---------------------------------------------------------------------
+
+	/**
+	 * Parse one statement and attach it to the parent. Always consumes at
+	 * least one token so callers can loop without stalling.
+	 */
+	private parseStatementInto(parent: ASTNode): void {
+		const before = this.index;
+		const statement = this.parseStatement();
+		if (statement) {
+			this.attach(parent, statement);
+		}
+
+		if (this.index === before) {
+			// Nothing could be parsed here; the error has already been
+			// reported, so drop the rest of the line
+			this.advance();
+			this.synchronize();
+			return;
+		}
+
+		this.expectStatementEnd();
+	}
+
+	/**
+	 * A statement must be followed by a line break, ";", "}" or the end of
+	 * the file. Statements ending in a block may be followed by anything.
+	 */
+	private expectStatementEnd(): void {
+		const token = this.peek();
+		if (
+			token.newlineBefore ||
+			this.isAtEnd() ||
+			this.check("}") ||
+			this.check(";") ||
+			this.tokens[this.index - 1]?.value === "}"
+		) {
+			return;
+		}
+		this.errorAtToken(token, `Unexpected ${describe(token)}`);
+		this.synchronize();
+	}
+
+	/**
+	 * Skip tokens until the start of the next statement: a token on a new
+	 * line, a closing brace, or the end of the file.
+	 */
+	private synchronize(): void {
+		while (!this.isAtEnd() && !this.peek().newlineBefore && !this.check("}")) {
+			if (this.check("{")) {
+				// Skip a nested block as a whole so its braces stay balanced
+				this.parseBlock();
+				continue;
+			}
+			this.advance();
+		}
+	}
+
+	private parseStatement(): ASTNode | null {
+		const token = this.peek();
+
+		if (token.kind === "keyword") {
+			switch (token.value) {
+				case "class":
+				case "actor":
+					return this.parseTypeDeclaration();
+				case "io":
+				case "fun":
+					return this.parseFunction();
+				case "var":
+				case "val":
+					return this.parseVariable();
+				case "if":
+					return this.parseIf();
+				case "while":
+					return this.parseWhile();
+				case "for":
+					return this.parseFor();
+				case "return":
+					return this.parseReturn();
+			}
+		}
+
+		if (this.check("{")) {
+			return this.parseBlock();
+		}
+		if (this.check(";")) {
+			this.advance();
+			return null;
+		}
+
+		return this.parseExpressionStatement();
+	}
+
+	/**
+	 * class Name(params) { members }
+	 * actor Name(params) { members }
+	 */
+	private parseTypeDeclaration(): ASTNode {
+		const keyword = this.advance();
+		const kind: NodeKind = keyword.value === "class" ? "class" : "actor";
+		const node = this.createNode(kind, "", keyword.start);
+		this.parseName(node, `Expected ${kind} name`);
+
+		if (this.check("(")) {
+			node.params = this.parseParameters(node);
+		}
+
+		const open = this.peek();
+		if (this.match("{")) {
+			while (!this.isAtEnd() && !this.check("}")) {
+				this.parseStatementInto(node);
+			}
+			this.expectClosingBrace(open);
+		} else {
+			this.errorAtToken(open, `Expected '{' to start ${kind} body`);
+		}
+
+		return this.finishNode(node, this.lastEnd());
+	}
+
+	/**
+	 * fun name(params): ReturnType { body }
+	 * io fun name(params) { body }
+	 */
+	private parseFunction(): ASTNode {
+		const start = this.peek().start;
+		const isIo = this.match("io");
+		this.expect("fun");
+
+		const node = this.createNode("function", "", start);
+		node.isIo = isIo;
+		this.parseName(node, "Expected function name");
+
+		if (this.check("(")) {
+			node.params = this.parseParameters(node);
+		} else {
+			node.params = [];
+			this.errorAtToken(this.peek(), "Expected '(' after function name");
+		}
+
+		if (this.match(":")) {
+			node.returnType = this.parseType();
+			this.attach(node, node.returnType);
+		}
+
+		if (this.check("{")) {
+			node.body = this.parseBlock();
+			this.attach(node, node.body);
+		} else {
+			this.errorAtToken(this.peek(), "Expected '{' to start function body");
+			// Skip the rest of a malformed header, keeping a body if one follows
+			while (
+				!this.isAtEnd() &&
+				!this.peek().newlineBefore &&
+				!this.check("{") &&
+				!this.check("}")
+			) {
+				this.advance();
+			}
+			if (this.check("{")) {
+				node.body = this.parseBlock();
+				this.attach(node, node.body);
+			}
+		}
+
+		return this.finishNode(node, this.lastEnd());
+	}
+
+	private parseParameters(owner: ASTNode): ASTNode[] {
+		const params: ASTNode[] = [];
+		this.advance(); // "("
+
+		while (!this.isAtEnd() && !this.check(")") && !this.check("{")) {
+			const start = this.peek().start;
+			// Constructor parameters may be declared as properties with
+			// var/val; plain parameters leave `mutable` undefined
+			let mutable: boolean | undefined;
+			if (this.match("var")) {
+				mutable = true;
+			} else if (this.match("val")) {
+				mutable = false;
+			}
+
+			if (this.peek().kind !== "identifier") {
+				this.errorAtToken(this.peek(), "Expected parameter name");
+				break;
+			}
+
+			const param = this.createNode("parameter", "", start);
+			param.mutable = mutable;
+			this.parseName(param);
+			if (this.match(":")) {
+				param.typeAnnotation = this.parseType();
+				this.attach(param, param.typeAnnotation);
+			} else {
+				this.errorAtToken(
+					this.peek(),
+					`Expected ':' and a type for parameter '${param.name}'`,
+				);
+			}
+			params.push(this.finishNode(param, this.lastEnd()));
+			this.attach(owner, param);
+
+			if (!this.match(",")) {
+				break;
+			}
+		}
+
+		if (!this.expect(")")) {
+			// Skip to the end of the parameter list
+			while (
+				!this.isAtEnd() &&
+				!this.peek().newlineBefore &&
+				!this.check(")") &&
+				!this.check("{")
+			) {
+				this.advance();
+			}
+			this.match(")");
+		}
+		return params;
+	}
+
+	/**
+	 * Name<TypeArg, ...>
+	 */
+	private parseType(): ASTNode {
+		const token = this.peek();
+		if (token.kind !== "identifier") {
+			this.errorAtToken(token, `Expected type but found ${describe(token)}`);
+			return this.missingNode("typeRef");
+		}
+
+		this.advance();
+		const node = this.createNode("typeRef", token.value, token.start);
+		node.nameRange = this.rangeOf(token.start, token.end);
+
+		if (this.check("<")) {
+			node.typeArgs = this.parseTypeArguments(node);
+		}
+
+		// Nullable type: Int?
+		if (!this.peek().newlineBefore && this.match("?")) {
+			node.nullable = true;
+		}
+
+		return this.finishNode(node, this.lastEnd());
+	}
+
+	private parseTypeArguments(owner: ASTNode): ASTNode[] {
+		const args: ASTNode[] = [];
+		this.advance(); // "<"
+		do {
+			const arg = this.parseType();
+			args.push(arg);
+			this.attach(owner, arg);
+		} while (this.match(","));
+		this.expect(">");
+		return args;
+	}
+
+	/**
+	 * var name: Type = initializer
+	 * val name = initializer
+	 */
+	private parseVariable(): ASTNode {
+		const keyword = this.advance();
+		const node = this.createNode("variable", "", keyword.start);
+		node.mutable = keyword.value === "var";
+		this.parseName(node, "Expected variable name");
+
+		if (this.match(":")) {
+			node.typeAnnotation = this.parseType();
+			this.attach(node, node.typeAnnotation);
+		}
+
+		if (this.match("=")) {
+			node.initializer = this.parseExpression();
+			this.attach(node, node.initializer);
+		}
+
+		return this.finishNode(node, this.lastEnd());
+	}
+
+	private parseBlock(): ASTNode {
+		const open = this.advance(); // "{"
+		const startLine = this.lineIndex.positionAt(open.start).line;
+		const node = this.createNode("block", `block_${startLine}`, open.start);
+
+		while (!this.isAtEnd() && !this.check("}")) {
+			this.parseStatementInto(node);
+		}
+		this.expectClosingBrace(open);
+
+		return this.finishNode(node, this.lastEnd());
+	}
+
+	/**
+	 * Body of if / while / for: either a block or a single statement.
+	 */
+	private parseBranch(): ASTNode | undefined {
+		if (this.check("{")) {
+			return this.parseBlock();
+		}
+		if (this.isAtEnd() || this.check("}")) {
+			this.errorAtToken(this.peek(), "Expected statement");
+			return undefined;
+		}
+		return this.parseStatement() ?? undefined;
+	}
+
+	private parseIf(): ASTNode {
+		const keyword = this.advance();
+		const node = this.createNode("if", "if", keyword.start);
+
+		node.condition = this.parseExpression();
+		this.attach(node, node.condition);
+
+		node.thenBranch = this.parseBranch();
+		if (node.thenBranch) {
+			this.attach(node, node.thenBranch);
+		}
+
+		if (this.match("else")) {
+			node.elseBranch = this.check("if") ? this.parseIf() : this.parseBranch();
+			if (node.elseBranch) {
+				this.attach(node, node.elseBranch);
+			}
+		}
+
+		return this.finishNode(node, this.lastEnd());
+	}
+
+	private parseWhile(): ASTNode {
+		const keyword = this.advance();
+		const node = this.createNode("while", "while", keyword.start);
+
+		node.condition = this.parseExpression();
+		this.attach(node, node.condition);
+
+		node.body = this.parseBranch();
+		if (node.body) {
+			this.attach(node, node.body);
+		}
+
+		return this.finishNode(node, this.lastEnd());
+	}
+
+	/**
+	 * for (name in iterable) body
+	 */
+	private parseFor(): ASTNode {
+		const keyword = this.advance();
+		const node = this.createNode("for", "for", keyword.start);
+		const parenthesized = this.match("(");
+
+		const token = this.peek();
+		if (token.kind === "identifier" && this.peek(1).value === "in") {
+			const iterator = this.createNode("variable", "", token.start);
+			iterator.mutable = false;
+			this.parseName(iterator);
+			node.iterator = this.finishNode(iterator, token.end);
+			this.attach(node, iterator);
+			this.advance(); // "in"
+		} else {
+			this.errorAtToken(token, "Expected loop variable followed by 'in'");
+		}
+
+		node.expression = this.parseExpression();
+		this.attach(node, node.expression);
+
+		if (parenthesized) {
+			this.expect(")");
+		}
+
+		node.body = this.parseBranch();
+		if (node.body) {
+			this.attach(node, node.body);
+		}
+
+		return this.finishNode(node, this.lastEnd());
+	}
+
+	private parseReturn(): ASTNode {
+		const keyword = this.advance();
+		const node = this.createNode("return", "return", keyword.start);
+
+		const next = this.peek();
+		if (
+			!next.newlineBefore &&
+			!this.isAtEnd() &&
+			!this.check("}") &&
+			!this.check(";")
+		) {
+			node.expression = this.parseExpression();
+			this.attach(node, node.expression);
+		}
+
+		return this.finishNode(node, this.lastEnd());
+	}
+
+	/**
+	 * expression
+	 * target = value
+	 */
+	private parseExpressionStatement(): ASTNode {
+		const expression = this.parseExpression();
+		const next = this.peek();
+
+		if (
+			next.kind === "operator" &&
+			ASSIGNMENT_OPERATORS.has(next.value) &&
+			!next.newlineBefore
+		) {
+			this.advance();
+			const node = this.createNode(
+				"assignment",
+				"",
+				expression.range.start.offset,
+			);
+			node.operator = next.value;
+			node.name = expression.kind === "identifier" ? expression.name : "";
+			node.left = expression;
+			node.right = this.parseExpression();
+			this.attach(node, node.left);
+			this.attach(node, node.right);
+			return this.finishNode(node, this.lastEnd());
+		}
+
+		const node = this.createNode(
+			"expression",
+			"",
+			expression.range.start.offset,
+		);
+		node.expression = expression;
+		this.attach(node, expression);
+		return this.finishNode(node, expression.range.end.offset);
+	}
+
+	// ---------------------------------------------------------------------
+	// Expressions
+	// ---------------------------------------------------------------------
+
+	private parseExpression(): ASTNode {
+		return this.parseBinary(0);
+	}
+
+	private parseBinary(level: number): ASTNode {
+		if (level >= BINARY_PRECEDENCE.length) {
+			return this.parseUnary();
+		}
+
+		let left = this.parseBinary(level + 1);
+		for (;;) {
+			const token = this.peek();
+			if (
+				token.kind !== "operator" ||
+				token.newlineBefore ||
+				!BINARY_PRECEDENCE[level].includes(token.value)
+			) {
+				return left;
+			}
+			this.advance();
+
+			const right = this.parseBinary(level + 1);
+			const node = this.createNode(
+				"binary",
+				token.value,
+				left.range.start.offset,
+			);
+			node.operator = token.value;
+			node.left = left;
+			node.right = right;
+			this.attach(node, left);
+			this.attach(node, right);
+			left = this.finishNode(node, right.range.end.offset);
+		}
+	}
+
+	private parseUnary(): ASTNode {
+		const token = this.peek();
+		if (token.kind === "operator" && UNARY_OPERATORS.has(token.value)) {
+			this.advance();
+			const operand = this.parseUnary();
+			const node = this.createNode("unary", token.value, token.start);
+			node.operator = token.value;
+			node.expression = operand;
+			this.attach(node, operand);
+			return this.finishNode(node, operand.range.end.offset);
+		}
+		return this.parsePostfix();
+	}
+
+	private parsePostfix(): ASTNode {
+		let expr = this.parsePrimary();
+
+		for (;;) {
+			const token = this.peek();
+
+			// Member access may continue on the next line (method chains)
+			if (token.value === "." && token.kind === "operator") {
+				this.advance();
+				const nameToken = this.peek();
+				const node = this.createNode("member", "", expr.range.start.offset);
+				node.object = expr;
+				this.attach(node, expr);
+				if (nameToken.kind === "identifier" || nameToken.kind === "keyword") {
+					this.advance();
+					node.name = nameToken.value;
+					node.nameRange = this.rangeOf(nameToken.start, nameToken.end);
+				} else {
+					this.errorAtToken(nameToken, "Expected member name after '.'");
+				}
+				expr = this.finishNode(node, this.lastEnd());
+				continue;
+			}
+
+			// Calls and indexing must start on the same line
+			if (token.newlineBefore) {
+				return expr;
+			}
+
+			if (token.value === "(" && token.kind === "punctuation") {
+				expr = this.parseCall(expr);
+				continue;
+			}
+
+			if (token.value === "[" && token.kind === "punctuation") {
+				this.advance();
+				const node = this.createNode("index", "", expr.range.start.offset);
+				node.object = expr;
+				this.attach(node, expr);
+				const index = this.parseExpression();
+				node.args = [index];
+				this.attach(node, index);
+				this.expect("]");
+				expr = this.finishNode(node, this.lastEnd());
+				continue;
+			}
+
+			return expr;
+		}
+	}
+
+	private parseCall(callee: ASTNode): ASTNode {
+		this.advance(); // "("
+		const node = this.createNode("call", "", callee.range.start.offset);
+		node.name =
+			callee.kind === "identifier" || callee.kind === "member"
+				? callee.name
+				: "";
+		node.nameRange = callee.nameRange;
+		node.callee = callee;
+		node.args = [];
+		this.attach(node, callee);
+
+		while (!this.isAtEnd() && !this.check(")")) {
+			const arg = this.parseExpression();
+			node.args.push(arg);
+			this.attach(node, arg);
+			if (!this.match(",")) {
+				break;
+			}
+		}
+		this.expect(")");
+
+		return this.finishNode(node, this.lastEnd());
+	}
+
+	private parsePrimary(): ASTNode {
+		const token = this.peek();
+
+		switch (token.kind) {
+			case "number": {
+				this.advance();
+				const node = this.createNode("number", token.value, token.start);
+				node.value = token.value;
+				return this.finishNode(node, token.end);
+			}
+			case "string":
+				this.advance();
+				return this.parseStringLiteral(token);
+			case "char": {
+				this.advance();
+				const node = this.createNode("char", token.value, token.start);
+				node.value = token.value;
+				return this.finishNode(node, token.end);
+			}
+			case "keyword":
+				if (token.value === "true" || token.value === "false") {
+					this.advance();
+					const node = this.createNode("boolean", token.value, token.start);
+					node.value = token.value;
+					return this.finishNode(node, token.end);
+				}
+				if (token.value === "null") {
+					this.advance();
+					const node = this.createNode("null", token.value, token.start);
+					return this.finishNode(node, token.end);
+				}
+				break;
+			case "identifier":
+				return this.parseIdentifier();
+			case "punctuation":
+				if (token.value === "(") {
+					this.advance();
+					const inner = this.parseExpression();
+					this.expect(")");
+					return inner;
+				}
+				break;
+		}
+
+		this.errorAtToken(
+			token,
+			`Expected expression but found ${describe(token)}`,
+		);
+		return this.missingNode("identifier");
+	}
+
+	private parseIdentifier(): ASTNode {
+		const token = this.advance();
+		const node = this.createNode("identifier", token.value, token.start);
+		node.nameRange = this.rangeOf(token.start, token.end);
+
+		// Generic type used as a receiver: List<Int>.new()
+		if (this.check("<") && !this.peek().newlineBefore) {
+			const saved = this.index;
+			const savedDiagnostics = this.diagnostics.length;
+			const typeArgs = this.tryParseTypeArguments(node);
+			if (typeArgs && this.check(".")) {
+				node.typeArgs = typeArgs;
+			} else {
+				this.index = saved;
+				this.diagnostics.length = savedDiagnostics;
+				node.children = [];
+			}
+		}
+
+		return this.finishNode(node, this.lastEnd());
+	}
+
+	/**
+	 * Speculatively parse "<T, U>" in expression position. Returns null when
+	 * the tokens are not a well-formed type argument list (e.g. "a < b").
+	 */
+	private tryParseTypeArguments(owner: ASTNode): ASTNode[] | null {
+		const args: ASTNode[] = [];
+		this.advance(); // "<"
+		for (;;) {
+			if (this.peek().kind !== "identifier") {
+				return null;
+			}
+			const arg = this.parseType();
+			args.push(arg);
+			this.attach(owner, arg);
+			if (this.match(">")) {
+				return args;
+			}
+			if (!this.match(",")) {
+				return null;
+			}
+		}
+	}
+
+	/**
+	 * String literals keep their interpolated expressions as children.
+	 */
+	private parseStringLiteral(token: Token): ASTNode {
+		const node = this.createNode("string", token.value, token.start);
+		node.value = token.value;
+		for (const part of token.parts ?? []) {
+			if (part.kind === "expression") {
+				const expr = this.parseInterpolation(part);
+				if (expr) {
+					this.attach(node, expr);
+				}
+			}
+		}
+		return this.finishNode(node, token.end);
+	}
+
+	private parseInterpolation(part: StringPart): ASTNode | null {
+		const savedTokens = this.tokens;
+		const savedIndex = this.index;
+
+		const lexer = new Lexer(this.text, part.start, part.end);
+		this.tokens = lexer.tokenize();
+		this.index = 0;
+		this.reportLexerErrors(lexer.errors);
+
+		let expr: ASTNode | null = null;
+		if (this.isAtEnd()) {
+			this.error("Empty string interpolation", part.start - 2, part.end + 1);
+		} else {
+			expr = this.parseExpression();
+			if (!this.isAtEnd()) {
+				this.errorAtToken(
+					this.peek(),
+					`Unexpected ${describe(this.peek())} in string interpolation`,
+				);
+			}
+		}
+
+		this.tokens = savedTokens;
+		this.index = savedIndex;
+		return expr;
+	}
+
+	// ---------------------------------------------------------------------
+	// Helpers
+	// ---------------------------------------------------------------------
+
+	private parseName(node: ASTNode, message = "Expected name"): void {
+		const token = this.peek();
+		if (token.kind === "identifier") {
+			this.advance();
+			node.name = token.value;
+			node.nameRange = this.rangeOf(token.start, token.end);
+			node.line = node.nameRange.start.line;
+		} else {
+			this.errorAtToken(token, `${message} but found ${describe(token)}`);
+		}
+	}
+
+	private expectClosingBrace(open: Token): void {
+		if (!this.match("}")) {
+			this.error("'{' is never closed; expected '}'", open.start, open.end);
+		}
+	}
+
+	private expect(value: string): boolean {
+		if (this.match(value)) {
+			return true;
+		}
+		this.errorAtToken(
+			this.peek(),
+			`Expected '${value}' but found ${describe(this.peek())}`,
+		);
+		return false;
+	}
+
+	private error(message: string, start: number, end: number): void {
+		// One error per location is enough; follow-up errors at the same
+		// spot are almost always caused by the first one
+		if (this.diagnostics.some((d) => d.range.start.offset === start)) {
+			return;
+		}
+		this.diagnostics.push({
+			message,
+			range: this.rangeOf(start, end),
+			severity: "error",
+		});
+	}
+
+	/**
+	 * Report an error at a token. When the token starts a new line (i.e. the
+	 * problem is something missing at the end of the previous line) the
+	 * error is placed right after the previous token instead.
+	 */
+	private errorAtToken(token: Token, message: string): void {
+		if ((token.newlineBefore || token.kind === "eof") && this.index > 0) {
+			const end = this.lastEnd();
+			this.error(message, end, end);
+			return;
+		}
+		this.error(message, token.start, token.end);
+	}
+
+	private isLexerError(
+		diagnostic: AnalysisDiagnostic,
+		offsetDelta: number,
+	): boolean {
+		const start = diagnostic.range.start.offset + offsetDelta;
+		return this.lexerErrors.some(
+			(error) => error.start === start && error.message === diagnostic.message,
+		);
+	}
+
+	private reportLexerErrors(errors: LexerError[]): void {
+		for (const error of errors) {
+			this.error(error.message, error.start, error.end);
+		}
+	}
+
+	private createNode(kind: NodeKind, name: string, start: number): ASTNode {
+		const range = this.rangeOf(start, start);
+		return {
+			kind,
+			name,
+			line: range.start.line,
+			startLine: range.start.line,
+			endLine: range.start.line,
+			children: [],
+			parent: null,
+			range,
+		};
+	}
+
+	private finishNode(node: ASTNode, end: number): ASTNode {
+		node.range = this.rangeOf(
+			node.range.start.offset,
+			Math.max(end, node.range.start.offset),
+		);
+		node.endLine = node.range.end.line;
+		return node;
+	}
+
+	/**
+	 * Placeholder for a missing expression or type, so that callers never
+	 * have to deal with absent operands.
+	 */
+	private missingNode(kind: NodeKind): ASTNode {
+		const start = this.peek().start;
+		return this.finishNode(this.createNode(kind, "", start), start);
+	}
+
+	private attach(parent: ASTNode, child: ASTNode): void {
+		child.parent = parent;
+		parent.children.push(child);
+	}
+
+	private rangeOf(start: number, end: number): SourceRange {
+		return {
+			start: this.lineIndex.positionAt(start),
+			end: this.lineIndex.positionAt(end),
+		};
+	}
+
+	private peek(ahead = 0): Token {
+		return this.tokens[Math.min(this.index + ahead, this.tokens.length - 1)];
+	}
+
+	private advance(): Token {
+		const token = this.peek();
+		if (this.index < this.tokens.length - 1) {
+			this.index++;
+		}
+		return token;
+	}
+
+	private lastEnd(): number {
+		return this.index > 0 ? this.tokens[this.index - 1].end : 0;
+	}
+
+	private isAtEnd(): boolean {
+		return this.peek().kind === "eof";
+	}
+
+	private check(value: string): boolean {
+		const token = this.peek();
+		return (
+			token.kind !== "string" && token.kind !== "eof" && token.value === value
+		);
+	}
+
+	private match(value: string): boolean {
+		if (this.check(value)) {
+			this.advance();
+			return true;
+		}
+		return false;
+	}
+}
+
+function describe(token: Token): string {
+	return token.kind === "eof" ? "end of file" : `'${token.value}'`;
+}
+
+/**
+ * The keyword a declaration starts with.
+ */
+function startKeyword(declaration: ASTNode): string {
+	if (declaration.kind === "function") {
+		return declaration.isIo ? "io" : "fun";
+	}
+	return declaration.kind;
+}
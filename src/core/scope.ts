@@ -0,0 +1,334 @@
+import {
+	type ASTNode,
+	findNodeAt,
+	type SymbolInfo,
+	type SymbolKind,
+	walk,
+} from "./ast";
+import type { TypeInfo } from "./inference";
+
+/**
+ * Type of an expression, e.g. InferenceEngine.typeOf with the types of the
+ * AST the expression belongs to.
+ */
+export type TypeOf = (expr: ASTNode) => TypeInfo;
+
+// Nodes that introduce a lexical scope
+const SCOPE_KINDS = new Set([
+	"program",
+	"class",
+	"actor",
+	"function",
+	"block",
+	"for",
+]);
+
+// Scopes in which variables are only visible after their declaration
+const ORDERED_SCOPE_KINDS = new Set(["block", "for"]);
+
+export class ScopeResolver {
+	getSymbolsAtLine(ast: ASTNode, line: number): SymbolInfo[] {
+		const symbols = new Map<string, SymbolInfo>();
+		this.collectVisibleSymbols(ast, line, symbols);
+		return [...symbols.values()];
+	}
+
+	private collectVisibleSymbols(
+		node: ASTNode,
+		line: number,
+		symbols: Map<string, SymbolInfo>,
+	): void {
+		// Skip if node doesn't contain cursor position
+		if (line < node.startLine || line > node.endLine) {
+			return;
+		}
+
+		// Traverse child nodes. Symbols of inner scopes are collected later and
+		// therefore shadow outer symbols with the same name.
+		for (const child of node.children) {
+			if (child.kind === "variable" || child.kind === "parameter") {
+				// Variables and parameters are valid throughout their parent scope
+				symbols.set(child.name, {
+					name: child.name,
+					kind: "variable",
+					line: child.line,
+					node: child,
+				});
+			} else if (child.kind === "function") {
+				// Functions are valid throughout their parent scope
+				symbols.set(child.name, {
+					name: child.name,
+					kind: "function",
+					line: child.line,
+					node: child,
+				});
+			} else if (child.kind === "class" || child.kind === "actor") {
+				// Classes/actors are globally accessible
+				symbols.set(child.name, {
+					name: child.name,
+					kind: "class",
+					line: child.line,
+					node: child,
+				});
+			}
+
+			// Traverse nested scopes
+			this.collectVisibleSymbols(child, line, symbols);
+		}
+	}
+
+	/**
+	 * Resolve an identifier node to the declaration it refers to, following
+	 * the chain of enclosing scopes outwards.
+	 */
+	resolve(identifier: ASTNode): ASTNode | null {
+		if (!identifier.name) {
+			return null;
+		}
+		return this.lookup(
+			identifier.name,
+			identifier,
+			identifier.range.start.offset,
+		);
+	}
+
+	/**
+	 * Find the declaration named `name` that is visible from `from` at the
+	 * given offset.
+	 */
+	lookup(name: string, from: ASTNode, offset: number): ASTNode | null {
+		for (let scope = from.parent; scope; scope = scope.parent) {
+			if (!SCOPE_KINDS.has(scope.kind)) {
+				continue;
+			}
+			const declaration = this.findInScope(scope, name, offset);
+			if (declaration) {
+				return declaration;
+			}
+		}
+		return null;
+	}
+
+	private findInScope(
+		scope: ASTNode,
+		name: string,
+		offset: number,
+	): ASTNode | null {
+		const ordered = ORDERED_SCOPE_KINDS.has(scope.kind);
+		let found: ASTNode | null = null;
+
+		for (const child of scope.children) {
+			if (child.name !== name) {
+				continue;
+			}
+			switch (child.kind) {
+				case "variable":
+					// A variable is not visible inside its own initializer
+					if (!ordered || child.range.end.offset <= offset) {
+						found = child;
+					}
+					break;
+				case "parameter":
+				case "function":
+				case "class":
+				case "actor":
+					found = child;
+					break;
+			}
+		}
+
+		return found;
+	}
+
+	/**
+	 * Resolve a member access such as `p.sum` or `p.x` to the function or
+	 * field of the receiver's class or actor.
+	 */
+	resolveMember(member: ASTNode, typeOf: TypeOf): ASTNode | null {
+		if (member.kind !== "member" || !member.object || !member.name) {
+			return null;
+		}
+		const receiver = typeOf(member.object).declaration;
+		return receiver ? findMember(receiver, member.name) : null;
+	}
+
+	/**
+	 * Resolve a type name (e.g. in an annotation) to the class or actor that
+	 * declares it.
+	 */
+	resolveType(name: string, from: ASTNode): ASTNode | null {
+		const declaration = this.lookup(name, from, from.range.start.offset);
+		if (declaration?.kind === "class" || declaration?.kind === "actor") {
+			return declaration;
+		}
+		return null;
+	}
+
+	/**
+	 * Get the definition of the symbol at the given offset, resolved by
+	 * lexical scope. Works on references (identifiers and type names) and on
+	 * the names of declarations themselves, and with `typeOf` on the names
+	 * of members accessed through a receiver.
+	 */
+	getDefinition(ast: ASTNode, offset: number, typeOf?: TypeOf): ASTNode | null {
+		const node = findNodeAt(ast, offset);
+		if (!node) {
+			return null;
+		}
+
+		if (node.kind === "identifier") {
+			return this.resolve(node);
+		}
+
+		if (node.kind === "member") {
+			return typeOf && inName(node, offset)
+				? this.resolveMember(node, typeOf)
+				: null;
+		}
+
+		if (node.kind === "typeRef") {
+			return this.resolveType(node.name, node);
+		}
+
+		if (inName(node, offset) && isDeclaration(node)) {
+			return node;
+		}
+
+		return null;
+	}
+
+	/**
+	 * Find every reference bound to the given declaration in the same file,
+	 * including the declaration itself. Same-named symbols that resolve to a
+	 * different declaration (shadowing, other functions) are excluded.
+	 * Accesses to fields and functions through a receiver, like `p.sum()`,
+	 * are found with `typeOf`.
+	 */
+	findReferences(
+		ast: ASTNode,
+		declaration: ASTNode,
+		typeOf?: TypeOf,
+	): ASTNode[] {
+		const references: ASTNode[] = [declaration];
+		walk(ast, (node) => {
+			if (node.name !== declaration.name) {
+				return;
+			}
+			if (node.kind === "identifier" && this.resolve(node) === declaration) {
+				references.push(node);
+			} else if (
+				node.kind === "member" &&
+				typeOf &&
+				this.resolveMember(node, typeOf) === declaration
+			) {
+				references.push(node);
+			} else if (
+				node.kind === "typeRef" &&
+				this.resolveType(node.name, node) === declaration
+			) {
+				references.push(node);
+			}
+		});
+		return references;
+	}
+
+	/**
+	 * Find references to a global declaration from another file: identifiers
+	 * and type names with the same name that no declaration in that file
+	 * captures.
+	 */
+	findExternalReferences(ast: ASTNode, name: string): ASTNode[] {
+		const references: ASTNode[] = [];
+		walk(ast, (node) => {
+			if (node.name !== name) {
+				return;
+			}
+			if (
+				(node.kind === "identifier" && !this.resolve(node)) ||
+				(node.kind === "typeRef" &&
+					!this.lookup(name, node, node.range.start.offset))
+			) {
+				references.push(node);
+			}
+		});
+		return references;
+	}
+}
+
+/**
+ * Whether an offset is on the name of a node, e.g. `sum` in `p.sum`.
+ */
+function inName(node: ASTNode, offset: number): boolean {
+	return (
+		node.nameRange !== undefined &&
+		offset >= node.nameRange.start.offset &&
+		offset <= node.nameRange.end.offset
+	);
+}
+
+/**
+ * Top-level classes, actors and functions are visible from every file.
+ */
+export function isGlobalDeclaration(node: ASTNode): boolean {
+	return (
+		node.parent?.kind === "program" &&
+		(node.kind === "class" || node.kind === "actor" || node.kind === "function")
+	);
+}
+
+/**
+ * Global declarations of the other files of a program by name, as
+ * "function" or "class" (for classes and actors).
+ */
+export type GlobalNames = ReadonlyMap<string, SymbolKind>;
+
+/**
+ * Add the global declarations of a file to `names`.
+ */
+export function collectGlobalNames(
+	ast: ASTNode,
+	names: Map<string, SymbolKind>,
+): void {
+	for (const node of ast.children) {
+		if (isGlobalDeclaration(node) && node.name) {
+			names.set(node.name, node.kind === "function" ? "function" : "class");
+		}
+	}
+}
+
+export function isDeclaration(node: ASTNode): boolean {
+	switch (node.kind) {
+		case "variable":
+		case "parameter":
+		case "function":
+		case "class":
+		case "actor":
+			return true;
+		default:
+			return false;
+	}
+}
+
+/**
+ * Fields of a class or actor: member variables and constructor parameters
+ * declared with val or var.
+ */
+export function isField(node: ASTNode): boolean {
+	return (
+		(node.parent?.kind === "class" || node.parent?.kind === "actor") &&
+		(node.kind === "variable" ||
+			(node.kind === "parameter" && node.mutable !== undefined))
+	);
+}
+
+/**
+ * Find the field or function named `name` in a class or actor.
+ */
+export function findMember(type: ASTNode, name: string): ASTNode | null {
+	return (
+		type.children.find(
+			(child) =>
+				child.name === name && (child.kind === "function" || isField(child)),
+		) ?? null
+	);
+}
@@ -0,0 +1,54 @@
+// Most names suggested for one misspelled name
+const MAX_SUGGESTIONS = 3;
+
+/**
+ * Names close enough to `name` to be what was meant, closest first.
+ */
+export function suggestNames(name: string, candidates: string[]): string[] {
+	const maxDistance = Math.max(1, Math.floor(name.length / 3));
+	return [...new Set(candidates)]
+		.map((candidate) => ({
+			candidate,
+			distance: editDistance(name.toLowerCase(), candidate.toLowerCase()),
+		}))
+		.filter(
+			({ candidate, distance }) =>
+				candidate !== "" && candidate !== name && distance <= maxDistance,
+		)
+		.sort(
+			(a, b) =>
+				a.distance - b.distance || a.candidate.localeCompare(b.candidate),
+		)
+		.slice(0, MAX_SUGGESTIONS)
+		.map(({ candidate }) => candidate);
+}
+
+/**
+ * Number of single-character insertions, deletions, substitutions and
+ * transpositions of adjacent characters turning `a` into `b`.
+ */
+function editDistance(a: string, b: string): number {
+	// rows[i][j]: distance between the first i characters of a and the
+	// first j characters of b
+	const rows: number[][] = [];
+	for (let i = 0; i <= a.length; i++) {
+		rows.push([i]);
+	}
+	for (let j = 1; j <= b.length; j++) {
+		rows[0][j] = j;
+	}
+	for (let i = 1; i <= a.length; i++) {
+		for (let j = 1; j <= b.length; j++) {
+			const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+			rows[i][j] = Math.min(
+				rows[i - 1][j] + 1,
+				rows[i][j - 1] + 1,
+				rows[i - 1][j - 1] + cost,
+			);
+			if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+				rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 1);
+			}
+		}
+	}
+	return rows[a.length][b.length];
+}
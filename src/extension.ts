@@ -1,38 +1,53 @@
 // The module 'vscode' contains the VS Code extensibility API
 // Import the module and reference it with the alias vscode in your code below
 import * as vscode from "vscode";
-import Completion from "./completion";
-import Hover from "./hover";
-import { DocumentInferenceService } from "./inferenceService";
-import Inlay from "./inlay";
+import {
+	LanguageClient,
+	type LanguageClientOptions,
+	type ServerOptions,
+	TransportKind,
+} from "vscode-languageclient/node";
+
+let client: LanguageClient | undefined;
 
 // This method is called when your extension is activated
 // Your extension is activated the very first time the command is executed
 export function activate(context: vscode.ExtensionContext) {
 	console.log("synotra-vscode is now active! YATTAZE!");
 
-	// Create a shared inference service for all providers
-	const inferenceService = new DocumentInferenceService();
-	context.subscriptions.push(inferenceService);
+	// All language features are provided by the Synotra language server,
+	// which other editors can run on their own
+	const serverModule = context.asAbsolutePath("dist/server.js");
+	const serverOptions: ServerOptions = {
+		run: { module: serverModule, transport: TransportKind.stdio },
+		debug: {
+			module: serverModule,
+			transport: TransportKind.stdio,
+			options: { execArgv: ["--nolazy", "--inspect=6009"] },
+		},
+	};
 
-	const completionProvider = vscode.languages.registerCompletionItemProvider(
-		"synotra",
-		new Completion(inferenceService),
-	);
-	context.subscriptions.push(completionProvider);
+	const clientOptions: LanguageClientOptions = {
+		documentSelector: [
+			{ scheme: "file", language: "synotra" },
+			{ scheme: "untitled", language: "synotra" },
+		],
+		synchronize: {
+			// Keep the server's workspace index up to date
+			fileEvents: vscode.workspace.createFileSystemWatcher("**/*.sy"),
+		},
+	};
 
-	const hover = vscode.languages.registerHoverProvider(
+	client = new LanguageClient(
 		"synotra",
-		new Hover(inferenceService),
+		"Synotra Language Server",
+		serverOptions,
+		clientOptions,
 	);
-	context.subscriptions.push(hover);
-
-	const inlay = vscode.languages.registerInlayHintsProvider(
-		"synotra",
-		new Inlay(inferenceService),
-	);
-	context.subscriptions.push(inlay);
+	client.start();
 }
 
 // This method is called when your extension is deactivated
-export function deactivate() {}
+export function deactivate(): Thenable<void> | undefined {
+	return client?.stop();
+}
@@ -0,0 +1,377 @@
+import * as path from "node:path";
+import { Worker } from "node:worker_threads";
+import type { Disposable } from "vscode-languageserver";
+import type { AnalysisResult } from "../core/analyzer";
+import type { ASTNode } from "../core/ast";
+import { type AnalysisRequest, DocumentAnalyzer } from "./documentAnalyzer";
+import { type EncodedResult, ResultDecoder } from "./resultTransfer";
+import {
+	type FileReferences,
+	type IndexListener,
+	WorkspaceFiles,
+} from "./workspaceFiles";
+
+/**
+ * Where documents are analyzed and the files of the workspace are read and
+ * parsed: in a worker thread, so that the server keeps answering requests
+ * while a large file is analyzed, or in process.
+ */
+export interface AnalysisHost extends Disposable {
+	/**
+	 * Analyze a document. Resolves to null when a request for a newer
+	 * version of the document replaced this one before it was analyzed.
+	 */
+	analyze(request: AnalysisRequest): Promise<AnalysisResult | null>;
+	forget(uri: string): void;
+
+	/**
+	 * Index the Synotra files below the given folder paths. Resolves once
+	 * every file found has been reported to the index listener.
+	 */
+	scanFolders(folders: string[]): Promise<void>;
+	/** Read a file of the workspace again and report its outline. */
+	indexFile(uri: string): void;
+	/** Drop a deleted file of the workspace. */
+	removeFile(uri: string): void;
+	setIndexListener(listener: IndexListener): void;
+	/**
+	 * Find a global name in the indexed files, except those in `exclude`.
+	 */
+	findReferences(name: string, exclude: string[]): Promise<FileReferences[]>;
+}
+
+// Messages from the server to the analysis worker
+export type WorkerRequest =
+	| { kind: "analyze"; id: number; request: AnalysisRequest }
+	| { kind: "forget"; uri: string }
+	| { kind: "scan"; id: number; folders: string[] }
+	| { kind: "index"; uri: string }
+	| { kind: "unindex"; uri: string }
+	| { kind: "references"; id: number; name: string; exclude: string[] };
+
+// Messages from the analysis worker: a reply to each "analyze", "scan" and
+// "references" message, and the outline of each file indexed
+export type WorkerResponse =
+	| { kind: "analyzed"; id: number; uri: string; result: EncodedResult }
+	| { kind: "failed"; id: number; error: string }
+	| { kind: "indexed"; uri: string; outline: ASTNode | null }
+	| { kind: "scanned"; id: number }
+	| { kind: "references"; id: number; files: FileReferences[] };
+
+interface QueuedRequest {
+	id: number;
+	request: AnalysisRequest;
+	resolve: (result: AnalysisResult | null) => void;
+	reject: (error: Error) => void;
+	forgotten?: boolean; // the document was closed while it was analyzed
+}
+
+// A "scan" or "references" message waiting for its reply
+interface PendingCall {
+	resolve: (response: WorkerResponse) => void;
+	reject: (error: Error) => void;
+}
+
+/**
+ * Analyzes documents on the calling thread. Used by tests and by clients
+ * that start the server with --in-process-analysis.
+ */
+export class InProcessAnalysisHost implements AnalysisHost {
+	private listener: IndexListener = () => {};
+	private files = new WorkspaceFiles((uri, outline) => {
+		this.listener(uri, outline);
+	});
+	private analyzer = new DocumentAnalyzer(this.files);
+
+	analyze(request: AnalysisRequest): Promise<AnalysisResult | null> {
+		try {
+			return Promise.resolve(this.analyzer.analyze(request));
+		} catch (error) {
+			return Promise.reject(error);
+		}
+	}
+
+	forget(uri: string): void {
+		this.analyzer.forget(uri);
+	}
+
+	scanFolders(folders: string[]): Promise<void> {
+		return this.files.scan(folders);
+	}
+
+	indexFile(uri: string): void {
+		this.files.update(uri);
+	}
+
+	removeFile(uri: string): void {
+		this.files.remove(uri);
+	}
+
+	setIndexListener(listener: IndexListener): void {
+		this.listener = listener;
+	}
+
+	findReferences(name: string, exclude: string[]): Promise<FileReferences[]> {
+		return this.files.findReferences(name, exclude);
+	}
+
+	dispose() {}
+}
+
+/**
+ * Analyzes documents in a worker thread, one request at a time in the
+ * order they were made. While the worker is busy, a newer request for a
+ * document replaces the one waiting for it, so that the worker catches up
+ * with typing instead of analyzing every keystroke. The worker is started
+ * on the first request and started again on the next one if it crashes,
+ * scanning the workspace folders again.
+ *
+ * Results are posted as the worker encodes them, against the previous
+ * result of the same document; see ResultEncoder.
+ */
+export class WorkerAnalysisHost implements AnalysisHost {
+	private worker: Worker | undefined;
+	private nextId = 0;
+	private running: QueuedRequest | undefined; // sent to the worker
+	private queue: QueuedRequest[] = [];
+	private pending = new Map<number, PendingCall>(); // by message id
+	private decoder = new ResultDecoder();
+	private folders: string[] | undefined; // scanned workspace folders
+	private listener: IndexListener = () => {};
+
+	constructor(
+		// The worker is bundled next to the server
+		private workerPath = path.join(__dirname, "analysisWorker.js"),
+	) {}
+
+	analyze(request: AnalysisRequest): Promise<AnalysisResult | null> {
+		return new Promise((resolve, reject) => {
+			const index = this.queue.findIndex((q) => q.request.uri === request.uri);
+			if (index !== -1) {
+				const [replaced] = this.queue.splice(index, 1);
+				replaced.resolve(null);
+				request = combineRequests(replaced.request, request);
+			}
+			this.queue.push({ id: this.nextId++, request, resolve, reject });
+			this.sendNext();
+		});
+	}
+
+	forget(uri: string): void {
+		this.queue = this.queue.filter((queued) => {
+			if (queued.request.uri === uri) {
+				queued.resolve(null);
+			}
+			return queued.request.uri !== uri;
+		});
+		// The result being analyzed is still encoded against the previous one
+		if (this.running?.request.uri === uri) {
+			this.running.forgotten = true;
+		} else {
+			this.decoder.forget(uri);
+		}
+		// A new worker starts without any documents
+		if (this.worker) {
+			this.post(this.worker, { kind: "forget", uri });
+		}
+	}
+
+	async scanFolders(folders: string[]): Promise<void> {
+		const worker = this.activeWorker();
+		this.folders = folders;
+		await this.call(worker, { kind: "scan", id: this.nextId++, folders });
+	}
+
+	indexFile(uri: string): void {
+		this.post(this.activeWorker(), { kind: "index", uri });
+	}
+
+	removeFile(uri: string): void {
+		this.post(this.activeWorker(), { kind: "unindex", uri });
+	}
+
+	setIndexListener(listener: IndexListener): void {
+		this.listener = listener;
+	}
+
+	async findReferences(
+		name: string,
+		exclude: string[],
+	): Promise<FileReferences[]> {
+		const response = await this.call(this.activeWorker(), {
+			kind: "references",
+			id: this.nextId++,
+			name,
+			exclude,
+		});
+		return response.kind === "references" ? response.files : [];
+	}
+
+	private sendNext(): void {
+		const next = this.running ? undefined : this.queue.shift();
+		if (!next) {
+			return;
+		}
+		this.running = next;
+		this.post(this.activeWorker(), {
+			kind: "analyze",
+			id: next.id,
+			request: next.request,
+		});
+	}
+
+	/**
+	 * Post a "scan" or "references" message and wait for its reply.
+	 */
+	private call(
+		worker: Worker,
+		message: WorkerRequest & { id: number },
+	): Promise<WorkerResponse> {
+		return new Promise((resolve, reject) => {
+			this.pending.set(message.id, { resolve, reject });
+			this.post(worker, message);
+		});
+	}
+
+	private post(worker: Worker, message: WorkerRequest): void {
+		worker.postMessage(message);
+	}
+
+	private activeWorker(): Worker {
+		if (!this.worker) {
+			this.worker = this.startWorker();
+			// A new worker starts without any files
+			if (this.folders) {
+				this.post(this.worker, {
+					kind: "scan",
+					id: this.nextId++,
+					folders: this.folders,
+				});
+			}
+		}
+		return this.worker;
+	}
+
+	private startWorker(): Worker {
+		const worker = new Worker(this.workerPath);
+
+		worker.on("message", (response: WorkerResponse) => {
+			switch (response.kind) {
+				case "indexed":
+					this.listener(response.uri, response.outline);
+					break;
+				case "analyzed":
+				case "failed":
+					if (this.running?.id === response.id) {
+						this.receive(this.running, response);
+						this.sendNext();
+					} else {
+						this.reply(response);
+					}
+					break;
+				default:
+					this.reply(response);
+					break;
+			}
+		});
+
+		worker.on("error", (error) => {
+			console.error(`Analysis worker crashed: ${error.stack ?? error}`);
+		});
+
+		worker.on("exit", (code) => {
+			// Stopped workers have nothing left to answer
+			if (this.worker !== worker) {
+				return;
+			}
+			this.worker = undefined;
+			const error = new Error(`Analysis worker exited with code ${code}`);
+			this.running?.reject(error);
+			this.running = undefined;
+			this.rejectPending(error);
+			this.decoder.clear();
+			this.sendNext();
+		});
+
+		return worker;
+	}
+
+	/**
+	 * Settle the request being analyzed with the worker's reply.
+	 */
+	private receive(request: QueuedRequest, response: WorkerResponse): void {
+		this.running = undefined;
+		const { uri } = request.request;
+		if (response.kind === "failed") {
+			request.reject(new Error(response.error));
+		} else if (response.kind === "analyzed") {
+			try {
+				request.resolve(this.decoder.decode(uri, response.result));
+			} catch (error) {
+				// Start over from a result that is not encoded against another
+				this.decoder.forget(uri);
+				if (this.worker) {
+					this.post(this.worker, { kind: "forget", uri });
+				}
+				request.reject(error as Error);
+			}
+		}
+		if (request.forgotten) {
+			this.decoder.forget(uri);
+		}
+	}
+
+	private reply(response: WorkerResponse): void {
+		if (!("id" in response)) {
+			return;
+		}
+		const call = this.pending.get(response.id);
+		if (!call) {
+			return;
+		}
+		this.pending.delete(response.id);
+		if (response.kind === "failed") {
+			call.reject(new Error(response.error));
+		} else {
+			call.resolve(response);
+		}
+	}
+
+	private rejectPending(error: Error): void {
+		for (const call of this.pending.values()) {
+			call.reject(error);
+		}
+		this.pending.clear();
+	}
+
+	dispose() {
+		const error = new Error("Analysis worker stopped");
+		for (const request of [this.running, ...this.queue]) {
+			request?.reject(error);
+		}
+		this.running = undefined;
+		this.queue = [];
+		this.rejectPending(error);
+		this.worker?.terminate();
+		this.worker = undefined;
+	}
+}
+
+/**
+ * A request that stands for an older one and a newer one of the same
+ * document. The edits of both are kept when they follow on from each
+ * other, so that the document can still be reparsed incrementally.
+ */
+function combineRequests(
+	older: AnalysisRequest,
+	newer: AnalysisRequest,
+): AnalysisRequest {
+	if (newer.baseVersion !== older.version) {
+		return newer;
+	}
+	return {
+		...newer,
+		baseVersion: older.baseVersion,
+		edits: [...older.edits, ...newer.edits],
+	};
+}
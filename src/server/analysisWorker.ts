@@ -0,0 +1,80 @@
+import { parentPort } from "node:worker_threads";
+import type { WorkerRequest, WorkerResponse } from "./analysisHost";
+import { DocumentAnalyzer } from "./documentAnalyzer";
+import { ResultEncoder } from "./resultTransfer";
+import { WorkspaceFiles } from "./workspaceFiles";
+
+/**
+ * Entry point of the analysis worker started by WorkerAnalysisHost.
+ * Messages are handled one at a time, in the order they were sent; files
+ * are read while other messages are handled.
+ */
+
+const files = new WorkspaceFiles((uri, outline) => {
+	post({ kind: "indexed", uri, outline });
+});
+const analyzer = new DocumentAnalyzer(files);
+const encoder = new ResultEncoder();
+
+parentPort?.on("message", (message: WorkerRequest) => {
+	switch (message.kind) {
+		case "analyze":
+			reply(message.id, () => {
+				const { uri } = message.request;
+				const result = analyzer.analyze(message.request);
+				return {
+					kind: "analyzed",
+					id: message.id,
+					uri,
+					// Only what the previous result of the document lacks is posted
+					result: encoder.encode(uri, result, analyzer.reusedNodes(result)),
+				};
+			});
+			break;
+		case "forget":
+			analyzer.forget(message.uri);
+			encoder.forget(message.uri);
+			break;
+		case "scan":
+			files.scan(message.folders).then(
+				() => post({ kind: "scanned", id: message.id }),
+				(error) => post(failure(message.id, error)),
+			);
+			break;
+		case "index":
+			files.update(message.uri);
+			break;
+		case "unindex":
+			files.remove(message.uri);
+			break;
+		case "references":
+			files.findReferences(message.name, message.exclude).then(
+				(found) => post({ kind: "references", id: message.id, files: found }),
+				(error) => post(failure(message.id, error)),
+			);
+			break;
+	}
+});
+
+function reply(id: number, respond: () => WorkerResponse): void {
+	let response: WorkerResponse;
+	try {
+		response = respond();
+	} catch (error) {
+		response = failure(id, error);
+	}
+	post(response);
+}
+
+function failure(id: number, error: unknown): WorkerResponse {
+	return {
+		kind: "failed",
+		id,
+		error:
+			error instanceof Error ? (error.stack ?? error.message) : String(error),
+	};
+}
+
+function post(response: WorkerResponse): void {
+	parentPort?.postMessage(response);
+}
@@ -0,0 +1,179 @@
+import {
+	type CancellationToken,
+	type CodeAction,
+	type CodeActionContext,
+	CodeActionKind,
+	type Range,
+} from "vscode-languageserver";
+import type { TextDocument } from "vscode-languageserver-textdocument";
+import { type AnalysisDiagnostic, type ASTNode, findNodeAt } from "../core/ast";
+import { isDenotable, type TypeInfo, typeToString } from "../core/inference";
+import { intersects, toDiagnostic, toRange } from "./convert";
+import type { DocumentInferenceService } from "./inferenceService";
+import Refactorings from "./refactorings";
+
+/**
+ * Quick fixes and refactorings:
+ * - the fixes attached by the analyzers to diagnostics in the requested
+ *   range (e.g. add a missing `io` modifier, change `var` to `val`, "Did
+ *   you mean ...?" for a name that is declared nowhere)
+ * - adding the inferred type of a variable as an explicit annotation
+ * - extracting a function or variable and inlining a variable, see
+ *   Refactorings
+ */
+export default class CodeActions {
+	static readonly providedCodeActionKinds = [
+		CodeActionKind.QuickFix,
+		CodeActionKind.RefactorRewrite,
+		CodeActionKind.RefactorExtract,
+		CodeActionKind.RefactorInline,
+	];
+
+	private refactorings: Refactorings;
+
+	constructor(private inferenceService: DocumentInferenceService) {
+		this.refactorings = new Refactorings(inferenceService);
+	}
+
+	async provideCodeActions(
+		document: TextDocument,
+		range: Range,
+		context: CodeActionContext,
+		token: CancellationToken,
+	): Promise<CodeAction[]> {
+		const result = await this.inferenceService.getInferenceResult(
+			document,
+			token,
+		);
+		const actions: CodeAction[] = [];
+		if (!result) {
+			return actions;
+		}
+
+		const { ast, types, diagnostics } = result;
+		const node = findNodeAt(ast, document.offsetAt(range.start));
+
+		if (isRequested(context, CodeActionKind.QuickFix)) {
+			actions.push(...this.getDiagnosticFixes(document, diagnostics, range));
+		}
+
+		if (isRequested(context, CodeActionKind.RefactorRewrite) && node) {
+			const annotation = this.getAddTypeAnnotation(document, node, types);
+			if (annotation) {
+				actions.push(annotation);
+			}
+		}
+
+		if (isRequested(context, CodeActionKind.RefactorExtract)) {
+			const extractFunction = this.refactorings.provideExtractFunction(
+				document,
+				range,
+				result,
+			);
+			const extractVariable = this.refactorings.provideExtractVariable(
+				document,
+				range,
+				result,
+			);
+			for (const action of [extractFunction, extractVariable]) {
+				if (action) {
+					actions.push(action);
+				}
+			}
+		}
+
+		if (isRequested(context, CodeActionKind.RefactorInline)) {
+			const inline = this.refactorings.provideInlineVariable(
+				document,
+				range,
+				result,
+			);
+			if (inline) {
+				actions.push(inline);
+			}
+		}
+
+		return actions;
+	}
+
+	private getDiagnosticFixes(
+		document: TextDocument,
+		diagnostics: AnalysisDiagnostic[],
+		range: Range,
+	): CodeAction[] {
+		const actions: CodeAction[] = [];
+		for (const diagnostic of diagnostics) {
+			if (!diagnostic.fixes || !intersects(toRange(diagnostic.range), range)) {
+				continue;
+			}
+			for (const fix of diagnostic.fixes) {
+				actions.push({
+					title: fix.title,
+					kind: CodeActionKind.QuickFix,
+					diagnostics: [toDiagnostic(diagnostic)],
+					isPreferred: fix.isPreferred,
+					edit: {
+						changes: {
+							[document.uri]: fix.edits.map((edit) => ({
+								range: toRange(edit.range),
+								newText: edit.newText,
+							})),
+						},
+					},
+				});
+			}
+		}
+		return actions;
+	}
+
+	/**
+	 * Add the inferred type of a variable declared without one, the
+	 * inverse of its type inlay hint.
+	 */
+	private getAddTypeAnnotation(
+		document: TextDocument,
+		node: ASTNode,
+		types: Map<ASTNode, TypeInfo>,
+	): CodeAction | null {
+		if (
+			node.kind !== "variable" ||
+			node.typeAnnotation ||
+			!node.nameRange ||
+			node.parent?.iterator === node
+		) {
+			return null;
+		}
+		const type = types.get(node);
+		if (!type || !isDenotable(type)) {
+			return null;
+		}
+
+		const annotation = typeToString(type);
+		const position = toRange(node.nameRange).end;
+		return {
+			title: `Add explicit type '${annotation}'`,
+			kind: CodeActionKind.RefactorRewrite,
+			edit: {
+				changes: {
+					[document.uri]: [
+						{
+							range: { start: position, end: position },
+							newText: `: ${annotation}`,
+						},
+					],
+				},
+			},
+		};
+	}
+}
+
+/**
+ * Whether the client asked for actions of the given kind. Kinds are
+ * hierarchical: asking for "refactor" includes "refactor.rewrite".
+ */
+function isRequested(context: CodeActionContext, kind: string): boolean {
+	return (
+		!context.only ||
+		context.only.some((only) => kind === only || kind.startsWith(`${only}.`))
+	);
+}
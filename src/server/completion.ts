@@ -0,0 +1,234 @@
+import {
+	type CancellationToken,
+	type CompletionItem,
+	CompletionItemKind,
+	type Position,
+} from "vscode-languageserver";
+import type { TextDocument } from "vscode-languageserver-textdocument";
+import {
+	type ASTNode,
+	formatSignature,
+	type SymbolKind,
+	typeRefToString,
+	walk,
+} from "../core/ast";
+import {
+	formatMethodSignature,
+	getBuiltinMethods,
+	isCollectionType,
+} from "../core/builtins";
+import { type TypeInfo, typeToString } from "../core/inference";
+import { isField, ScopeResolver } from "../core/scope";
+import type { DocumentInferenceService } from "./inferenceService";
+import { KEYWORDS } from "./keywords";
+import type { WorkspaceIndex } from "./workspaceIndex";
+
+const COMPLETION_KINDS: Record<SymbolKind, CompletionItemKind> = {
+	variable: CompletionItemKind.Variable,
+	function: CompletionItemKind.Function,
+	class: CompletionItemKind.Class,
+};
+
+export default class Completion {
+	private resolver = new ScopeResolver();
+
+	constructor(
+		private inferenceService: DocumentInferenceService,
+		private index: WorkspaceIndex,
+	) {}
+
+	public async provideCompletionItems(
+		document: TextDocument,
+		position: Position,
+		token: CancellationToken,
+	): Promise<CompletionItem[]> {
+		const items: CompletionItem[] = [];
+
+		// Get AST and inferred types from shared service
+		const result = await this.inferenceService.getInferenceResult(
+			document,
+			token,
+		);
+		if (!result) {
+			return items;
+		}
+		const { ast, types } = result;
+
+		// After "receiver." only members of the receiver make sense
+		const dotOffset = findMemberAccessDot(document, position);
+		if (dotOffset !== null) {
+			const member = findMemberAccess(ast, dotOffset);
+			return member?.object
+				? this.getMemberItems(document, member.object, types)
+				: [];
+		}
+
+		// Add keywords (keep lower priority than local symbols)
+		KEYWORDS.forEach((kw) => {
+			items.push({
+				label: kw.label,
+				kind: kw.kind,
+				detail: kw.detail,
+				sortText: "2",
+			});
+		});
+
+		// Get symbols visible at cursor position and attach inferred types
+		const visibleSymbols = this.resolver.getSymbolsAtLine(ast, position.line);
+		visibleSymbols.forEach((sym) => {
+			if (position.line !== sym.line) {
+				const inferred = types.get(sym.node);
+				items.push({
+					label: sym.name,
+					kind: COMPLETION_KINDS[sym.kind],
+					detail:
+						`Defined at line ${sym.line + 1}` +
+						(inferred ? ` - ${typeToString(inferred)}` : ""),
+					// Prioritize symbols with known types
+					sortText: inferred ? "0" : "1",
+				});
+			}
+		});
+
+		// Classes and actors defined in other files of the workspace
+		const localNames = new Set(items.map((item) => item.label));
+		for (const file of await this.index.getIndexedFiles()) {
+			if (file.uri === document.uri) {
+				continue;
+			}
+			for (const node of file.ast.children) {
+				if (
+					(node.kind !== "class" && node.kind !== "actor") ||
+					!node.name ||
+					localNames.has(node.name)
+				) {
+					continue;
+				}
+				items.push({
+					label: node.name,
+					kind: CompletionItemKind.Class,
+					detail: `${node.kind} defined in ${this.index.relativePath(file.uri)}`,
+					sortText: "1",
+				});
+				localNames.add(node.name);
+			}
+		}
+
+		return items;
+	}
+
+	/**
+	 * Members of the receiver of a member access: built-in collection
+	 * methods, the functions and fields of a class or actor, or `new` when
+	 * the receiver is a type name.
+	 */
+	private async getMemberItems(
+		document: TextDocument,
+		receiver: ASTNode,
+		types: Map<ASTNode, TypeInfo>,
+	): Promise<CompletionItem[]> {
+		if (receiver.kind === "identifier") {
+			const declaration = this.resolver.resolve(receiver);
+			const isTypeName = declaration
+				? isTypeDeclaration(declaration)
+				: isCollectionType(receiver.name) ||
+					isTypeDeclaration(
+						await this.index.findGlobalDeclaration(receiver.name, document.uri),
+					);
+			if (isTypeName) {
+				return [
+					{
+						label: "new",
+						kind: CompletionItemKind.Constructor,
+						detail: `Creates a new ${typeRefToString(receiver)}`,
+					},
+				];
+			}
+		}
+
+		const type = this.inferenceService.typeOf(receiver, types);
+
+		const builtins = getBuiltinMethods(type);
+		if (builtins.length > 0) {
+			return builtins.map((method) => ({
+				label: method.name,
+				kind: CompletionItemKind.Method,
+				detail: formatMethodSignature(method),
+				documentation: method.detail,
+			}));
+		}
+
+		const declaration = type.declaration;
+		if (!declaration) {
+			return [];
+		}
+
+		const items: CompletionItem[] = [];
+		for (const member of declaration.children) {
+			if (!member.name) {
+				continue;
+			}
+			if (member.kind === "function") {
+				items.push({
+					label: member.name,
+					kind: CompletionItemKind.Method,
+					detail: `${member.isIo ? "io fun" : "fun"} ${member.name}${formatSignature(member)}`,
+				});
+			} else if (isField(member)) {
+				const inferred = types.get(member);
+				items.push({
+					label: member.name,
+					kind: CompletionItemKind.Field,
+					detail: inferred
+						? typeToString(inferred)
+						: member.typeAnnotation
+							? typeRefToString(member.typeAnnotation)
+							: undefined,
+				});
+			}
+		}
+		return items;
+	}
+}
+
+/**
+ * Offset of the "." when the cursor is right after "receiver." or in the
+ * middle of typing the member name, otherwise null.
+ */
+function findMemberAccessDot(
+	document: TextDocument,
+	position: Position,
+): number | null {
+	const linePrefix = document.getText({
+		start: { line: position.line, character: 0 },
+		end: position,
+	});
+	const match = linePrefix.match(/\.\s*[a-zA-Z_]?[a-zA-Z0-9_]*$/);
+	if (!match || match.index === undefined) {
+		return null;
+	}
+	return document.offsetAt({ line: position.line, character: match.index });
+}
+
+/**
+ * The member access whose "." is at the given offset.
+ */
+function findMemberAccess(ast: ASTNode, dotOffset: number): ASTNode | null {
+	let found: ASTNode | null = null;
+	walk(ast, (node) => {
+		if (
+			node.kind === "member" &&
+			node.object &&
+			node.object.range.end.offset <= dotOffset &&
+			node.range.end.offset >= dotOffset &&
+			(!node.nameRange || node.nameRange.start.offset > dotOffset)
+		) {
+			found = node;
+		}
+	});
+	return found;
+}
+
+function isTypeDeclaration(node: ASTNode | null): node is ASTNode {
+	return node?.kind === "class" || node?.kind === "actor";
+}
@@ -0,0 +1,93 @@
+import {
+	type Diagnostic,
+	DiagnosticSeverity as LspSeverity,
+	type Position,
+	type Range,
+} from "vscode-languageserver";
+import type { TextDocument } from "vscode-languageserver-textdocument";
+import type {
+	AnalysisDiagnostic,
+	DiagnosticSeverity,
+	SourceRange,
+} from "../core/ast";
+
+/**
+ * Helpers for converting editor-independent analysis results into
+ * Language Server Protocol objects.
+ */
+
+export function toRange(range: SourceRange): Range {
+	return {
+		start: { line: range.start.line, character: range.start.character },
+		end: { line: range.end.line, character: range.end.character },
+	};
+}
+
+export function toSeverity(severity: DiagnosticSeverity): LspSeverity {
+	switch (severity) {
+		case "error":
+			return LspSeverity.Error;
+		case "warning":
+			return LspSeverity.Warning;
+		case "information":
+			return LspSeverity.Information;
+		case "hint":
+			return LspSeverity.Hint;
+	}
+}
+
+export function toDiagnostic(diagnostic: AnalysisDiagnostic): Diagnostic {
+	return {
+		range: toRange(diagnostic.range),
+		message: diagnostic.message,
+		severity: toSeverity(diagnostic.severity),
+		source: "synotra",
+		code: diagnostic.code,
+	};
+}
+
+/**
+ * Whether two ranges share at least one position.
+ */
+export function intersects(a: Range, b: Range): boolean {
+	return (
+		comparePositions(a.start, b.end) <= 0 &&
+		comparePositions(b.start, a.end) <= 0
+	);
+}
+
+export function containsPosition(range: Range, position: Position): boolean {
+	return (
+		comparePositions(range.start, position) <= 0 &&
+		comparePositions(position, range.end) <= 0
+	);
+}
+
+function comparePositions(a: Position, b: Position): number {
+	return a.line === b.line ? a.character - b.character : a.line - b.line;
+}
+
+/**
+ * Range of the identifier at a position, like
+ * vscode.TextDocument.getWordRangeAtPosition.
+ */
+export function getWordRangeAtPosition(
+	document: TextDocument,
+	position: Position,
+): Range | undefined {
+	const line = document.getText({
+		start: { line: position.line, character: 0 },
+		end: { line: position.line + 1, character: 0 },
+	});
+	for (const match of line.matchAll(/[a-zA-Z_][a-zA-Z0-9_]*/g)) {
+		const start = match.index;
+		const end = start + match[0].length;
+		if (start <= position.character && position.character <= end) {
+			return {
+				start: { line: position.line, character: start },
+				end: { line: position.line, character: end },
+			};
+		}
+	}
+	return undefined;
+}
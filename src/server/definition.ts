@@ -0,0 +1,77 @@
+import type {
+	CancellationToken,
+	Location,
+	Position,
+} from "vscode-languageserver";
+import type { TextDocument } from "vscode-languageserver-textdocument";
+import type { ASTNode } from "../core/ast";
+import { ScopeResolver } from "../core/scope";
+import { toRange } from "./convert";
+import type { DocumentInferenceService } from "./inferenceService";
+
+/**
+ * Go to Definition / Peek Definition and Go to Type Definition. Fields and
+ * functions accessed through a receiver, like `p.sum()`, are resolved
+ * through the receiver's inferred type.
+ */
+export default class Definition {
+	private resolver = new ScopeResolver();
+
+	constructor(private inferenceService: DocumentInferenceService) {}
+
+	async provideDefinition(
+		document: TextDocument,
+		position: Position,
+		token: CancellationToken,
+	): Promise<Location | null> {
+		const result = await this.inferenceService.getInferenceResult(
+			document,
+			token,
+		);
+		if (!result) {
+			return null;
+		}
+		const { ast, types } = result;
+		const declaration = this.resolver.getDefinition(
+			ast,
+			document.offsetAt(position),
+			(expr) => this.inferenceService.typeOf(expr, types),
+		);
+		return declaration ? this.toLocation(document, declaration) : null;
+	}
+
+	async provideTypeDefinition(
+		document: TextDocument,
+		position: Position,
+		token: CancellationToken,
+	): Promise<Location | null> {
+		const result = await this.inferenceService.getInferenceResult(
+			document,
+			token,
+		);
+		if (!result) {
+			return null;
+		}
+		const { ast, types } = result;
+		const declaration = this.resolver.getDefinition(
+			ast,
+			document.offsetAt(position),
+			(expr) => this.inferenceService.typeOf(expr, types),
+		);
+		if (!declaration) {
+			return null;
+		}
+
+		// Classes and actors are their own type
+		if (declaration.kind === "class" || declaration.kind === "actor") {
+			return this.toLocation(document, declaration);
+		}
+
+		const typeDeclaration = types.get(declaration)?.declaration;
+		return typeDeclaration ? this.toLocation(document, typeDeclaration) : null;
+	}
+
+	private toLocation(document: TextDocument, node: ASTNode): Location {
+		return { uri: document.uri, range: toRange(node.nameRange ?? node.range) };
+	}
+}
@@ -0,0 +1,96 @@
+import type {
+	Connection,
+	Disposable,
+	TextDocuments,
+} from "vscode-languageserver";
+import type { TextDocument } from "vscode-languageserver-textdocument";
+import { toDiagnostic } from "./convert";
+import type { DocumentInferenceService } from "./inferenceService";
+
+const UPDATE_DELAY_MS = 300;
+
+/**
+ * Publishes problems found while analyzing Synotra documents to the
+ * client. Updates are debounced while the user is typing.
+ */
+export default class Diagnostics implements Disposable {
+	private timers = new Map<string, NodeJS.Timeout>(); // uri -> pending update
+	private disposables: Disposable[] = [];
+
+	constructor(
+		private connection: Connection,
+		private documents: TextDocuments<TextDocument>,
+		private inferenceService: DocumentInferenceService,
+	) {
+		this.disposables.push(
+			documents.onDidOpen((e) => {
+				this.update(e.document.uri);
+			}),
+		);
+
+		this.disposables.push(
+			documents.onDidChangeContent((e) => {
+				this.scheduleUpdate(e.document.uri);
+			}),
+		);
+
+		this.disposables.push(
+			documents.onDidClose((e) => {
+				const uri = e.document.uri;
+				clearTimeout(this.timers.get(uri));
+				this.timers.delete(uri);
+				this.connection.sendDiagnostics({ uri, diagnostics: [] });
+			}),
+		);
+	}
+
+	/**
+	 * Update the problems of every open document, e.g. after declarations
+	 * in other files changed.
+	 */
+	refresh(): void {
+		for (const uri of this.documents.keys()) {
+			this.scheduleUpdate(uri);
+		}
+	}
+
+	private scheduleUpdate(uri: string): void {
+		clearTimeout(this.timers.get(uri));
+		this.timers.set(
+			uri,
+			setTimeout(() => {
+				this.timers.delete(uri);
+				this.update(uri);
+			}, UPDATE_DELAY_MS),
+		);
+	}
+
+	private async update(uri: string): Promise<void> {
+		// The document may have been closed while an update was pending
+		const document = this.documents.get(uri);
+		if (!document) {
+			return;
+		}
+		// Out-of-date results are skipped; the edit that made them out of
+		// date has scheduled another update
+		const result = await this.inferenceService.getInferenceResult(document);
+		if (!result) {
+			return;
+		}
+		this.connection.sendDiagnostics({
+			uri,
+			version: document.version,
+			diagnostics: result.diagnostics.map(toDiagnostic),
+		});
+	}
+
+	dispose() {
+		this.timers.forEach((timer) => {
+			clearTimeout(timer);
+		});
+		this.timers.clear();
+		this.disposables.forEach((d) => {
+			d.dispose();
+		});
+	}
+}
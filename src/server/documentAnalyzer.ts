@@ -0,0 +1,82 @@
+import {
+	type AnalysisResult,
+	Analyzer,
+	type ReusedNode,
+} from "../core/analyzer";
+import type { ASTNode, SymbolKind, TextEdit } from "../core/ast";
+import { collectGlobalNames, type GlobalNames } from "../core/scope";
+import type { WorkspaceFiles } from "./workspaceFiles";
+
+/**
+ * A request to analyze one version of a document.
+ */
+export interface AnalysisRequest {
+	uri: string;
+	version: number;
+	text: string;
+	baseVersion: number | null; // version the edits were made to, null if unknown
+	edits: TextEdit[]; // edits since `baseVersion`
+}
+
+/**
+ * Analyzes documents, keeping the last result of each so that the next
+ * version can be reparsed incrementally. Runs in the analysis worker, or
+ * on the calling thread when analysis is done in process.
+ *
+ * Names declared by the workspace files and the other open documents are
+ * known to each document; without `files`, only those of open documents.
+ */
+export class DocumentAnalyzer {
+	private analyzer = new Analyzer();
+	private previous = new Map<string, AnalysisResult & { version: number }>(); // uri -> last result
+
+	constructor(private files?: WorkspaceFiles) {}
+
+	analyze(request: AnalysisRequest): AnalysisResult {
+		const { uri, version, text, baseVersion, edits } = request;
+		const previous = this.previous.get(uri);
+		const globals = this.globalNames(uri);
+
+		// Edits only apply to the version they were made to; anything else
+		// (e.g. a request lost when the worker restarted) is analyzed in full
+		const result =
+			previous && previous.version === baseVersion
+				? this.analyzer.reanalyze(text, previous, edits, globals)
+				: this.analyzer.analyze(text, globals);
+		this.previous.set(uri, { version, ...result });
+		return result;
+	}
+
+	/**
+	 * Names declared outside a document, as last analyzed for the open
+	 * documents, or null while the workspace is scanned.
+	 */
+	private globalNames(uri: string): GlobalNames | null {
+		const open = new Set(this.previous.keys());
+		open.add(uri);
+		const names = this.files
+			? this.files.globalNames(open)
+			: new Map<string, SymbolKind>();
+		if (!names) {
+			return null;
+		}
+		for (const [other, result] of this.previous) {
+			if (other !== uri) {
+				collectGlobalNames(result.ast, names);
+			}
+		}
+		return names;
+	}
+
+	/**
+	 * Top-level nodes of a result that were copied from the previous
+	 * result of the same document; see Analyzer.reusedNodes.
+	 */
+	reusedNodes(result: AnalysisResult): Map<ASTNode, ReusedNode> {
+		return this.analyzer.reusedNodes(result);
+	}
+
+	forget(uri: string): void {
+		this.previous.delete(uri);
+	}
+}
@@ -0,0 +1,61 @@
+import type {
+	FormattingOptions,
+	TextEdit as LspTextEdit,
+	Position,
+	Range,
+} from "vscode-languageserver";
+import type { TextDocument } from "vscode-languageserver-textdocument";
+import type { TextEdit } from "../core/ast";
+import { formatDocument, formatOnType, formatRange } from "../core/formatter";
+import { toRange } from "./convert";
+
+/**
+ * Formats whole documents, selections, and the code around a typed "}" or
+ * newline. Documents with lexical errors are left unchanged.
+ */
+export default class Formatting {
+	provideDocumentFormattingEdits(
+		document: TextDocument,
+		options: FormattingOptions,
+	): LspTextEdit[] {
+		return toTextEdits(formatDocument(document.getText(), options));
+	}
+
+	provideDocumentRangeFormattingEdits(
+		document: TextDocument,
+		range: Range,
+		options: FormattingOptions,
+	): LspTextEdit[] {
+		return toTextEdits(
+			formatRange(
+				document.getText(),
+				document.offsetAt(range.start),
+				document.offsetAt(range.end),
+				options,
+			),
+		);
+	}
+
+	provideOnTypeFormattingEdits(
+		document: TextDocument,
+		position: Position,
+		ch: string,
+		options: FormattingOptions,
+	): LspTextEdit[] {
+		return toTextEdits(
+			formatOnType(
+				document.getText(),
+				document.offsetAt(position),
+				ch,
+				options,
+			),
+		);
+	}
+}
+
+function toTextEdits(edits: TextEdit[] | null): LspTextEdit[] {
+	return (edits ?? []).map((edit) => ({
+		range: toRange(edit.range),
+		newText: edit.newText,
+	}));
+}
@@ -0,0 +1,108 @@
+import {
+	type CancellationToken,
+	type Hover as LspHover,
+	MarkupKind,
+	type Position,
+} from "vscode-languageserver";
+import type { TextDocument } from "vscode-languageserver-textdocument";
+import { type ASTNode, typeRefToString } from "../core/ast";
+import { formatEffect } from "../core/effects";
+import { type TypeInfo, typeToString } from "../core/inference";
+import { ScopeResolver } from "../core/scope";
+import { getWordRangeAtPosition } from "./convert";
+import type { DocumentInferenceService } from "./inferenceService";
+
+export default class Hover {
+	private resolver = new ScopeResolver();
+
+	constructor(private inferenceService: DocumentInferenceService) {}
+
+	async provideHover(
+		document: TextDocument,
+		position: Position,
+		token: CancellationToken,
+	): Promise<LspHover | null> {
+		const wordRange = getWordRangeAtPosition(document, position);
+		if (!wordRange) {
+			return null;
+		}
+
+		// Resolve the binding at the cursor rather than the bare word, so that
+		// shadowed and same-named variables show their own type
+		const result = await this.inferenceService.getInferenceResult(
+			document,
+			token,
+		);
+		if (!result) {
+			return null;
+		}
+		const { ast, types, effects } = result;
+		const declaration = this.resolver.getDefinition(
+			ast,
+			document.offsetAt(position),
+			(expr) => this.inferenceService.typeOf(expr, types),
+		);
+		if (declaration?.kind === "class" || declaration?.kind === "actor") {
+			return {
+				contents: {
+					kind: MarkupKind.Markdown,
+					value: codeBlock(formatTypeDeclaration(declaration)),
+				},
+				range: wordRange,
+			};
+		}
+
+		const inferred = declaration ? types.get(declaration) : undefined;
+		if (declaration && inferred) {
+			let value = codeBlock(
+				declaration.kind === "function"
+					? formatFunction(declaration, inferred)
+					: typeToString(inferred),
+			);
+			if (declaration.kind === "function") {
+				value += `Effect: ${formatEffect(declaration, effects.get(declaration))}`;
+			}
+			return {
+				contents: { kind: MarkupKind.Markdown, value },
+				range: wordRange,
+			};
+		}
+		return null;
+	}
+}
+
+function codeBlock(code: string): string {
+	return `\`\`\`text\n${code}\n\`\`\`\n`;
+}
+
+/**
+ * Full signature of a function with inferred types, e.g.
+ * "io fun greet(name: String): Unit".
+ */
+function formatFunction(fn: ASTNode, type: TypeInfo): string {
+	const params = (fn.params ?? [])
+		.map((param, i) => `${param.name}: ${typeToString(type.params?.[i])}`)
+		.join(", ");
+	const prefix = fn.isIo ? "io fun" : "fun";
+	return `${prefix} ${fn.name}(${params}): ${typeToString(type.returnType)}`;
+}
+
+/**
+ * Header of a class or actor, e.g. "class Point(val x: Int, val y: Int)".
+ */
+function formatTypeDeclaration(type: ASTNode): string {
+	if (!type.params) {
+		return `${type.kind} ${type.name}`;
+	}
+	const params = type.params
+		.map((param) => {
+			const keyword =
+				param.mutable === undefined ? "" : param.mutable ? "var " : "val ";
+			const annotation = param.typeAnnotation
+				? `: ${typeRefToString(param.typeAnnotation)}`
+				: "";
+			return `${keyword}${param.name}${annotation}`;
+		})
+		.join(", ");
+	return `${type.kind} ${type.name}(${params})`;
+}
@@ -0,0 +1,200 @@
+import type {
+	CancellationToken,
+	TextDocumentContentChangeEvent,
+} from "vscode-languageserver";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { type AnalysisResult, Analyzer } from "../core/analyzer";
+import type { ASTNode, TextEdit } from "../core/ast";
+import type { TypeInfo } from "../core/inference";
+import { type AnalysisHost, InProcessAnalysisHost } from "./analysisHost";
+
+interface CacheEntry extends AnalysisResult {
+	version: number;
+}
+
+// Edits made since the last analysis requested
+interface PendingEdits {
+	baseVersion: number; // version of the document before the edits
+	version: number; // version of the document after the edits
+	edits: TextEdit[] | null; // null if they are unknown
+}
+
+interface RunningAnalysis {
+	version: number;
+	result: Promise<AnalysisResult | null>;
+}
+
+/**
+ * Shared service for document parsing and type inference with caching.
+ * This service is shared across all providers (Completion, Hover, Inlay)
+ * to avoid redundant computation.
+ *
+ * Documents are analyzed lazily: edits are only recorded as they arrive,
+ * and the next request analyzes the document once for all of them,
+ * reusing the top-level declarations they did not touch. The analysis
+ * itself is done by an AnalysisHost, in a worker thread in the server.
+ */
+export class DocumentInferenceService {
+	private analyzer = new Analyzer(); // for typeOf on the host's results
+	private cache = new Map<string, CacheEntry>(); // uri -> CacheEntry
+	private running = new Map<string, RunningAnalysis>(); // uri -> analysis in progress
+	private pendingEdits = new Map<string, PendingEdits>(); // uri -> PendingEdits
+	private versions = new Map<string, number>(); // uri -> latest document version
+
+	constructor(private host: AnalysisHost = new InProcessAnalysisHost()) {}
+
+	/**
+	 * Apply content changes to a document and record them for the next
+	 * analysis. Used as the update function of the server's TextDocuments.
+	 */
+	public update(
+		document: TextDocument,
+		changes: TextDocumentContentChangeEvent[],
+		version: number,
+	): TextDocument {
+		const uri = document.uri;
+		const pending = this.pendingEdits.get(uri);
+		let edits = pending?.version === document.version ? pending.edits : null;
+
+		// Changes are relative to the text left by the previous change, so
+		// apply them one at a time to resolve their offsets
+		for (const change of changes) {
+			if (edits && "range" in change) {
+				edits.push({
+					range: {
+						start: {
+							...change.range.start,
+							offset: document.offsetAt(change.range.start),
+						},
+						end: {
+							...change.range.end,
+							offset: document.offsetAt(change.range.end),
+						},
+					},
+					newText: change.text,
+				});
+			} else {
+				// The whole text was replaced
+				edits = null;
+			}
+			document = TextDocument.update(document, [change], version);
+		}
+
+		if (pending) {
+			this.pendingEdits.set(uri, { ...pending, version, edits });
+		}
+		this.versions.set(uri, version);
+		return document;
+	}
+
+	/**
+	 * Get the AST, inferred type information, the I/O performed by each
+	 * function and diagnostics (syntax, type and effect errors) for a
+	 * document. Results are cached by document URI and version.
+	 *
+	 * Resolves to null when the request is cancelled, when the document
+	 * was edited again before its analysis finished (the result would be
+	 * out of date) and when the analysis failed.
+	 */
+	public async getInferenceResult(
+		document: TextDocument,
+		token?: CancellationToken,
+	): Promise<AnalysisResult | null> {
+		const uri = document.uri;
+		const version = document.version;
+		const cached = this.cache.get(uri);
+
+		if (cached?.version === version) {
+			return {
+				ast: cached.ast,
+				types: cached.types,
+				effects: cached.effects,
+				diagnostics: cached.diagnostics,
+			};
+		}
+		if (token?.isCancellationRequested) {
+			return null;
+		}
+
+		// Requests for the same version share one analysis
+		let running = this.running.get(uri);
+		if (running?.version !== version) {
+			running = { version, result: this.analyze(document) };
+			this.running.set(uri, running);
+		}
+		const result = await running.result;
+		return token?.isCancellationRequested ? null : result;
+	}
+
+	/**
+	 * Send a document to the analysis host along with the edits made since
+	 * the last version sent, so that it can be reparsed incrementally.
+	 */
+	private async analyze(
+		document: TextDocument,
+	): Promise<AnalysisResult | null> {
+		const uri = document.uri;
+		const version = document.version;
+		const pending = this.pendingEdits.get(uri);
+		const incremental =
+			pending?.version === version && pending.edits ? pending : null;
+		this.pendingEdits.set(uri, { baseVersion: version, version, edits: [] });
+		this.versions.set(
+			uri,
+			Math.max(version, this.versions.get(uri) ?? version),
+		);
+
+		try {
+			const result = await this.host.analyze({
+				uri,
+				version,
+				text: document.getText(),
+				baseVersion: incremental?.baseVersion ?? null,
+				edits: incremental?.edits ?? [],
+			});
+
+			// Drop results that newer edits have made out of date, and those
+			// of documents closed in the meantime
+			const latest = this.versions.get(uri);
+			if (!result || latest === undefined || version < latest) {
+				return null;
+			}
+			this.cache.set(uri, { version, ...result });
+			return result;
+		} catch (error) {
+			console.error(`Failed to analyze ${uri}: ${error}`);
+			return null;
+		} finally {
+			if (this.running.get(uri)?.version === version) {
+				this.running.delete(uri);
+			}
+		}
+	}
+
+	/**
+	 * Drop the cached results, e.g. after declarations in other files
+	 * changed, so that documents are analyzed again on the next request.
+	 */
+	public invalidate(): void {
+		this.cache.clear();
+	}
+
+	/**
+	 * Infer the type of an expression in a document analysed by
+	 * `getInferenceResult`.
+	 */
+	public typeOf(expr: ASTNode, types: Map<ASTNode, TypeInfo>): TypeInfo {
+		return this.analyzer.typeOf(expr, types);
+	}
+
+	/**
+	 * Remove the cache entry of a closed document.
+	 */
+	public forget(uri: string): void {
+		this.cache.delete(uri);
+		this.running.delete(uri);
+		this.pendingEdits.delete(uri);
+		this.versions.delete(uri);
+		this.host.forget(uri);
+	}
+}
@@ -0,0 +1,69 @@
+import {
+	type CancellationToken,
+	type InlayHint,
+	InlayHintKind,
+	type Position,
+	type Range,
+} from "vscode-languageserver";
+import type { TextDocument } from "vscode-languageserver-textdocument";
+import { walk } from "../core/ast";
+import { typeToString } from "../core/inference";
+import { containsPosition } from "./convert";
+import type { DocumentInferenceService } from "./inferenceService";
+
+export default class Inlay {
+	constructor(private inferenceService: DocumentInferenceService) {}
+
+	async provideInlayHints(
+		document: TextDocument,
+		range: Range,
+		token: CancellationToken,
+	): Promise<InlayHint[]> {
+		const hints: InlayHint[] = [];
+
+		// Get AST and inferred types from shared service
+		const result = await this.inferenceService.getInferenceResult(
+			document,
+			token,
+		);
+		if (!result) {
+			return hints;
+		}
+		const { ast, types } = result;
+
+		walk(ast, (node) => {
+			if (node.kind !== "variable" || !node.nameRange) {
+				return;
+			}
+			if (node.typeAnnotation) {
+				return; // Skip if type was explicitly annotated
+			}
+
+			const end = node.nameRange.end;
+			const position: Position = { line: end.line, character: end.character };
+			if (!containsPosition(range, position)) {
+				return;
+			}
+
+			const inferred = types.get(node);
+			if (!inferred) {
+				return;
+			}
+
+			const label = `: ${typeToString(inferred)}`;
+			const hint: InlayHint = { position, label, kind: InlayHintKind.Type };
+
+			// This comment is written to clarify the context in which the code was added, as the suggestion may be inaccurate. Please do not delete it.
+			// [nitpick] Setting paddingLeft = true without paddingRight may cause inconsistent spacing.
+			// The hint shows : Type immediately after the variable name with a space before the colon but none after.
+			// For better readability, consider also setting paddingRight = false (or omitting it if it defaults to false) to make the spacing intention explicit, or adjust the label format.
+			// Suggested by GitHub Copilot
+			hint.paddingLeft = true;
+			hint.paddingRight = false;
+
+			hints.push(hint);
+		});
+
+		return hints;
+	}
+}
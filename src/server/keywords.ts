@@ -0,0 +1,153 @@
+import { CompletionItemKind } from "vscode-languageserver";
+
+export interface KeywordDefinition {
+	label: string;
+	kind: CompletionItemKind;
+	detail: string;
+}
+
+export const KEYWORDS: KeywordDefinition[] = [
+	{
+		label: "class",
+		kind: CompletionItemKind.Keyword,
+		detail: "Defines a class.",
+	},
+	{
+		label: "actor",
+		kind: CompletionItemKind.Keyword,
+		detail: "Defines an actor.",
+	},
+	{
+		label: "io",
+		kind: CompletionItemKind.Keyword,
+		detail: "Defines an IO block.",
+	},
+	{
+		label: "fun",
+		kind: CompletionItemKind.Keyword,
+		detail: "Defines a function.",
+	},
+	{
+		label: "var",
+		kind: CompletionItemKind.Keyword,
+		detail: "Defines a variable.",
+	},
+	{
+		label: "val",
+		kind: CompletionItemKind.Keyword,
+		detail: "Defines an immutable variable.",
+	},
+	{
+		label: "if",
+		kind: CompletionItemKind.Keyword,
+		detail: "Defines a conditional statement.",
+	},
+	{
+		label: "else",
+		kind: CompletionItemKind.Keyword,
+		detail: "Defines an alternative branch in a conditional statement.",
+	},
+	{
+		label: "while",
+		kind: CompletionItemKind.Keyword,
+		detail: "Defines a while loop.",
+	},
+	{
+		label: "for",
+		kind: CompletionItemKind.Keyword,
+		detail: "Defines a for loop.",
+	},
+	{
+		label: "return",
+		kind: CompletionItemKind.Keyword,
+		detail: "Specifies the return value of a function.",
+	},
+	{
+		label: "println",
+		kind: CompletionItemKind.Function,
+		detail: "Prints a line to the console.",
+	},
+	{
+		label: "print",
+		kind: CompletionItemKind.Function,
+		detail: "Prints to the console without a newline.",
+	},
+	{
+		label: "ask",
+		kind: CompletionItemKind.Function,
+		detail:
+			"Sends a message to an actor and waits for its reply: ask(actor, handler(args)).",
+	},
+	{
+		label: "send",
+		kind: CompletionItemKind.Function,
+		detail:
+			"Sends a message to an actor without waiting: send(actor, handler(args)).",
+	},
+	{
+		label: "List",
+		kind: CompletionItemKind.Class,
+		detail: "Defines a List collection.",
+	},
+	{
+		label: "MutableMap",
+		kind: CompletionItemKind.Class,
+		detail: "Defines a MutableMap collection.",
+	},
+	{
+		label: "MutableSet",
+		kind: CompletionItemKind.Class,
+		detail: "Defines a MutableSet collection.",
+	},
+	{
+		label: "Int",
+		kind: CompletionItemKind.Class,
+		detail: "A 32-bit integer, e.g. 42.",
+	},
+	{
+		label: "Float",
+		kind: CompletionItemKind.Class,
+		detail: "A single-precision floating-point number, e.g. 1.5f.",
+	},
+	{
+		label: "Double",
+		kind: CompletionItemKind.Class,
+		detail: "A double-precision floating-point number, e.g. 3.14.",
+	},
+	{
+		label: "Char",
+		kind: CompletionItemKind.Class,
+		detail: "A single character, e.g. 'a'.",
+	},
+	{
+		label: "String",
+		kind: CompletionItemKind.Class,
+		detail: 'A sequence of characters, e.g. "text".',
+	},
+	{
+		label: "Bool",
+		kind: CompletionItemKind.Class,
+		detail: "A boolean value, true or false.",
+	},
+	{
+		label: "Unit",
+		kind: CompletionItemKind.Class,
+		detail: "The type of functions that return no value.",
+	},
+	{
+		label: "true",
+		kind: CompletionItemKind.Constant,
+		detail: "Boolean true value.",
+	},
+	{
+		label: "false",
+		kind: CompletionItemKind.Constant,
+		detail: "Boolean false value.",
+	},
+	{
+		label: "null",
+		kind: CompletionItemKind.Constant,
+		detail:
+			"The absence of a value, allowed only in nullable types such as Int?.",
+	},
+];
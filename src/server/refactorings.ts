@@ -0,0 +1,796 @@
+import {
+	type CodeAction,
+	CodeActionKind,
+	type Range,
+	type TextEdit,
+} from "vscode-languageserver";
+import type { TextDocument } from "vscode-languageserver-textdocument";
+import type { AnalysisResult } from "../core/analyzer";
+import {
+	type ASTNode,
+	findNodeAt,
+	indentationAt,
+	indentationUnit,
+	walk,
+} from "../core/ast";
+import { isDenotable, type TypeInfo, typeToString } from "../core/inference";
+import { getEnclosingActorMessage } from "../core/messaging";
+import { isField, ScopeResolver } from "../core/scope";
+import type { DocumentInferenceService } from "./inferenceService";
+
+// Expressions that never need parentheses around them
+const ATOMIC_KINDS = new Set([
+	"identifier",
+	"number",
+	"string",
+	"char",
+	"boolean",
+	"null",
+	"call",
+	"member",
+	"index",
+]);
+
+// Expressions without side effects: evaluating them again, or at another
+// point, gives the same value and changes nothing else
+const PURE_KINDS = new Set([
+	"identifier",
+	"number",
+	"string",
+	"char",
+	"boolean",
+	"null",
+	"binary",
+	"unary",
+]);
+
+// Verbs that functions are named with, which do not name the value they
+// return, e.g. the `remove` of `removeFirst`
+const VERBS = [
+	"get",
+	"remove",
+	"find",
+	"compute",
+	"calculate",
+	"create",
+	"make",
+	"build",
+	"read",
+	"load",
+	"fetch",
+	"take",
+	"pop",
+	"to",
+];
+
+// Words that cannot start a variable name left after a verb, e.g. the
+// `At` of `removeAt`
+const PREPOSITIONS = new Set([
+	"At",
+	"By",
+	"For",
+	"From",
+	"In",
+	"Of",
+	"On",
+	"With",
+]);
+
+/**
+ * Statements selected for extraction: consecutive children of one block.
+ */
+interface StatementSelection {
+	statements: ASTNode[];
+	start: number; // offset of the first statement
+	end: number; // end offset of the last statement
+}
+
+/**
+ * Extract Function, Extract Variable and Inline Variable.
+ *
+ * Refactorings that would change what the code does (e.g. extracting
+ * statements that assign to a variable declared outside the selection)
+ * are not offered.
+ */
+export default class Refactorings {
+	private resolver = new ScopeResolver();
+
+	constructor(private inferenceService: DocumentInferenceService) {}
+
+	/**
+	 * Extract the selected statements into a new function declared after
+	 * the enclosing one, as a member when that is a member of a class or
+	 * actor. Variables declared before the selection become parameters; a
+	 * variable declared in the selection and used after it is returned.
+	 */
+	provideExtractFunction(
+		document: TextDocument,
+		range: Range,
+		{ ast, types, effects }: AnalysisResult,
+	): CodeAction | null {
+		const selection = this.findSelectedStatements(document, ast, range);
+		if (!selection) {
+			return null;
+		}
+		const { statements, start, end } = selection;
+		const fn = enclosingFunction(statements[0]);
+		if (!fn) {
+			return null;
+		}
+		const isSelected = (node: ASTNode) =>
+			start <= node.range.start.offset && node.range.end.offset <= end;
+
+		// Locals of the enclosing function used in the selection are passed
+		// in, typed as they are at their first use
+		const params = new Map<ASTNode, TypeInfo>(); // declaration -> type
+		let extractable = true;
+		for (const statement of statements) {
+			walk(statement, (node) => {
+				if (node.kind === "return") {
+					extractable = false; // it would return from the new function
+				} else if (
+					node.kind === "assignment" &&
+					node.left?.kind === "identifier"
+				) {
+					const target = this.resolver.resolve(node.left);
+					if (target && !isSelected(target) && isLocalTo(target, fn)) {
+						extractable = false; // the caller would not see the change
+					}
+				} else if (node.kind === "identifier") {
+					const declaration = this.resolver.resolve(node);
+					if (
+						declaration &&
+						!isSelected(declaration) &&
+						isLocalTo(declaration, fn) &&
+						!params.has(declaration)
+					) {
+						params.set(declaration, this.inferenceService.typeOf(node, types));
+					}
+				}
+			});
+		}
+		if (!extractable || ![...params.values()].every(isDenotable)) {
+			return null;
+		}
+
+		// Variables declared by the selected statements and used after them
+		const outputs = statements.filter(
+			(statement) =>
+				statement.kind === "variable" && this.isUsedAfter(statement, fn, end),
+		);
+		if (outputs.length > 1) {
+			return null;
+		}
+		const output = outputs[0];
+		const outputType = output ? types.get(output) : undefined;
+		if (output && (!outputType || !isDenotable(outputType))) {
+			return null;
+		}
+
+		const owner = fn.parent?.kind === "program" ? null : fn.parent;
+		const name = uniqueName("extracted", this.visibleNames(ast, fn, owner));
+		const isIo = (effects.get(fn) ?? []).some((op) => isSelected(op.call));
+		const text = document.getText();
+
+		// The new function, indented like the enclosing one
+		const indent = indentationAt(text, fn.range.start.offset);
+		const bodyIndent = indent + indentationUnit(text, fn);
+		const body = reindent(
+			text.slice(start, end),
+			indentationAt(text, start),
+			bodyIndent,
+		);
+		const signature = [...params]
+			.map(
+				([declaration, type]) => `${declaration.name}: ${typeToString(type)}`,
+			)
+			.join(", ");
+		const returnType = outputType ? `: ${typeToString(outputType)}` : "";
+		const returnStatement = output
+			? `\n${bodyIndent}return ${output.name}`
+			: "";
+		const declaration =
+			`${indent}${isIo ? "io " : ""}fun ${name}(${signature})${returnType} {\n` +
+			`${body}${returnStatement}\n${indent}}`;
+
+		const args = [...params.keys()].map((param) => param.name).join(", ");
+		const call = output
+			? `${output.mutable ? "var" : "val"} ${output.name} = ${name}(${args})`
+			: `${name}(${args})`;
+
+		return {
+			title: owner
+				? `Extract to function in ${owner.kind} '${owner.name}'`
+				: "Extract to function",
+			kind: CodeActionKind.RefactorExtract,
+			edit: {
+				changes: {
+					[document.uri]: [
+						replace(document, start, end, call),
+						insert(document, fn.range.end.offset, `\n\n${declaration}`),
+					],
+				},
+			},
+		};
+	}
+
+	/**
+	 * Extract the selected expression into a `val` declared before the
+	 * statement containing it.
+	 */
+	provideExtractVariable(
+		document: TextDocument,
+		range: Range,
+		{ ast, types }: AnalysisResult,
+	): CodeAction | null {
+		const expression = this.findSelectedExpression(document, ast, range);
+		if (!expression) {
+			return null;
+		}
+
+		// The statement the declaration goes before. Expressions that are
+		// only evaluated under some condition, or evaluated again and
+		// again, cannot be moved before it.
+		let node = expression;
+		while (node.parent && node.parent.kind !== "block") {
+			const parent = node.parent;
+			if (
+				(parent.kind === "while" &&
+					(parent.condition === node || parent.body === node)) ||
+				(parent.kind === "for" && parent.body === node) ||
+				(parent.kind === "if" &&
+					(parent.thenBranch === node || parent.elseBranch === node)) ||
+				(parent.kind === "binary" &&
+					(parent.operator === "&&" || parent.operator === "||") &&
+					parent.right === node) ||
+				(parent.kind !== "program" &&
+					!isExpression(parent) &&
+					isDeclarationScope(parent))
+			) {
+				return null;
+			}
+			node = parent;
+		}
+		const statement = node;
+		if (!statement.parent) {
+			return null; // not inside a block, e.g. a field initializer
+		}
+
+		const text = document.getText();
+		const name = uniqueName(
+			suggestVariableName(
+				expression,
+				this.inferenceService.typeOf(expression, types),
+			),
+			new Set(
+				this.resolver
+					.getSymbolsAtLine(ast, statement.range.start.line)
+					.map((symbol) => symbol.name),
+			),
+		);
+		const source = text.slice(
+			expression.range.start.offset,
+			expression.range.end.offset,
+		);
+		const indent = indentationAt(text, statement.range.start.offset);
+
+		return {
+			title: "Extract to val",
+			kind: CodeActionKind.RefactorExtract,
+			edit: {
+				changes: {
+					[document.uri]: [
+						insert(
+							document,
+							statement.range.start.offset,
+							`val ${name} = ${source}\n${indent}`,
+						),
+						replace(
+							document,
+							expression.range.start.offset,
+							expression.range.end.offset,
+							name,
+						),
+					],
+				},
+			},
+		};
+	}
+
+	/**
+	 * Replace every use of a `val` with its initializer and remove the
+	 * declaration. Works on the declaration and on any of its uses.
+	 *
+	 * An initializer with side effects (e.g. a call) is only inlined into
+	 * a single use where it runs exactly as it did: once, and before the
+	 * same code.
+	 */
+	provideInlineVariable(
+		document: TextDocument,
+		range: Range,
+		{ ast }: AnalysisResult,
+	): CodeAction | null {
+		const declaration = this.resolver.getDefinition(
+			ast,
+			document.offsetAt(range.start),
+		);
+		const initializer = declaration?.initializer;
+		if (
+			declaration?.kind !== "variable" ||
+			declaration.mutable !== false ||
+			!initializer ||
+			isField(declaration)
+		) {
+			return null;
+		}
+
+		const [, ...uses] = this.resolver.findReferences(ast, declaration);
+		if (!uses.every((use) => this.meansTheSameAt(initializer, use))) {
+			return null;
+		}
+		if (
+			!isPure(initializer) &&
+			!(uses.length === 1 && runsInPlaceAt(declaration, uses[0]))
+		) {
+			return null;
+		}
+
+		const text = document.getText();
+		const source = text.slice(
+			initializer.range.start.offset,
+			initializer.range.end.offset,
+		);
+		const edits = uses.map((use) =>
+			replace(
+				document,
+				use.range.start.offset,
+				use.range.end.offset,
+				needsParentheses(initializer, use) ? `(${source})` : source,
+			),
+		);
+		const { start, end } = lineSpan(text, declaration);
+		edits.push(replace(document, start, end, ""));
+
+		return {
+			title: `Inline variable '${declaration.name}'`,
+			kind: CodeActionKind.RefactorInline,
+			edit: { changes: { [document.uri]: edits } },
+		};
+	}
+
+	/**
+	 * The statements covered by a selection. The selection may include
+	 * surrounding whitespace but must not cut through a statement.
+	 */
+	private findSelectedStatements(
+		document: TextDocument,
+		ast: ASTNode,
+		range: Range,
+	): StatementSelection | null {
+		const selection = trimmedSelection(document, range);
+		if (!selection) {
+			return null;
+		}
+		const { start, end } = selection;
+
+		let block: ASTNode | null = findNodeAt(ast, start);
+		while (
+			block &&
+			!(block.kind === "block" && block.range.end.offset >= end)
+		) {
+			block = block.parent;
+		}
+		if (!block) {
+			return null;
+		}
+
+		const statements = block.children.filter(
+			(child) =>
+				child.range.end.offset > start && child.range.start.offset < end,
+		);
+		if (
+			statements.length === 0 ||
+			statements[0].range.start.offset !== start ||
+			statements[statements.length - 1].range.end.offset !== end
+		) {
+			return null;
+		}
+		return { statements, start, end };
+	}
+
+	/**
+	 * The expression exactly covered by a selection, ignoring surrounding
+	 * whitespace and parentheses, if it can stand on its own.
+	 */
+	private findSelectedExpression(
+		document: TextDocument,
+		ast: ASTNode,
+		range: Range,
+	): ASTNode | null {
+		const selection = trimmedSelection(document, range);
+		if (!selection) {
+			return null;
+		}
+		const text = document.getText();
+		let { start, end } = selection;
+		while (text[start] === "(" && text[end - 1] === ")" && end - start > 2) {
+			start = skipWhitespace(text, start + 1, 1);
+			end = skipWhitespace(text, end - 1, -1);
+		}
+
+		let node = findNodeAt(ast, start);
+		while (node && node.range.end.offset < end) {
+			node = node.parent;
+		}
+		if (
+			!node ||
+			node.range.start.offset !== start ||
+			node.range.end.offset !== end ||
+			!isExpression(node)
+		) {
+			return null;
+		}
+
+		const parent = node.parent;
+		if (
+			// A statement of its own, whose value is not used
+			parent?.kind === "expression" ||
+			// The function called, not a value: point.move(1)
+			(parent?.kind === "call" && parent.callee === node) ||
+			// The variable assigned to: x = 1
+			(parent?.kind === "assignment" && parent.left === node) ||
+			// The message of send(counter, increment(1)) runs on the actor
+			(node.kind === "call" &&
+				getEnclosingActorMessage(node, (id) => this.resolver.resolve(id)))
+		) {
+			return null;
+		}
+		return node;
+	}
+
+	/**
+	 * Whether an identifier after `offset` in the function refers to the
+	 * declaration.
+	 */
+	private isUsedAfter(
+		declaration: ASTNode,
+		fn: ASTNode,
+		offset: number,
+	): boolean {
+		let used = false;
+		walk(fn, (node) => {
+			if (
+				!used &&
+				node.kind === "identifier" &&
+				node.range.start.offset >= offset &&
+				this.resolver.resolve(node) === declaration
+			) {
+				used = true;
+			}
+		});
+		return used;
+	}
+
+	/**
+	 * Whether the names in an initializer refer to the same declarations at
+	 * a use of the variable, and none of them is reassigned in between.
+	 */
+	private meansTheSameAt(initializer: ASTNode, use: ASTNode): boolean {
+		let same = true;
+		walk(initializer, (node) => {
+			if (!same || node.kind !== "identifier" || !node.name) {
+				return;
+			}
+			const declaration = this.resolver.resolve(node);
+			const atUse = this.resolver.lookup(
+				node.name,
+				use,
+				use.range.start.offset,
+			);
+			if (
+				declaration !== atUse ||
+				(declaration && this.isReassigned(declaration))
+			) {
+				same = false;
+			}
+		});
+		return same;
+	}
+
+	private isReassigned(declaration: ASTNode): boolean {
+		if (!declaration.mutable) {
+			return false;
+		}
+		let root = declaration;
+		while (root.parent) {
+			root = root.parent;
+		}
+		let reassigned = false;
+		walk(root, (node) => {
+			if (
+				node.kind === "assignment" &&
+				node.left?.kind === "identifier" &&
+				this.resolver.resolve(node.left) === declaration
+			) {
+				reassigned = true;
+			}
+		});
+		return reassigned;
+	}
+
+	/**
+	 * Names a new function must not take: those visible in the enclosing
+	 * function and the members of the class or actor it is added to.
+	 */
+	private visibleNames(
+		ast: ASTNode,
+		fn: ASTNode,
+		owner: ASTNode | null,
+	): Set<string> {
+		const names = new Set(
+			this.resolver
+				.getSymbolsAtLine(ast, fn.range.start.line)
+				.map((symbol) => symbol.name),
+		);
+		for (const member of owner?.children ?? []) {
+			names.add(member.name);
+		}
+		return names;
+	}
+}
+
+/**
+ * Offsets of a selection without the whitespace around it, or null when
+ * nothing but whitespace is selected.
+ */
+function trimmedSelection(
+	document: TextDocument,
+	range: Range,
+): { start: number; end: number } | null {
+	const text = document.getText();
+	const start = skipWhitespace(text, document.offsetAt(range.start), 1);
+	const end = skipWhitespace(text, document.offsetAt(range.end), -1);
+	return start < end ? { start, end } : null;
+}
+
+/**
+ * Move an offset forwards (1) or an end offset backwards (-1) past
+ * whitespace.
+ */
+function skipWhitespace(
+	text: string,
+	offset: number,
+	direction: 1 | -1,
+): number {
+	if (direction === 1) {
+		while (offset < text.length && /\s/.test(text[offset])) {
+			offset++;
+		}
+	} else {
+		while (offset > 0 && /\s/.test(text[offset - 1])) {
+			offset--;
+		}
+	}
+	return offset;
+}
+
+function enclosingFunction(node: ASTNode): ASTNode | null {
+	let parent = node.parent;
+	while (parent && parent.kind !== "function") {
+		parent = parent.parent;
+	}
+	return parent ?? null;
+}
+
+/**
+ * Whether a declaration is a parameter or local of a function, as opposed
+ * to a field or global the function can reach by itself.
+ */
+function isLocalTo(declaration: ASTNode, fn: ASTNode): boolean {
+	for (let node = declaration.parent; node; node = node.parent) {
+		if (node === fn) {
+			return true;
+		}
+	}
+	return false;
+}
+
+function isExpression(node: ASTNode): boolean {
+	switch (node.kind) {
+		case "binary":
+		case "unary":
+		case "call":
+		case "member":
+		case "index":
+		case "identifier":
+		case "number":
+		case "string":
+		case "char":
+		case "boolean":
+		case "null":
+			return true;
+		default:
+			return false;
+	}
+}
+
+/**
+ * Declarations and statements with a scope of their own, which an
+ * expression cannot be moved out of.
+ */
+function isDeclarationScope(node: ASTNode): boolean {
+	return (
+		node.kind === "function" || node.kind === "class" || node.kind === "actor"
+	);
+}
+
+function isPure(expression: ASTNode): boolean {
+	let pure = true;
+	walk(expression, (node) => {
+		if (!PURE_KINDS.has(node.kind)) {
+			pure = false;
+		}
+	});
+	return pure;
+}
+
+/**
+ * Whether the initializer of a variable, moved to a use, would run as it
+ * does at the declaration: the use is evaluated exactly once when the
+ * declaration is, and no call or assignment is evaluated in between.
+ */
+function runsInPlaceAt(declaration: ASTNode, use: ASTNode): boolean {
+	const block = declaration.parent;
+	for (let node = use; node.parent && node.parent !== block; ) {
+		const parent: ASTNode = node.parent;
+		if (
+			parent.kind === "while" ||
+			(parent.kind === "for" && parent.expression !== node) ||
+			(parent.kind === "if" && parent.condition !== node) ||
+			(parent.kind === "binary" &&
+				(parent.operator === "&&" || parent.operator === "||") &&
+				parent.right === node) ||
+			isDeclarationScope(parent)
+		) {
+			return false;
+		}
+		node = parent;
+	}
+
+	// Calls and assignments around the use run after it
+	const from = declaration.range.end.offset;
+	const to = use.range.start.offset;
+	let inBetween = false;
+	walk(block ?? declaration, (node) => {
+		if (
+			(node.kind === "call" || node.kind === "assignment") &&
+			from <= node.range.start.offset &&
+			node.range.start.offset < to &&
+			node.range.end.offset < use.range.end.offset
+		) {
+			inBetween = true;
+		}
+	});
+	return !inBetween;
+}
+
+/**
+ * Whether an inlined initializer must be parenthesized to keep its
+ * meaning where the variable was used, e.g. `(a + b) * 2`.
+ */
+function needsParentheses(initializer: ASTNode, use: ASTNode): boolean {
+	if (ATOMIC_KINDS.has(initializer.kind)) {
+		return false;
+	}
+	const parent = use.parent;
+	return (
+		parent?.kind === "binary" ||
+		parent?.kind === "unary" ||
+		((parent?.kind === "member" || parent?.kind === "index") &&
+			parent.object === use)
+	);
+}
+
+/**
+ * A name for the value of an expression: what a call or member access
+ * is named after without its verb, e.g. `total` for `cart.getTotal()`,
+ * or else the name of its type or of its receiver.
+ */
+function suggestVariableName(expression: ASTNode, type: TypeInfo): string {
+	const lowerFirst = (name: string) =>
+		name.replace(/^./, (c) => c.toLowerCase());
+	const named = expression.kind === "call" ? expression.callee : expression;
+	if (named?.kind !== "member" && named?.kind !== "identifier") {
+		return "value";
+	}
+	if (named.name && named.name !== "new") {
+		const verb = VERBS.find(
+			(verb) =>
+				named.name === verb ||
+				(named.name.startsWith(verb) && /[A-Z]/.test(named.name[verb.length])),
+		);
+		const rest = named.name.slice(verb?.length ?? 0);
+		const word = rest.match(/^[A-Z]?[a-z0-9]*/)?.[0] ?? "";
+		if (rest && !PREPOSITIONS.has(word)) {
+			return lowerFirst(rest);
+		}
+	}
+	if (isDenotable(type) && type.kind !== "Unit") {
+		return lowerFirst(type.readonlyName ?? type.kind);
+	}
+	if (named.object?.kind === "identifier" && named.object.name) {
+		return named.object.name;
+	}
+	return "value";
+}
+
+/**
+ * `base`, or `base` followed by the first number that makes it unique.
+ */
+function uniqueName(base: string, taken: Set<string>): string {
+	let name = base;
+	for (let i = 2; taken.has(name); i++) {
+		name = `${base}${i}`;
+	}
+	return name;
+}
+
+/**
+ * Move lines of code from one indentation to another. The first line is
+ * taken to start right after its indentation.
+ */
+function reindent(source: string, from: string, to: string): string {
+	return source
+		.split("\n")
+		.map((line, i) => {
+			if (line.trim() === "") {
+				return "";
+			}
+			return (
+				to + (i > 0 && line.startsWith(from) ? line.slice(from.length) : line)
+			);
+		})
+		.join("\n");
+}
+
+/**
+ * The text to remove with a declaration: its whole lines when nothing
+ * else is on them.
+ */
+function lineSpan(text: string, node: ASTNode): { start: number; end: number } {
+	let start = node.range.start.offset;
+	let end = node.range.end.offset;
+	const lineStart = text.lastIndexOf("\n", start - 1) + 1;
+	let lineEnd = text.indexOf("\n", end);
+	if (lineEnd === -1) {
+		lineEnd = text.length;
+	}
+	if (
+		text.slice(lineStart, start).trim() === "" &&
+		text.slice(end, lineEnd).trim() === ""
+	) {
+		start = lineStart;
+		end = Math.min(lineEnd + 1, text.length);
+	}
+	return { start, end };
+}
+
+function insert(
+	document: TextDocument,
+	offset: number,
+	newText: string,
+): TextEdit {
+	return replace(document, offset, offset, newText);
+}
+
+function replace(
+	document: TextDocument,
+	start: number,
+	end: number,
+	newText: string,
+): TextEdit {
+	return {
+		range: { start: document.positionAt(start), end: document.positionAt(end) },
+		newText,
+	};
+}
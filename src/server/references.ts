@@ -0,0 +1,127 @@
+import type {
+	CancellationToken,
+	Location,
+	Position,
+	ReferenceContext,
+} from "vscode-languageserver";
+import type { TextDocument } from "vscode-languageserver-textdocument";
+import { type ASTNode, findNodeAt } from "../core/ast";
+import { isGlobalDeclaration, ScopeResolver, type TypeOf } from "../core/scope";
+import { toRange } from "./convert";
+import type { DocumentInferenceService } from "./inferenceService";
+import type { WorkspaceIndex } from "./workspaceIndex";
+
+const resolver = new ScopeResolver();
+
+export interface SymbolLocations {
+	declaration: Location;
+	references: Location[]; // excluding the declaration
+}
+
+/**
+ * Find the declaration of the symbol at the given position and all
+ * references bound to it. Global declarations (top-level classes, actors
+ * and functions) are searched for in every Synotra file of the workspace.
+ * Returns null when there is no declared symbol at the position.
+ */
+export async function findSymbolLocations(
+	inferenceService: DocumentInferenceService,
+	index: WorkspaceIndex,
+	document: TextDocument,
+	position: Position,
+	token: CancellationToken,
+): Promise<SymbolLocations | null> {
+	const analysis = await inferenceService.getInferenceResult(document, token);
+	if (!analysis) {
+		return null;
+	}
+	const { ast, types } = analysis;
+	const typeOf: TypeOf = (expr) => inferenceService.typeOf(expr, types);
+	const offset = document.offsetAt(position);
+	const declaration = resolver.getDefinition(ast, offset, typeOf);
+
+	if (declaration && !isGlobalDeclaration(declaration)) {
+		// Locals, and members accessed through receivers whose types are
+		// inferred per file, are only looked for in the same file
+		const [first, ...rest] = resolver.findReferences(ast, declaration, typeOf);
+		return {
+			declaration: toLocation(document.uri, first),
+			references: rest.map((node) => toLocation(document.uri, node)),
+		};
+	}
+
+	const name = declaration?.name ?? unresolvedNameAt(ast, offset);
+	if (!name) {
+		return null;
+	}
+
+	// Global declaration, possibly declared in another file
+	const files = await index.findGlobalReferences(name, {
+		uri: document.uri,
+		ast,
+	});
+	if (token.isCancellationRequested) {
+		return null;
+	}
+
+	let result: Location | null = null;
+	const references: Location[] = [];
+	for (const file of files) {
+		const locations = file.references.map((range) => ({
+			uri: file.uri,
+			range: toRange(range),
+		}));
+		if (file.declaration && !result) {
+			result = { uri: file.uri, range: toRange(file.declaration) };
+			references.push(...locations);
+		} else if (!file.declaration) {
+			references.push(...locations);
+		}
+	}
+
+	return result ? { declaration: result, references } : null;
+}
+
+/**
+ * Name of an identifier or type name at the offset that no declaration in
+ * the file captures, i.e. a candidate reference to another file.
+ */
+function unresolvedNameAt(ast: ASTNode, offset: number): string | null {
+	const node = findNodeAt(ast, offset);
+	if (node?.kind === "identifier" || node?.kind === "typeRef") {
+		return node.name || null;
+	}
+	return null;
+}
+
+function toLocation(uri: string, node: ASTNode): Location {
+	return { uri, range: toRange(node.nameRange ?? node.range) };
+}
+
+export default class References {
+	constructor(
+		private inferenceService: DocumentInferenceService,
+		private index: WorkspaceIndex,
+	) {}
+
+	async provideReferences(
+		document: TextDocument,
+		position: Position,
+		context: ReferenceContext,
+		token: CancellationToken,
+	): Promise<Location[] | null> {
+		const locations = await findSymbolLocations(
+			this.inferenceService,
+			this.index,
+			document,
+			position,
+			token,
+		);
+		if (!locations) {
+			return null;
+		}
+		return context.includeDeclaration
+			? [locations.declaration, ...locations.references]
+			: locations.references;
+	}
+}
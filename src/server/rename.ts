@@ -0,0 +1,107 @@
+import {
+	type CancellationToken,
+	LSPErrorCodes,
+	type Position,
+	type Range,
+	ResponseError,
+	type TextEdit,
+	type WorkspaceEdit,
+} from "vscode-languageserver";
+import type { TextDocument } from "vscode-languageserver-textdocument";
+import { LEXER_KEYWORDS } from "../core/lexer";
+import { getWordRangeAtPosition } from "./convert";
+import type { DocumentInferenceService } from "./inferenceService";
+import { KEYWORDS } from "./keywords";
+import { findSymbolLocations } from "./references";
+import type { WorkspaceIndex } from "./workspaceIndex";
+
+const IDENTIFIER_REGEX = /^[a-zA-Z_][a-zA-Z0-9_]*$/;
+
+function isReserved(name: string): boolean {
+	return LEXER_KEYWORDS.has(name) || KEYWORDS.some((kw) => kw.label === name);
+}
+
+/**
+ * Error shown to the user when a rename is rejected.
+ */
+function renameError(message: string): ResponseError<void> {
+	return new ResponseError(LSPErrorCodes.RequestFailed, message);
+}
+
+/**
+ * Rename Symbol for variables, parameters, fields, functions, classes and
+ * actors. Only references bound to the same declaration are renamed,
+ * including fields and functions used through a receiver (`p.sum()`).
+ */
+export default class Rename {
+	constructor(
+		private inferenceService: DocumentInferenceService,
+		private index: WorkspaceIndex,
+	) {}
+
+	async prepareRename(
+		document: TextDocument,
+		position: Position,
+		token: CancellationToken,
+	): Promise<{ range: Range; placeholder: string } | null> {
+		const wordRange = getWordRangeAtPosition(document, position);
+		if (!wordRange) {
+			throw renameError("You cannot rename this element.");
+		}
+
+		const word = document.getText(wordRange);
+		if (isReserved(word)) {
+			throw renameError(
+				`'${word}' is a keyword or built-in and cannot be renamed.`,
+			);
+		}
+
+		const locations = await findSymbolLocations(
+			this.inferenceService,
+			this.index,
+			document,
+			position,
+			token,
+		);
+		if (token.isCancellationRequested) {
+			return null;
+		}
+		if (!locations) {
+			throw renameError(`Cannot find the declaration of '${word}'.`);
+		}
+
+		return { range: wordRange, placeholder: word };
+	}
+
+	async provideRenameEdits(
+		document: TextDocument,
+		position: Position,
+		newName: string,
+		token: CancellationToken,
+	): Promise<WorkspaceEdit | null> {
+		if (!IDENTIFIER_REGEX.test(newName)) {
+			throw renameError(`'${newName}' is not a valid identifier.`);
+		}
+		if (isReserved(newName)) {
+			throw renameError(`'${newName}' is a keyword or built-in.`);
+		}
+
+		const locations = await findSymbolLocations(
+			this.inferenceService,
+			this.index,
+			document,
+			position,
+			token,
+		);
+		if (!locations) {
+			return null;
+		}
+
+		const changes: Record<string, TextEdit[]> = {};
+		for (const location of [locations.declaration, ...locations.references]) {
+			changes[location.uri] ??= [];
+			changes[location.uri].push({ range: location.range, newText: newName });
+		}
+		return { changes };
+	}
+}
@@ -0,0 +1,307 @@
+import type { AnalysisResult, ReusedNode } from "../core/analyzer";
+import { type AnalysisDiagnostic, type ASTNode, walk } from "../core/ast";
+import type { IoOperation } from "../core/effects";
+import { copyNode, replaceDeclarations } from "../core/incremental";
+import type { TypeInfo } from "../core/inference";
+
+/**
+ * An analysis result as the analysis worker posts it to the server. Each
+ * result is encoded against the previous one of the same document, so
+ * that top-level declarations copied by the analyzer are not sent again,
+ * and types and effects are keyed by node references instead of nodes.
+ */
+export interface EncodedResult {
+	program: ASTNode; // the root, without children
+	units: EncodedUnit[]; // one per top-level node
+	types: [NodeRef, EncodedType][];
+	effects: [NodeRef, EncodedOperation[]][];
+	diagnostics: AnalysisDiagnostic[];
+}
+
+export type EncodedUnit =
+	| { node: ASTNode } // without its parent link
+	| {
+			copyOf: number; // index of the top-level node in the previous result
+			lineDelta: number;
+			offsetDelta: number;
+			takenOver: boolean; // types and effects are those of the previous result
+	  };
+
+// Unit index and index of the node in a preorder walk of the unit; the
+// unit is -1 for the root
+export type NodeRef = [number, number];
+
+export interface EncodedType
+	extends Omit<TypeInfo, "generics" | "params" | "returnType" | "declaration"> {
+	generics?: EncodedType[];
+	params?: EncodedType[];
+	returnType?: EncodedType;
+	declaration?: NodeRef;
+}
+
+export interface EncodedOperation extends Omit<IoOperation, "call"> {
+	call: NodeRef;
+}
+
+const ROOT: NodeRef = [-1, 0];
+
+/**
+ * Encodes the results of the analysis worker, remembering the last result
+ * sent for each document.
+ */
+export class ResultEncoder {
+	private sent = new Map<string, AnalysisResult>(); // uri -> last result
+
+	/**
+	 * Encode a result of a document. `reused` are its top-level nodes that
+	 * were copied from the previous result of the document.
+	 */
+	encode(
+		uri: string,
+		result: AnalysisResult,
+		reused: Map<ASTNode, ReusedNode>,
+	): EncodedResult {
+		const previous = this.sent.get(uri);
+		const previousIndex = new Map(
+			previous?.ast.children.map((node, index) => [node, index]),
+		);
+
+		const refs = new Map<ASTNode, NodeRef>([[result.ast, ROOT]]);
+		const takenOver: (ASTNode[] | null)[] = []; // previous nodes in preorder
+		const units = result.ast.children.map((node, unit): EncodedUnit => {
+			let index = 0;
+			walk(node, (child) => {
+				refs.set(child, [unit, index++]);
+			});
+			const copied = reused.get(node);
+			const copyOf = copied && previousIndex.get(copied.previous);
+			takenOver.push(copied?.takenOver && copyOf !== undefined ? [] : null);
+			if (!copied || copyOf === undefined) {
+				return { node: detach(node) };
+			}
+			if (copied.takenOver) {
+				walk(copied.previous, (child) => {
+					takenOver[unit]?.push(child);
+				});
+			}
+			return {
+				copyOf,
+				lineDelta: node.range.start.line - copied.previous.range.start.line,
+				offsetDelta:
+					node.range.start.offset - copied.previous.range.start.offset,
+				takenOver: copied.takenOver,
+			};
+		});
+
+		const refOf = (node: ASTNode) => {
+			const ref = refs.get(node);
+			if (!ref) {
+				throw new Error(`${node.kind} ${node.name} is not in the AST`);
+			}
+			return ref;
+		};
+		// Types and effects of nodes in units taken over are those of the
+		// previous nodes in the same place, which the decoder has already
+		const fromPrevious = (
+			[unit, index]: NodeRef,
+			previousMap: Map<ASTNode, unknown> | undefined,
+		) => {
+			const nodes = takenOver[unit];
+			return !!nodes && !!previousMap?.has(nodes[index]);
+		};
+
+		const types: [NodeRef, EncodedType][] = [];
+		for (const [node, type] of result.types) {
+			const ref = refs.get(node);
+			if (ref && !fromPrevious(ref, previous?.types)) {
+				types.push([ref, encodeType(type, refOf)]);
+			}
+		}
+		const effects: [NodeRef, EncodedOperation[]][] = [];
+		for (const [fn, operations] of result.effects) {
+			const ref = refs.get(fn);
+			if (ref && !fromPrevious(ref, previous?.effects)) {
+				effects.push([
+					ref,
+					operations.map((operation) => ({
+						description: operation.description,
+						call: refOf(operation.call),
+					})),
+				]);
+			}
+		}
+
+		this.sent.set(uri, result);
+		return {
+			program: { ...result.ast, children: [] },
+			units,
+			types,
+			effects,
+			diagnostics: result.diagnostics,
+		};
+	}
+
+	forget(uri: string): void {
+		this.sent.delete(uri);
+	}
+}
+
+/**
+ * Decodes the results posted by the analysis worker, remembering the last
+ * result received for each document.
+ */
+export class ResultDecoder {
+	private received = new Map<string, AnalysisResult>(); // uri -> last result
+
+	decode(uri: string, encoded: EncodedResult): AnalysisResult {
+		const previous = this.received.get(uri);
+		const ast: ASTNode = { ...encoded.program, children: [] };
+
+		// Copy the units taken over from the previous result, as the analyzer
+		// did, so that their types can be replaced in the same way
+		const copies = new Map<ASTNode, ASTNode>();
+		const takenOver: ASTNode[] = []; // previous top-level nodes
+		for (const unit of encoded.units) {
+			let node: ASTNode;
+			if ("node" in unit) {
+				node = unit.node;
+			} else {
+				const copied = previous?.ast.children[unit.copyOf];
+				if (!copied) {
+					throw new Error(`No previous result of ${uri} to decode against`);
+				}
+				node = copyNode(copied, unit.lineDelta, unit.offsetDelta, copies);
+				if (unit.takenOver) {
+					takenOver.push(copied);
+				}
+			}
+			node.parent = ast;
+			ast.children.push(node);
+		}
+
+		const typeDeclarations = new Map<string, ASTNode>();
+		for (const node of ast.children) {
+			if (node.kind === "class" || node.kind === "actor") {
+				typeDeclarations.set(node.name, node);
+			}
+		}
+		const replace = (declaration: ASTNode) =>
+			copies.get(declaration) ?? typeDeclarations.get(declaration.name) ?? null;
+
+		const types = new Map<ASTNode, TypeInfo>();
+		const effects = new Map<ASTNode, IoOperation[]>();
+		for (const unit of takenOver) {
+			walk(unit, (node) => {
+				const copy = copies.get(node);
+				if (!copy) {
+					return;
+				}
+				const type = previous?.types.get(node);
+				const replaced = type && replaceDeclarations(type, replace);
+				if (replaced) {
+					types.set(copy, replaced);
+				}
+				const operations = previous?.effects.get(node);
+				if (operations) {
+					effects.set(
+						copy,
+						operations.map((operation) => ({
+							...operation,
+							call: copies.get(operation.call) ?? operation.call,
+						})),
+					);
+				}
+			});
+		}
+
+		const preorder: ASTNode[][] = []; // by unit, built when needed
+		const nodeOf = ([unit, index]: NodeRef): ASTNode => {
+			if (unit < 0) {
+				return ast;
+			}
+			if (!preorder[unit]) {
+				preorder[unit] = [];
+				walk(ast.children[unit], (node) => {
+					preorder[unit].push(node);
+				});
+			}
+			return preorder[unit][index];
+		};
+		for (const [ref, type] of encoded.types) {
+			types.set(nodeOf(ref), decodeType(type, nodeOf));
+		}
+		for (const [ref, operations] of encoded.effects) {
+			effects.set(
+				nodeOf(ref),
+				operations.map((operation) => ({
+					description: operation.description,
+					call: nodeOf(operation.call),
+				})),
+			);
+		}
+
+		const result = { ast, types, effects, diagnostics: encoded.diagnostics };
+		this.received.set(uri, result);
+		return result;
+	}
+
+	forget(uri: string): void {
+		this.received.delete(uri);
+	}
+
+	clear(): void {
+		this.received.clear();
+	}
+}
+
+/**
+ * Copy of a top-level node that is not linked to its parent, so that
+ * posting it does not post the whole AST.
+ */
+function detach(node: ASTNode): ASTNode {
+	const copy = copyNode(node, 0, 0, new Map());
+	copy.parent = null;
+	return copy;
+}
+
+function encodeType(
+	type: TypeInfo,
+	refOf: (node: ASTNode) => NodeRef,
+): EncodedType {
+	const { generics, params, returnType, declaration, ...rest } = type;
+	const encoded: EncodedType = rest;
+	if (generics) {
+		encoded.generics = generics.map((item) => encodeType(item, refOf));
+	}
+	if (params) {
+		encoded.params = params.map((item) => encodeType(item, refOf));
+	}
+	if (returnType) {
+		encoded.returnType = encodeType(returnType, refOf);
+	}
+	if (declaration) {
+		encoded.declaration = refOf(declaration);
+	}
+	return encoded;
+}
+
+function decodeType(
+	type: EncodedType,
+	nodeOf: (ref: NodeRef) => ASTNode,
+): TypeInfo {
+	const { generics, params, returnType, declaration, ...rest } = type;
+	const decoded: TypeInfo = rest;
+	if (generics) {
+		decoded.generics = generics.map((item) => decodeType(item, nodeOf));
+	}
+	if (params) {
+		decoded.params = params.map((item) => decodeType(item, nodeOf));
+	}
+	if (returnType) {
+		decoded.returnType = decodeType(returnType, nodeOf);
+	}
+	if (declaration) {
+		decoded.declaration = nodeOf(declaration);
+	}
+	return decoded;
+}
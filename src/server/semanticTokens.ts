@@ -0,0 +1,360 @@
+import {
+	type CancellationToken,
+	type Disposable,
+	LSPErrorCodes,
+	type SemanticTokens as LspSemanticTokens,
+	type Range,
+	ResponseError,
+	SemanticTokensBuilder,
+	type SemanticTokensDelta,
+	type SemanticTokensEdit,
+	type SemanticTokensLegend,
+	type TextDocuments,
+} from "vscode-languageserver";
+import type { TextDocument } from "vscode-languageserver-textdocument";
+import { type ASTNode, type SourceRange, walk } from "../core/ast";
+import { getBuiltinFunction, getBuiltinMethods } from "../core/builtins";
+import { type TypeInfo, typeNameToKind } from "../core/inference";
+import { findHandler, getEnclosingActorMessage } from "../core/messaging";
+import { findMember, isField, ScopeResolver } from "../core/scope";
+import type { DocumentInferenceService } from "./inferenceService";
+
+// "actor" and "io" are not standard; VS Code learns them from package.json
+const TOKEN_TYPES = [
+	"class",
+	"actor",
+	"type",
+	"function",
+	"method",
+	"parameter",
+	"variable",
+	"property",
+] as const;
+const TOKEN_MODIFIERS = [
+	"declaration",
+	"readonly",
+	"io",
+	"defaultLibrary",
+] as const;
+
+type TokenType = (typeof TOKEN_TYPES)[number];
+type TokenModifier = (typeof TOKEN_MODIFIERS)[number];
+
+export const SEMANTIC_TOKENS_LEGEND: SemanticTokensLegend = {
+	tokenTypes: [...TOKEN_TYPES],
+	tokenModifiers: [...TOKEN_MODIFIERS],
+};
+
+interface Token {
+	range: SourceRange;
+	type: TokenType;
+	modifiers: TokenModifier[];
+}
+
+interface Classification {
+	type: TokenType;
+	modifiers: TokenModifier[];
+}
+
+/**
+ * Semantic highlighting from the AST and inferred types: classes, actors,
+ * (io) functions and methods, parameters, readonly (`val`) and mutable
+ * (`var`) variables and fields, and built-in types and functions.
+ *
+ * Full results are kept per document so that later requests can be
+ * answered with a delta.
+ */
+export default class SemanticTokens implements Disposable {
+	private resolver = new ScopeResolver();
+	private previous = new Map<string, LspSemanticTokens>(); // uri -> last full result
+	private nextResultId = 1;
+	private disposables: Disposable[] = [];
+
+	constructor(
+		private inferenceService: DocumentInferenceService,
+		documents: TextDocuments<TextDocument>,
+	) {
+		this.disposables.push(
+			documents.onDidClose((e) => {
+				this.previous.delete(e.document.uri);
+			}),
+		);
+	}
+
+	async provideDocumentSemanticTokens(
+		document: TextDocument,
+		token: CancellationToken,
+	): Promise<LspSemanticTokens> {
+		const tokens = await this.buildTokens(document, null, token);
+		this.previous.set(document.uri, tokens);
+		return tokens;
+	}
+
+	async provideDocumentSemanticTokensEdits(
+		document: TextDocument,
+		previousResultId: string,
+		token: CancellationToken,
+	): Promise<LspSemanticTokens | SemanticTokensDelta> {
+		const previous = this.previous.get(document.uri);
+		const tokens = await this.buildTokens(document, null, token);
+		this.previous.set(document.uri, tokens);
+
+		if (previous?.resultId !== previousResultId) {
+			return tokens;
+		}
+		return {
+			resultId: tokens.resultId,
+			edits: diffTokenData(previous.data, tokens.data),
+		};
+	}
+
+	provideDocumentRangeSemanticTokens(
+		document: TextDocument,
+		range: Range,
+		token: CancellationToken,
+	): Promise<LspSemanticTokens> {
+		return this.buildTokens(
+			document,
+			{
+				start: document.offsetAt(range.start),
+				end: document.offsetAt(range.end),
+			},
+			token,
+		);
+	}
+
+	/**
+	 * Encode the tokens of the document, or of the nodes overlapping the
+	 * given offsets. When the document was edited before it could be
+	 * analyzed, the client is told to keep its tokens and ask again.
+	 */
+	private async buildTokens(
+		document: TextDocument,
+		within: { start: number; end: number } | null,
+		cancellation: CancellationToken,
+	): Promise<LspSemanticTokens> {
+		const result = await this.inferenceService.getInferenceResult(
+			document,
+			cancellation,
+		);
+		if (!result) {
+			throw new ResponseError(
+				LSPErrorCodes.ContentModified,
+				"The document was modified",
+			);
+		}
+		const { ast, types } = result;
+		const tokens: Token[] = [];
+		this.collectTokens(ast, types, within, tokens);
+		tokens.sort((a, b) => a.range.start.offset - b.range.start.offset);
+
+		const builder = new SemanticTokensBuilder();
+		let lastEnd = -1;
+		for (const token of tokens) {
+			// Skip overlaps, which the encoding cannot represent
+			if (token.range.start.offset < lastEnd) {
+				continue;
+			}
+			builder.push(
+				token.range.start.line,
+				token.range.start.character,
+				token.range.end.offset - token.range.start.offset,
+				TOKEN_TYPES.indexOf(token.type),
+				encodeModifiers(token.modifiers),
+			);
+			lastEnd = token.range.end.offset;
+		}
+		return {
+			resultId: String(this.nextResultId++),
+			data: builder.build().data,
+		};
+	}
+
+	private collectTokens(
+		node: ASTNode,
+		types: Map<ASTNode, TypeInfo>,
+		within: { start: number; end: number } | null,
+		tokens: Token[],
+	): void {
+		if (
+			within &&
+			(node.range.end.offset < within.start ||
+				node.range.start.offset > within.end)
+		) {
+			return;
+		}
+
+		const classification = this.classifyNode(node, types);
+		if (classification && node.nameRange && node.name) {
+			tokens.push({ range: node.nameRange, ...classification });
+		}
+		for (const child of node.children) {
+			this.collectTokens(child, types, within, tokens);
+		}
+	}
+
+	private classifyNode(
+		node: ASTNode,
+		types: Map<ASTNode, TypeInfo>,
+	): Classification | null {
+		switch (node.kind) {
+			case "class":
+			case "actor":
+			case "function":
+			case "parameter":
+			case "variable": {
+				const classification = classifyDeclaration(node);
+				classification.modifiers.push("declaration");
+				return classification;
+			}
+			case "identifier":
+				return this.classifyIdentifier(node, types);
+			case "typeRef": {
+				const declaration = this.resolver.resolveType(node.name, node);
+				if (declaration) {
+					return classifyDeclaration(declaration);
+				}
+				return isBuiltinTypeName(node.name)
+					? { type: "type", modifiers: ["defaultLibrary"] }
+					: null;
+			}
+			case "member":
+				return this.classifyMember(node, types);
+			default:
+				return null;
+		}
+	}
+
+	private classifyIdentifier(
+		identifier: ASTNode,
+		types: Map<ASTNode, TypeInfo>,
+	): Classification | null {
+		const declaration = this.resolver.resolve(identifier);
+		if (declaration) {
+			return classifyDeclaration(declaration);
+		}
+
+		// Handler named by an actor message: increment in send(c, increment(1))
+		const call = identifier.parent;
+		if (call?.kind === "call" && call.callee === identifier) {
+			const message = getEnclosingActorMessage(call, (id) =>
+				this.resolver.resolve(id),
+			);
+			const actor = message?.target
+				? this.inferenceService.typeOf(message.target, types).declaration
+				: undefined;
+			const handler = actor ? findHandler(actor, call) : null;
+			if (handler) {
+				return classifyDeclaration(handler);
+			}
+			if (getBuiltinFunction(identifier.name)) {
+				return { type: "function", modifiers: ["defaultLibrary"] };
+			}
+		}
+
+		// Receiver of a constructor call: List<Int>.new()
+		return isBuiltinTypeName(identifier.name)
+			? { type: "type", modifiers: ["defaultLibrary"] }
+			: null;
+	}
+
+	private classifyMember(
+		member: ASTNode,
+		types: Map<ASTNode, TypeInfo>,
+	): Classification | null {
+		if (!member.object) {
+			return null;
+		}
+		const receiver = this.inferenceService.typeOf(member.object, types);
+		const declaration = receiver.declaration
+			? findMember(receiver.declaration, member.name)
+			: null;
+		if (declaration) {
+			return classifyDeclaration(declaration);
+		}
+		return getBuiltinMethods(receiver).some((m) => m.name === member.name)
+			? { type: "method", modifiers: ["defaultLibrary"] }
+			: null;
+	}
+
+	dispose() {
+		this.disposables.forEach((d) => {
+			d.dispose();
+		});
+		this.previous.clear();
+	}
+}
+
+function classifyDeclaration(declaration: ASTNode): Classification {
+	const readonly: TokenModifier[] = declaration.mutable ? [] : ["readonly"];
+	switch (declaration.kind) {
+		case "class":
+			return { type: "class", modifiers: [] };
+		case "actor":
+			return { type: "actor", modifiers: [] };
+		case "function": {
+			const owner = declaration.parent?.kind;
+			return {
+				type: owner === "class" || owner === "actor" ? "method" : "function",
+				modifiers: declaration.isIo ? ["io"] : [],
+			};
+		}
+		case "parameter":
+			return {
+				type: isField(declaration) ? "property" : "parameter",
+				modifiers: readonly,
+			};
+		default:
+			return {
+				type: isField(declaration) ? "property" : "variable",
+				modifiers: readonly,
+			};
+	}
+}
+
+function isBuiltinTypeName(name: string): boolean {
+	return typeNameToKind(name) !== "Unknown" || name === "Any";
+}
+
+function encodeModifiers(modifiers: TokenModifier[]): number {
+	let bits = 0;
+	for (const modifier of modifiers) {
+		bits |= 1 << TOKEN_MODIFIERS.indexOf(modifier);
+	}
+	return bits;
+}
+
+/**
+ * A single edit replacing the part of `previous` that differs from
+ * `current`, or no edits when they are equal.
+ */
+function diffTokenData(
+	previous: number[],
+	current: number[],
+): SemanticTokensEdit[] {
+	let prefix = 0;
+	const shorter = Math.min(previous.length, current.length);
+	while (prefix < shorter && previous[prefix] === current[prefix]) {
+		prefix++;
+	}
+	if (prefix === previous.length && prefix === current.length) {
+		return [];
+	}
+
+	let suffix = 0;
+	while (
+		suffix < shorter - prefix &&
+		previous[previous.length - 1 - suffix] ===
+			current[current.length - 1 - suffix]
+	) {
+		suffix++;
+	}
+
+	return [
+		{
+			start: prefix,
+			deleteCount: previous.length - prefix - suffix,
+			data: current.slice(prefix, current.length - suffix),
+		},
+	];
+}
@@ -0,0 +1,297 @@
+#!/usr/bin/env node
+import {
+	type CancellationToken,
+	createConnection,
+	type InitializeResult,
+	ProposedFeatures,
+	TextDocumentSyncKind,
+	TextDocuments,
+} from "vscode-languageserver/node";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { InProcessAnalysisHost, WorkerAnalysisHost } from "./analysisHost";
+import CodeActions from "./codeActions";
+import Completion from "./completion";
+import Definition from "./definition";
+import Diagnostics from "./diagnostics";
+import Formatting from "./formatting";
+import Hover from "./hover";
+import { DocumentInferenceService } from "./inferenceService";
+import Inlay from "./inlay";
+import References from "./references";
+import Rename from "./rename";
+import SemanticTokens, { SEMANTIC_TOKENS_LEGEND } from "./semanticTokens";
+import SignatureHelp from "./signatureHelp";
+import Symbols from "./symbols";
+import { WorkspaceIndex } from "./workspaceIndex";
+import WorkspaceSymbols from "./workspaceSymbols";
+
+/**
+ * Synotra language server. The transport (--stdio, --node-ipc or
+ * --socket=<port>) is chosen by the command-line arguments, so any editor
+ * with an LSP client can start it.
+ *
+ * Documents are analyzed in a worker thread so that requests keep being
+ * answered while a large file is analyzed. --in-process-analysis analyzes
+ * them on the main thread instead, e.g. for debugging.
+ */
+
+const connection = createConnection(ProposedFeatures.all);
+
+// stdout carries the protocol; send logging to the client instead
+console.log = connection.console.log.bind(connection.console);
+console.error = connection.console.error.bind(connection.console);
+
+const analysisHost = process.argv.includes("--in-process-analysis")
+	? new InProcessAnalysisHost()
+	: new WorkerAnalysisHost();
+
+// Create a shared inference service for all providers
+const inferenceService = new DocumentInferenceService(analysisHost);
+
+// Edits are passed on to the inference service so that documents can be
+// reparsed incrementally
+const documents = new TextDocuments<TextDocument>({
+	create: TextDocument.create,
+	update: (document, changes, version) =>
+		inferenceService.update(document, changes, version),
+});
+documents.onDidClose((e) => {
+	inferenceService.forget(e.document.uri);
+});
+
+// Index of all Synotra files, for features that span the workspace
+const workspaceIndex = new WorkspaceIndex(
+	inferenceService,
+	documents,
+	analysisHost,
+);
+
+const completion = new Completion(inferenceService, workspaceIndex);
+const hover = new Hover(inferenceService);
+const inlay = new Inlay(inferenceService);
+const definition = new Definition(inferenceService);
+const references = new References(inferenceService, workspaceIndex);
+const rename = new Rename(inferenceService, workspaceIndex);
+const signatureHelp = new SignatureHelp(inferenceService, workspaceIndex);
+const codeActions = new CodeActions(inferenceService);
+const semanticTokens = new SemanticTokens(inferenceService, documents);
+const formatting = new Formatting();
+const symbols = new Symbols(inferenceService);
+const workspaceSymbols = new WorkspaceSymbols(workspaceIndex);
+const diagnostics = new Diagnostics(connection, documents, inferenceService);
+
+// Whether names are declared depends on the other files of the workspace
+workspaceIndex.onDidChangeFiles(() => {
+	inferenceService.invalidate();
+	diagnostics.refresh();
+});
+
+let workspaceFolders: string[] = [];
+
+connection.onInitialize((params): InitializeResult => {
+	workspaceFolders =
+		params.workspaceFolders?.map((folder) => folder.uri) ??
+		(params.rootUri ? [params.rootUri] : []);
+
+	return {
+		capabilities: {
+			textDocumentSync: TextDocumentSyncKind.Incremental,
+			completionProvider: { triggerCharacters: ["."] },
+			hoverProvider: true,
+			inlayHintProvider: true,
+			definitionProvider: true,
+			typeDefinitionProvider: true,
+			referencesProvider: true,
+			renameProvider: { prepareProvider: true },
+			signatureHelpProvider: { triggerCharacters: ["(", ","] },
+			codeActionProvider: {
+				codeActionKinds: CodeActions.providedCodeActionKinds,
+			},
+			semanticTokensProvider: {
+				legend: SEMANTIC_TOKENS_LEGEND,
+				full: { delta: true },
+				range: true,
+			},
+			documentFormattingProvider: true,
+			documentRangeFormattingProvider: true,
+			documentOnTypeFormattingProvider: {
+				firstTriggerCharacter: "}",
+				moreTriggerCharacter: ["\n"],
+			},
+			documentSymbolProvider: true,
+			workspaceSymbolProvider: true,
+		},
+		serverInfo: { name: "synotra-language-server" },
+	};
+});
+
+connection.onInitialized(() => {
+	workspaceIndex.scan(workspaceFolders);
+});
+
+connection.onDidChangeWatchedFiles((params) => {
+	workspaceIndex.applyFileEvents(params.changes);
+});
+
+connection.onCompletion((params, token) =>
+	withDocument(params.textDocument.uri, token, [], (document) =>
+		completion.provideCompletionItems(document, params.position, token),
+	),
+);
+
+connection.onHover((params, token) =>
+	withDocument(params.textDocument.uri, token, null, (document) =>
+		hover.provideHover(document, params.position, token),
+	),
+);
+
+connection.languages.inlayHint.on((params, token) =>
+	withDocument(params.textDocument.uri, token, [], (document) =>
+		inlay.provideInlayHints(document, params.range, token),
+	),
+);
+
+connection.onDefinition((params, token) =>
+	withDocument(params.textDocument.uri, token, null, (document) =>
+		definition.provideDefinition(document, params.position, token),
+	),
+);
+
+connection.onTypeDefinition((params, token) =>
+	withDocument(params.textDocument.uri, token, null, (document) =>
+		definition.provideTypeDefinition(document, params.position, token),
+	),
+);
+
+connection.onReferences((params, token) =>
+	withDocument(params.textDocument.uri, token, null, (document) =>
+		references.provideReferences(
+			document,
+			params.position,
+			params.context,
+			token,
+		),
+	),
+);
+
+connection.onPrepareRename((params, token) =>
+	withDocument(params.textDocument.uri, token, null, (document) =>
+		rename.prepareRename(document, params.position, token),
+	),
+);
+
+connection.onRenameRequest((params, token) =>
+	withDocument(params.textDocument.uri, token, null, (document) =>
+		rename.provideRenameEdits(document, params.position, params.newName, token),
+	),
+);
+
+connection.onSignatureHelp((params, token) =>
+	withDocument(params.textDocument.uri, token, null, (document) =>
+		signatureHelp.provideSignatureHelp(document, params.position, token),
+	),
+);
+
+connection.onCodeAction((params, token) =>
+	withDocument(params.textDocument.uri, token, [], (document) =>
+		codeActions.provideCodeActions(
+			document,
+			params.range,
+			params.context,
+			token,
+		),
+	),
+);
+
+connection.languages.semanticTokens.on((params, token) =>
+	withDocument(params.textDocument.uri, token, { data: [] }, (document) =>
+		semanticTokens.provideDocumentSemanticTokens(document, token),
+	),
+);
+
+connection.languages.semanticTokens.onDelta((params, token) =>
+	withDocument(params.textDocument.uri, token, { data: [] }, (document) =>
+		semanticTokens.provideDocumentSemanticTokensEdits(
+			document,
+			params.previousResultId,
+			token,
+		),
+	),
+);
+
+connection.languages.semanticTokens.onRange((params, token) =>
+	withDocument(params.textDocument.uri, token, { data: [] }, (document) =>
+		semanticTokens.provideDocumentRangeSemanticTokens(
+			document,
+			params.range,
+			token,
+		),
+	),
+);
+
+connection.onDocumentFormatting((params, token) =>
+	withDocument(params.textDocument.uri, token, [], (document) =>
+		formatting.provideDocumentFormattingEdits(document, params.options),
+	),
+);
+
+connection.onDocumentRangeFormatting((params, token) =>
+	withDocument(params.textDocument.uri, token, [], (document) =>
+		formatting.provideDocumentRangeFormattingEdits(
+			document,
+			params.range,
+			params.options,
+		),
+	),
+);
+
+connection.onDocumentOnTypeFormatting((params, token) =>
+	withDocument(params.textDocument.uri, token, [], (document) =>
+		formatting.provideOnTypeFormattingEdits(
+			document,
+			params.position,
+			params.ch,
+			params.options,
+		),
+	),
+);
+
+connection.onDocumentSymbol((params, token) =>
+	withDocument(params.textDocument.uri, token, [], (document) =>
+		symbols.provideDocumentSymbols(document, token),
+	),
+);
+
+connection.onWorkspaceSymbol((params) =>
+	workspaceSymbols.provideWorkspaceSymbols(params),
+);
+
+connection.onShutdown(() => {
+	diagnostics.dispose();
+	semanticTokens.dispose();
+	workspaceIndex.dispose();
+	analysisHost.dispose();
+});
+
+/**
+ * Run a provider on an open document. Requests for documents the client
+ * has not opened, and requests cancelled while they were queued or while
+ * the document was being analyzed (e.g. hovers overtaken by typing), are
+ * answered with `empty`.
+ */
+async function withDocument<T, E>(
+	uri: string,
+	token: CancellationToken,
+	empty: E,
+	provide: (document: TextDocument) => T | Promise<T>,
+): Promise<T | E> {
+	const document = documents.get(uri);
+	if (!document || token.isCancellationRequested) {
+		return empty;
+	}
+	const result = await provide(document);
+	return token.isCancellationRequested ? empty : result;
+}
+
+documents.listen(connection);
+connection.listen();
@@ -0,0 +1,233 @@
+import type {
+	CancellationToken,
+	SignatureHelp as LspSignatureHelp,
+	ParameterInformation,
+	Position,
+	SignatureInformation,
+} from "vscode-languageserver";
+import type { TextDocument } from "vscode-languageserver-textdocument";
+import { type ASTNode, typeRefToString, walk } from "../core/ast";
+import {
+	getBuiltinFunction,
+	getBuiltinMethods,
+	type MethodSignature,
+} from "../core/builtins";
+import { type TypeInfo, typeToString } from "../core/inference";
+import { Lexer } from "../core/lexer";
+import { findMember, ScopeResolver } from "../core/scope";
+import type { DocumentInferenceService } from "./inferenceService";
+import type { WorkspaceIndex } from "./workspaceIndex";
+
+/**
+ * Parameter hints for calls to user functions, constructors, built-in
+ * functions and collection methods.
+ */
+export default class SignatureHelp {
+	private resolver = new ScopeResolver();
+
+	constructor(
+		private inferenceService: DocumentInferenceService,
+		private index: WorkspaceIndex,
+	) {}
+
+	async provideSignatureHelp(
+		document: TextDocument,
+		position: Position,
+		token: CancellationToken,
+	): Promise<LspSignatureHelp | null> {
+		const result = await this.inferenceService.getInferenceResult(
+			document,
+			token,
+		);
+		if (!result) {
+			return null;
+		}
+		const { ast, types } = result;
+		const text = document.getText();
+		const offset = document.offsetAt(position);
+
+		const call = findEnclosingCall(ast, text, offset);
+		if (!call?.callee) {
+			return null;
+		}
+
+		const signature = await this.getSignature(document, call.callee, types);
+		if (!signature) {
+			return null;
+		}
+
+		return {
+			signatures: [signature],
+			activeSignature: 0,
+			activeParameter: countArgumentSeparators(
+				text,
+				text.indexOf("(", call.callee.range.end.offset) + 1,
+				offset,
+			),
+		};
+	}
+
+	private async getSignature(
+		document: TextDocument,
+		callee: ASTNode,
+		types: Map<ASTNode, TypeInfo>,
+	): Promise<SignatureInformation | null> {
+		if (callee.kind === "identifier") {
+			const declaration =
+				this.resolver.resolve(callee) ??
+				(await this.index.findGlobalDeclaration(callee.name, document.uri));
+			if (declaration?.kind === "function") {
+				return functionSignature(declaration);
+			}
+			const builtin = getBuiltinFunction(callee.name);
+			return builtin ? builtinSignature(builtin) : null;
+		}
+
+		if (callee.kind !== "member" || !callee.object) {
+			return null;
+		}
+		const receiver = callee.object;
+
+		// Constructor call: Point.new(x, y)
+		if (callee.name === "new" && receiver.kind === "identifier") {
+			const declaration =
+				this.resolver.resolve(receiver) ??
+				(await this.index.findGlobalDeclaration(receiver.name, document.uri));
+			if (declaration?.kind === "class" || declaration?.kind === "actor") {
+				return constructorSignature(declaration);
+			}
+		}
+
+		const type = this.inferenceService.typeOf(receiver, types);
+		const method = getBuiltinMethods(type).find((m) => m.name === callee.name);
+		if (method) {
+			return builtinSignature(method);
+		}
+
+		const member = type.declaration
+			? findMember(type.declaration, callee.name)
+			: null;
+		if (member?.kind === "function") {
+			return functionSignature(member);
+		}
+
+		return null;
+	}
+}
+
+/**
+ * The innermost call whose argument list contains the offset: after its
+ * "(" and, if it is closed, before its ")". An unclosed call extends over
+ * trailing whitespace, where the next argument is being typed.
+ */
+function findEnclosingCall(
+	ast: ASTNode,
+	text: string,
+	offset: number,
+): ASTNode | null {
+	let found: ASTNode | null = null;
+	walk(ast, (node) => {
+		if (node.kind !== "call" || !node.callee) {
+			return;
+		}
+		const open = text.indexOf("(", node.callee.range.end.offset);
+		const end = node.range.end.offset;
+		const closed = text[end - 1] === ")" && end - 1 > open;
+		if (
+			open !== -1 &&
+			offset > open &&
+			(closed
+				? offset < end
+				: offset <= end || text.slice(end, offset).trim() === "") &&
+			(!found || node.range.start.offset >= found.range.start.offset)
+		) {
+			found = node;
+		}
+	});
+	return found;
+}
+
+/**
+ * Number of commas between `start` and `end` that separate arguments of
+ * the call itself, ignoring nested calls, brackets and strings.
+ */
+function countArgumentSeparators(
+	text: string,
+	start: number,
+	end: number,
+): number {
+	let depth = 0;
+	let commas = 0;
+	for (const token of new Lexer(text, start, end).tokenize()) {
+		if (token.kind !== "punctuation") {
+			continue;
+		}
+		if (token.value === "(" || token.value === "[" || token.value === "{") {
+			depth++;
+		} else if (
+			token.value === ")" ||
+			token.value === "]" ||
+			token.value === "}"
+		) {
+			depth--;
+		} else if (token.value === "," && depth === 0) {
+			commas++;
+		}
+	}
+	return commas;
+}
+
+/**
+ * Build a signature whose parameter labels are offsets into the label, so
+ * that the active parameter is highlighted precisely.
+ */
+function buildSignature(
+	prefix: string,
+	params: string[],
+	suffix: string,
+): SignatureInformation {
+	let label = `${prefix}(`;
+	const parameters: ParameterInformation[] = [];
+	params.forEach((param, i) => {
+		if (i > 0) {
+			label += ", ";
+		}
+		parameters.push({ label: [label.length, label.length + param.length] });
+		label += param;
+	});
+	label += `)${suffix}`;
+
+	return { label, parameters };
+}
+
+function parameterLabel(param: ASTNode): string {
+	return param.typeAnnotation
+		? `${param.name}: ${typeRefToString(param.typeAnnotation)}`
+		: param.name;
+}
+
+function functionSignature(fn: ASTNode): SignatureInformation {
+	return buildSignature(
+		`${fn.isIo ? "io fun" : "fun"} ${fn.name}`,
+		(fn.params ?? []).map(parameterLabel),
+		fn.returnType ? `: ${typeRefToString(fn.returnType)}` : "",
+	);
+}
+
+function constructorSignature(type: ASTNode): SignatureInformation {
+	return buildSignature(
+		`${type.name}.new`,
+		(type.params ?? []).map(parameterLabel),
+		`: ${type.name}`,
+	);
+}
+
+function builtinSignature(method: MethodSignature): SignatureInformation {
+	const signature = buildSignature(
+		method.name,
+		method.params.map((param) => `${param.name}: ${typeToString(param.type)}`),
+		`: ${typeToString(method.returnType)}`,
+	);
+	signature.documentation = method.detail;
+	return signature;
+}
@@ -0,0 +1,124 @@
+import {
+	type CancellationToken,
+	type DocumentSymbol,
+	SymbolKind,
+} from "vscode-languageserver";
+import type { TextDocument } from "vscode-languageserver-textdocument";
+import { type ASTNode, formatSignature } from "../core/ast";
+import { type TypeInfo, typeToString } from "../core/inference";
+import { isField } from "../core/scope";
+import { toRange } from "./convert";
+import type { DocumentInferenceService } from "./inferenceService";
+
+/**
+ * Document outline, breadcrumbs and Go to Symbol in Editor.
+ */
+export default class Symbols {
+	constructor(private inferenceService: DocumentInferenceService) {}
+
+	async provideDocumentSymbols(
+		document: TextDocument,
+		token: CancellationToken,
+	): Promise<DocumentSymbol[]> {
+		const result = await this.inferenceService.getInferenceResult(
+			document,
+			token,
+		);
+		return result ? this.collectSymbols(result.ast, result.types) : [];
+	}
+
+	/**
+	 * Build symbols for the declarations below a node. Statements such as
+	 * if / while / for do not appear in the outline, so their locals are
+	 * attached to the enclosing declaration.
+	 */
+	private collectSymbols(
+		node: ASTNode,
+		types: Map<ASTNode, TypeInfo>,
+	): DocumentSymbol[] {
+		const symbols: DocumentSymbol[] = [];
+
+		for (const child of node.children) {
+			const symbol = this.toSymbol(child, types);
+			if (symbol) {
+				symbols.push(symbol);
+			} else if (child.kind !== "parameter") {
+				symbols.push(...this.collectSymbols(child, types));
+			}
+		}
+
+		return symbols;
+	}
+
+	private toSymbol(
+		node: ASTNode,
+		types: Map<ASTNode, TypeInfo>,
+	): DocumentSymbol | null {
+		const kind = symbolKindOf(node);
+		if (kind === null || !node.nameRange) {
+			return null;
+		}
+
+		let detail: string;
+		switch (node.kind) {
+			case "class":
+			case "actor":
+				detail = node.kind;
+				break;
+			case "function":
+				detail = `${node.isIo ? "io fun" : "fun"}${formatSignature(node)}`;
+				break;
+			default:
+				detail = typeDetail(types.get(node));
+				break;
+		}
+
+		const symbol: DocumentSymbol = {
+			name: node.name,
+			detail,
+			kind,
+			range: toRange(node.range),
+			selectionRange: toRange(node.nameRange),
+		};
+		if (node.kind !== "variable" && node.kind !== "parameter") {
+			symbol.children = this.collectSymbols(node, types);
+		}
+		return symbol;
+	}
+}
+
+/**
+ * Symbol kind of a declaration, or null for nodes that are not shown as
+ * symbols (statements, expressions and plain parameters).
+ */
+export function symbolKindOf(node: ASTNode): SymbolKind | null {
+	if (!node.name) {
+		return null;
+	}
+	switch (node.kind) {
+		case "class":
+			return SymbolKind.Class;
+		case "actor":
+			return SymbolKind.Object;
+		case "function":
+			return isMember(node) ? SymbolKind.Method : SymbolKind.Function;
+		case "parameter":
+			// Only constructor parameters declared with val/var are members
+			return isField(node) ? SymbolKind.Field : null;
+		case "variable":
+			return isField(node) ? SymbolKind.Field : SymbolKind.Variable;
+		default:
+			return null;
+	}
+}
+
+/**
+ * Whether a declaration belongs directly to a class or actor.
+ */
+function isMember(node: ASTNode): boolean {
+	return node.parent?.kind === "class" || node.parent?.kind === "actor";
+}
+
+function typeDetail(type: TypeInfo | undefined): string {
+	return type && type.kind !== "Unknown" ? typeToString(type) : "";
+}
@@ -0,0 +1,219 @@
+import * as fs from "node:fs/promises";
+import { URI } from "vscode-uri";
+import type { ASTNode, SourceRange, SymbolKind } from "../core/ast";
+import { expandPatterns } from "../core/files";
+import { Parser } from "../core/parser";
+import {
+	collectGlobalNames,
+	isGlobalDeclaration,
+	ScopeResolver,
+} from "../core/scope";
+
+const resolver = new ScopeResolver();
+
+/**
+ * Where a global name is declared and referenced in one file.
+ */
+export interface FileReferences {
+	uri: string;
+	declaration: SourceRange | null; // null when the file does not declare it
+	references: SourceRange[]; // excluding the declaration
+}
+
+/**
+ * Reports the outline of a file that was indexed, or null when the file
+ * was dropped from the index.
+ */
+export type IndexListener = (uri: string, outline: ASTNode | null) => void;
+
+/**
+ * The Synotra files of the workspace as they are on disk. Files are read
+ * and parsed where documents are analyzed, in the analysis worker in the
+ * server, and only their outlines are reported to the workspace index.
+ */
+export class WorkspaceFiles {
+	private files = new Map<string, ASTNode>(); // uri -> AST
+	private scanning: Promise<void> = Promise.resolve();
+	private scanned = false; // whether every file has been read once
+
+	constructor(private listener: IndexListener) {}
+
+	/**
+	 * Index the Synotra files below the given folder paths.
+	 */
+	scan(folders: string[]): Promise<void> {
+		this.scanning = this.scanFolders(folders);
+		return this.scanning;
+	}
+
+	private async scanFolders(folders: string[]): Promise<void> {
+		this.scanned = false;
+		const { files } = await expandPatterns(folders);
+		for (const file of files) {
+			await this.update(URI.file(file).toString());
+		}
+		this.scanned = true;
+	}
+
+	/**
+	 * Read a file again, e.g. after it was changed on disk.
+	 */
+	async update(uri: string): Promise<void> {
+		let ast: ASTNode;
+		try {
+			const text = await fs.readFile(URI.parse(uri).fsPath, "utf8");
+			ast = new Parser(text).parse();
+		} catch {
+			// Deleted or unreadable files are dropped from the index
+			this.remove(uri);
+			return;
+		}
+		this.files.set(uri, ast);
+		this.listener(uri, outlineOf(ast));
+	}
+
+	remove(uri: string): void {
+		this.files.delete(uri);
+		this.listener(uri, null);
+	}
+
+	/**
+	 * The global names declared by the files, except those in `exclude`,
+	 * or null until the files have been scanned.
+	 */
+	globalNames(exclude: Set<string>): Map<string, SymbolKind> | null {
+		if (!this.scanned) {
+			return null;
+		}
+		const names = new Map<string, SymbolKind>();
+		for (const [uri, ast] of this.files) {
+			if (!exclude.has(uri)) {
+				collectGlobalNames(ast, names);
+			}
+		}
+		return names;
+	}
+
+	/**
+	 * Find the declarations of and references to a global name in the
+	 * files, except those in `exclude` (e.g. open documents, whose text
+	 * may differ from the disk), once the files have been scanned.
+	 */
+	async findReferences(
+		name: string,
+		exclude: string[],
+	): Promise<FileReferences[]> {
+		await this.scanning;
+		const excluded = new Set(exclude);
+		const found: FileReferences[] = [];
+		for (const [uri, ast] of this.files) {
+			if (!excluded.has(uri)) {
+				found.push(findFileReferences(uri, ast, name));
+			}
+		}
+		return found.filter(
+			(file) => file.declaration || file.references.length > 0,
+		);
+	}
+}
+
+/**
+ * Find the global declaration of a name in a file and the references
+ * bound to it, or else the references to a declaration in another file.
+ */
+export function findFileReferences(
+	uri: string,
+	ast: ASTNode,
+	name: string,
+): FileReferences {
+	const global = ast.children.find(
+		(child) => child.name === name && isGlobalDeclaration(child),
+	);
+	if (global) {
+		const [first, ...rest] = resolver.findReferences(ast, global);
+		return {
+			uri,
+			declaration: nameRangeOf(first),
+			references: rest.map(nameRangeOf),
+		};
+	}
+	return {
+		uri,
+		declaration: null,
+		references: resolver.findExternalReferences(ast, name).map(nameRangeOf),
+	};
+}
+
+function nameRangeOf(node: ASTNode): SourceRange {
+	return node.nameRange ?? node.range;
+}
+
+// Nodes kept in outlines: declarations and the types they are annotated with
+const OUTLINE_KINDS = new Set([
+	"class",
+	"actor",
+	"function",
+	"parameter",
+	"variable",
+	"typeRef",
+]);
+
+/**
+ * What the workspace index keeps of a file that is not open: the
+ * top-level declarations with the members of classes and actors, without
+ * function bodies and initializers. Parent links stay within the outline.
+ */
+export function outlineOf(ast: ASTNode): ASTNode {
+	const copies = new Map<ASTNode, ASTNode>();
+	const copy = (node: ASTNode, parent: ASTNode | null): ASTNode => {
+		const outline: ASTNode = {
+			kind: node.kind,
+			name: node.name,
+			line: node.line,
+			startLine: node.startLine,
+			endLine: node.endLine,
+			children: [],
+			parent,
+			range: node.range,
+		};
+		if (node.nameRange) {
+			outline.nameRange = node.nameRange;
+		}
+		if (node.isIo !== undefined) {
+			outline.isIo = node.isIo;
+		}
+		if (node.mutable !== undefined) {
+			outline.mutable = node.mutable;
+		}
+		if (node.nullable !== undefined) {
+			outline.nullable = node.nullable;
+		}
+		copies.set(node, outline);
+
+		// Bodies and initializers are statements and expressions
+		for (const child of node.children) {
+			if (OUTLINE_KINDS.has(child.kind)) {
+				outline.children.push(copy(child, outline));
+			}
+		}
+
+		// The parser attaches fields as children too, so they are usually
+		// copied already
+		const copyOf = (field: ASTNode) =>
+			copies.get(field) ?? copy(field, outline);
+		if (node.params) {
+			outline.params = node.params.map(copyOf);
+		}
+		if (node.typeAnnotation) {
+			outline.typeAnnotation = copyOf(node.typeAnnotation);
+		}
+		if (node.returnType) {
+			outline.returnType = copyOf(node.returnType);
+		}
+		if (node.typeArgs) {
+			outline.typeArgs = node.typeArgs.map(copyOf);
+		}
+		return outline;
+	};
+	return copy(ast, null);
+}
@@ -0,0 +1,313 @@
+import * as path from "node:path";
+import {
+	type Disposable,
+	FileChangeType,
+	type FileEvent,
+	type SymbolKind,
+	type TextDocuments,
+} from "vscode-languageserver";
+import type { TextDocument } from "vscode-languageserver-textdocument";
+import { URI } from "vscode-uri";
+import type { ASTNode } from "../core/ast";
+import { isGlobalDeclaration } from "../core/scope";
+import { type AnalysisHost, InProcessAnalysisHost } from "./analysisHost";
+import type { DocumentInferenceService } from "./inferenceService";
+import { symbolKindOf } from "./symbols";
+import { type FileReferences, findFileReferences } from "./workspaceFiles";
+
+export interface IndexedSymbol {
+	name: string;
+	kind: SymbolKind;
+	containerName: string; // enclosing class or actor, empty for globals
+	uri: string;
+	node: ASTNode;
+}
+
+export interface IndexedFile {
+	uri: string;
+	ast: ASTNode; // for files that are not open, their outline (see outlineOf)
+}
+
+interface IndexEntry extends IndexedFile {
+	symbols: IndexedSymbol[];
+}
+
+/**
+ * Background index of every Synotra file in the workspace.
+ *
+ * Files are scanned once the client has initialized and kept up to date
+ * through the client's file watcher. They are read and parsed by the
+ * analysis host, which reports only their outlines and searches them for
+ * references. Open documents are indexed from the client instead of the
+ * disk so that unsaved changes are visible to other files.
+ */
+export class WorkspaceIndex implements Disposable {
+	private entries = new Map<string, IndexEntry>(); // uri -> IndexEntry
+	private stale = new Set<string>(); // open documents edited since indexing
+	private folders: string[] = []; // workspace folder paths
+	private ready: Promise<void> = Promise.resolve();
+	private changeListeners: (() => void)[] = [];
+	private disposables: Disposable[] = [];
+
+	constructor(
+		private inferenceService: DocumentInferenceService,
+		private documents: TextDocuments<TextDocument>,
+		private host: AnalysisHost = new InProcessAnalysisHost(),
+	) {
+		host.setIndexListener((uri, outline) => {
+			this.setOutline(uri, outline);
+		});
+
+		// Edits to open documents are picked up lazily on the next query
+		this.disposables.push(
+			documents.onDidChangeContent((e) => {
+				if (this.isIndexed(e.document.uri)) {
+					this.stale.add(e.document.uri);
+				}
+			}),
+		);
+
+		// Unsaved changes are discarded on close, so go back to the disk
+		this.disposables.push(
+			documents.onDidClose((e) => {
+				if (this.isIndexed(e.document.uri)) {
+					this.stale.delete(e.document.uri);
+					this.host.indexFile(e.document.uri);
+				}
+			}),
+		);
+	}
+
+	/**
+	 * Index the Synotra files below the workspace folders.
+	 */
+	scan(folders: string[]): void {
+		this.folders = folders.map((folder) => URI.parse(folder).fsPath);
+		this.ready = this.host.scanFolders(this.folders).then(
+			() => this.changed(),
+			(error) => {
+				console.error(`Failed to scan the workspace: ${error}`);
+			},
+		);
+	}
+
+	/**
+	 * Listen for files that are not open being indexed, changed or
+	 * dropped, and for the end of the initial scan.
+	 */
+	onDidChangeFiles(listener: () => void): Disposable {
+		this.changeListeners.push(listener);
+		return {
+			dispose: () => {
+				this.changeListeners = this.changeListeners.filter(
+					(other) => other !== listener,
+				);
+			},
+		};
+	}
+
+	private changed(): void {
+		for (const listener of this.changeListeners) {
+			listener();
+		}
+	}
+
+	/**
+	 * Apply file events reported by the client's file watcher.
+	 */
+	applyFileEvents(events: FileEvent[]): void {
+		for (const event of events) {
+			if (event.type === FileChangeType.Deleted) {
+				this.entries.delete(event.uri);
+				this.stale.delete(event.uri);
+				this.host.removeFile(event.uri);
+			} else if (this.documents.get(event.uri)) {
+				this.stale.add(event.uri);
+			} else {
+				this.host.indexFile(event.uri);
+			}
+		}
+	}
+
+	/**
+	 * Files indexed so far, without waiting for the initial scan. Used by
+	 * providers that must answer quickly, such as completion.
+	 */
+	async getIndexedFiles(): Promise<IndexedFile[]> {
+		await this.refreshStale();
+		return [...this.entries.values()];
+	}
+
+	/**
+	 * Global and member declarations matching a Go to Symbol query.
+	 */
+	async search(query: string): Promise<IndexedSymbol[]> {
+		await this.ready;
+		await this.refreshStale();
+		const results: IndexedSymbol[] = [];
+		for (const entry of this.entries.values()) {
+			for (const symbol of entry.symbols) {
+				if (fuzzyMatch(query, symbol.name)) {
+					results.push(symbol);
+				}
+			}
+		}
+		return results;
+	}
+
+	/**
+	 * Find a global declaration (top-level class, actor or function) in an
+	 * indexed file other than `exclude`, without waiting for the initial scan.
+	 */
+	async findGlobalDeclaration(
+		name: string,
+		exclude?: string,
+	): Promise<ASTNode | null> {
+		for (const file of await this.getIndexedFiles()) {
+			if (file.uri === exclude) {
+				continue;
+			}
+			const node = file.ast.children.find(
+				(child) => child.name === name && isGlobalDeclaration(child),
+			);
+			if (node) {
+				return node;
+			}
+		}
+		return null;
+	}
+
+	/**
+	 * Find a global name in every file of the workspace, once the initial
+	 * scan has finished: the declaration of the file declaring it and the
+	 * references to it. Open documents are searched in their current text,
+	 * `current` being the document the search starts from, and the other
+	 * files by the analysis host.
+	 */
+	async findGlobalReferences(
+		name: string,
+		current: IndexedFile,
+	): Promise<FileReferences[]> {
+		await this.refreshStale();
+		const open = [current];
+		for (const uri of this.documents.keys()) {
+			const entry = this.entries.get(uri);
+			if (entry && uri !== current.uri) {
+				open.push(entry);
+			}
+		}
+		const found = open.map((file) =>
+			findFileReferences(file.uri, file.ast, name),
+		);
+		const exclude = [current.uri, ...this.documents.keys()];
+		found.push(...(await this.host.findReferences(name, exclude)));
+		return found;
+	}
+
+	/**
+	 * Path of a file relative to the workspace folder containing it, for
+	 * display.
+	 */
+	relativePath(uri: string): string {
+		const file = URI.parse(uri).fsPath;
+		for (const folder of this.folders) {
+			const relative = path.relative(folder, file);
+			if (!relative.startsWith("..") && !path.isAbsolute(relative)) {
+				return relative;
+			}
+		}
+		return file;
+	}
+
+	private isIndexed(uri: string): boolean {
+		return URI.parse(uri).scheme === "file";
+	}
+
+	/**
+	 * Index the outline of a file read by the host. Open documents are
+	 * indexed from the client instead.
+	 */
+	private setOutline(uri: string, outline: ASTNode | null): void {
+		if (!outline) {
+			this.entries.delete(uri);
+			this.stale.delete(uri);
+		} else if (this.documents.get(uri)) {
+			this.stale.add(uri);
+		} else {
+			this.setEntry(uri, outline);
+		}
+		this.changed();
+	}
+
+	private async refreshStale(): Promise<void> {
+		const uris = [...this.stale];
+		this.stale.clear();
+		for (const uri of uris) {
+			const open = this.documents.get(uri);
+			if (!open) {
+				continue;
+			}
+			// A result dropped as out of date is picked up on the next query,
+			// as the edit that made it so marked the document stale again
+			const result = await this.inferenceService.getInferenceResult(open);
+			if (result) {
+				this.setEntry(uri, result.ast);
+			}
+		}
+	}
+
+	private setEntry(uri: string, ast: ASTNode): void {
+		this.entries.set(uri, { uri, ast, symbols: collectSymbols(uri, ast) });
+	}
+
+	dispose() {
+		this.disposables.forEach((d) => {
+			d.dispose();
+		});
+		this.entries.clear();
+		this.stale.clear();
+		this.changeListeners = [];
+	}
+}
+
+/**
+ * Top-level declarations and the members of classes and actors. Locals
+ * are not interesting outside their file.
+ */
+function collectSymbols(uri: string, ast: ASTNode): IndexedSymbol[] {
+	const symbols: IndexedSymbol[] = [];
+
+	const add = (node: ASTNode, containerName: string) => {
+		const kind = symbolKindOf(node);
+		if (kind !== null) {
+			symbols.push({ name: node.name, kind, containerName, uri, node });
+		}
+	};
+
+	for (const node of ast.children) {
+		add(node, "");
+		if (node.kind === "class" || node.kind === "actor") {
+			for (const member of node.children) {
+				add(member, node.name);
+			}
+		}
+	}
+
+	return symbols;
+}
+
+/**
+ * Case-insensitive subsequence match, as used by editors' symbol pickers.
+ */
+function fuzzyMatch(query: string, name: string): boolean {
+	const lowerName = name.toLowerCase();
+	let index = 0;
+	for (const ch of query.toLowerCase()) {
+		index = lowerName.indexOf(ch, index);
+		if (index === -1) {
+			return false;
+		}
+		index++;
+	}
+	return true;
+}
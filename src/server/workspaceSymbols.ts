@@ -0,0 +1,28 @@
+import type {
+	SymbolInformation,
+	WorkspaceSymbolParams,
+} from "vscode-languageserver";
+import { toRange } from "./convert";
+import type { WorkspaceIndex } from "./workspaceIndex";
+
+/**
+ * Go to Symbol in Workspace (Ctrl+T), backed by the workspace index.
+ */
+export default class WorkspaceSymbols {
+	constructor(private index: WorkspaceIndex) {}
+
+	async provideWorkspaceSymbols(
+		params: WorkspaceSymbolParams,
+	): Promise<SymbolInformation[]> {
+		const symbols = await this.index.search(params.query);
+		return symbols.map((symbol) => ({
+			name: symbol.name,
+			kind: symbol.kind,
+			containerName: symbol.containerName,
+			location: {
+				uri: symbol.uri,
+				range: toRange(symbol.node.nameRange ?? symbol.node.range),
+			},
+		}));
+	}
+}
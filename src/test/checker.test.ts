@@ -0,0 +1,342 @@
+import * as assert from "node:assert";
+import { Analyzer } from "../core/analyzer";
+import type { AnalysisDiagnostic, QuickFix } from "../core/ast";
+import { typeToString } from "../core/inference";
+import { edit, lines } from "./helpers";
+
+/**
+ * The text left by applying a fix.
+ */
+function applyFix(text: string, fix: QuickFix): string {
+	const edits = [...fix.edits].sort(
+		(a, b) => b.range.start.offset - a.range.start.offset,
+	);
+	for (const { range, newText } of edits) {
+		text =
+			text.slice(0, range.start.offset) +
+			newText +
+			text.slice(range.end.offset);
+	}
+	return text;
+}
+
+function findDiagnostic(
+	diagnostics: AnalysisDiagnostic[],
+	message: string,
+): AnalysisDiagnostic {
+	const found = diagnostics.find(
+		(diagnostic) => diagnostic.message === message,
+	);
+	assert.ok(found, `no '${message}' in ${diagnostics.map((d) => d.message)}`);
+	return found;
+}
+
+/**
+ * Type errors of a source file.
+ */
+function check(source: string): AnalysisDiagnostic[] {
+	return new Analyzer()
+		.analyze(source)
+		.diagnostics.filter((diagnostic) => diagnostic.code === "type");
+}
+
+/**
+ * Messages of the problems reported for a source file.
+ */
+function problems(source: string): string[] {
+	return new Analyzer()
+		.analyze(source)
+		.diagnostics.map((diagnostic) => diagnostic.message);
+}
+
+const COUNTER = lines(
+	"actor Counter {",
+	"    var count: Int = 0",
+	"",
+	"    fun increment(by: Int) {",
+	"        count = count + by",
+	"    }",
+	"}",
+	"",
+);
+
+suite("TypeChecker", () => {
+	suite("actor messages", () => {
+		test("a message without a handler offers to add one", () => {
+			const source = lines(
+				`${COUNTER}fun main() {`,
+				"    val c = Counter.new()",
+				"    send(c, increment(1))",
+				"    send(c, reset(0))",
+				"}",
+			);
+			const diagnostics = check(source);
+			assert.deepStrictEqual(
+				diagnostics.map((d) => d.message),
+				["Actor 'Counter' has no handler 'reset'"],
+			);
+			const [fix] = diagnostics[0].fixes ?? [];
+			assert.strictEqual(fix?.title, "Add handler 'reset' to actor 'Counter'");
+			assert.deepStrictEqual(check(applyFix(source, fix)), []);
+		});
+
+		test("asking a handler that does not reply offers to send instead", () => {
+			const source = lines(
+				`${COUNTER}fun main() {`,
+				"    val c = Counter.new()",
+				"    ask(c, increment(1))",
+				"}",
+			);
+			const { fixes } = findDiagnostic(
+				check(source),
+				"Handler 'increment' does not reply; use 'send' instead of 'ask'",
+			);
+			assert.strictEqual(fixes?.length, 1);
+			assert.strictEqual(
+				applyFix(source, fixes[0]),
+				source.replace("ask(c", "send(c"),
+			);
+		});
+
+		test("a message to a class offers to make it an actor", () => {
+			const source = lines(
+				"class Point(val x: Int) {",
+				"    fun move(by: Int) {",
+				"    }",
+				"}",
+				"fun main() {",
+				"    val p = Point.new(1)",
+				"    send(p, move(1))",
+				"}",
+			);
+			const { fixes } = findDiagnostic(
+				check(source),
+				"'send' requires an actor, but 'Point' is a class",
+			);
+			assert.strictEqual(fixes?.[0].title, "Convert class 'Point' to an actor");
+			assert.deepStrictEqual(check(applyFix(source, fixes[0])), []);
+		});
+	});
+
+	suite("numeric widening", () => {
+		test("an Int may be returned, stored and passed as a Double", () => {
+			assert.deepStrictEqual(
+				problems(
+					lines(
+						"fun g(): Double {",
+						"    return 1",
+						"}",
+						"fun h(d: Double): Double {",
+						"    val e: Double = 1",
+						"    return d + e",
+						"}",
+						"fun main() {",
+						"    val r = h(2)",
+						"}",
+					),
+				),
+				[],
+			);
+		});
+
+		test("a Double may not be stored as an Int", () => {
+			assert.deepStrictEqual(problems("val i: Int = 1.5"), [
+				"Type 'Double' is not assignable to type 'Int'",
+			]);
+		});
+
+		test("returns of Int and Double widen to Double without an error", () => {
+			const source = lines(
+				"fun f(b: Bool) {",
+				"    if (b) {",
+				"        return 1",
+				"    }",
+				"    return 1.5",
+				"}",
+			);
+			const { ast, types, diagnostics } = new Analyzer().analyze(source);
+			assert.deepStrictEqual(diagnostics, []);
+			assert.strictEqual(
+				typeToString(types.get(ast.children[0])?.returnType),
+				"Double",
+			);
+		});
+	});
+
+	suite("undeclared names", () => {
+		test("reports names declared nowhere and suggests similar ones", () => {
+			const source = lines(
+				"fun helper(x: Int): Int {",
+				"    return x + 1",
+				"}",
+				"io fun main() {",
+				"    val count = 1",
+				"    val n = halper(count)",
+				"    val m = cuont",
+				"    printn(count)",
+				"    val s = Lst.new()",
+				"}",
+			);
+			const { diagnostics } = new Analyzer().analyze(source);
+			assert.deepStrictEqual(
+				diagnostics.map((d) => [d.message, d.fixes?.map((fix) => fix.title)]),
+				[
+					[
+						"Cannot find name 'halper'",
+						["Did you mean 'helper'?", "Create function 'halper'"],
+					],
+					["Cannot find name 'cuont'", ["Did you mean 'count'?"]],
+					[
+						"Cannot find name 'printn'",
+						[
+							"Did you mean 'print'?",
+							"Did you mean 'println'?",
+							"Create function 'printn'",
+						],
+					],
+					[
+						"Cannot find name 'Lst'",
+						[
+							"Did you mean 'List'?",
+							"Create actor 'Lst'",
+							"Create class 'Lst'",
+						],
+					],
+				],
+			);
+
+			const halper = findDiagnostic(diagnostics, "Cannot find name 'halper'");
+			assert.strictEqual(halper.fixes?.[0].isPreferred, true);
+			assert.strictEqual(halper.fixes?.[1].isPreferred, undefined);
+			assert.deepStrictEqual(
+				problems(applyFix(source, halper.fixes?.[0] as QuickFix)).filter(
+					(message) => message.includes("halper") || message.includes("helper"),
+				),
+				[],
+			);
+		});
+
+		test("names declared in other files are not reported", () => {
+			const source = lines("io fun main() {", "    println(helper(1))", "}");
+			const analyzer = new Analyzer();
+			assert.deepStrictEqual(
+				analyzer
+					.analyze(source, new Map([["helper", "function"]]))
+					.diagnostics.map((d) => d.message),
+				[],
+			);
+			// Nothing is reported while the other files are not known
+			assert.deepStrictEqual(analyzer.analyze(source, null).diagnostics, []);
+		});
+
+		test("declaring a name elsewhere in the file clears the problem", () => {
+			const source = lines(
+				"io fun main() {",
+				"    println(helper(1))",
+				"}",
+				"fun other() {",
+				"}",
+			);
+			const analyzer = new Analyzer();
+			const first = analyzer.analyze(source);
+			findDiagnostic(first.diagnostics, "Cannot find name 'helper'");
+
+			const changed = edit(
+				source,
+				"fun other()",
+				"fun helper(x: Int): Int {\n    return x\n}\nfun other()",
+			);
+			const second = analyzer.reanalyze(changed.text, first, [changed.edit]);
+			assert.deepStrictEqual(second.diagnostics, []);
+		});
+
+		test("creates functions indented like the code around them", () => {
+			const source = lines(
+				"actor Counter {",
+				"\tvar count: Int = 0",
+				"",
+				"\tfun add(by: Int) {",
+				"\t\tcount = count + by",
+				"\t\tval total: Int = clamp(count, 10)",
+				"\t}",
+				"}",
+			);
+			const { diagnostics } = new Analyzer().analyze(source);
+			const fix = findDiagnostic(
+				diagnostics,
+				"Cannot find name 'clamp'",
+			).fixes?.find((f) => f.title.startsWith("Create function"));
+			assert.ok(fix);
+			assert.strictEqual(
+				fix.title,
+				"Create function 'clamp' in actor 'Counter'",
+			);
+			assert.strictEqual(
+				applyFix(source, fix),
+				lines(
+					"actor Counter {",
+					"\tvar count: Int = 0",
+					"",
+					"\tfun add(by: Int) {",
+					"\t\tcount = count + by",
+					"\t\tval total: Int = clamp(count, 10)",
+					"\t}",
+					"",
+					"\tfun clamp(count: Int, arg2: Int): Int {",
+					"\t}",
+					"}",
+				),
+			);
+		});
+
+		test("handlers are created one level into the actor", () => {
+			const source = lines(
+				"actor Logger {",
+				"}",
+				"",
+				"io fun main() {",
+				"  val logger = Logger.new()",
+				'  send(logger, log(1, "started"))',
+				"}",
+			);
+			const { diagnostics } = new Analyzer().analyze(source);
+			const fix = findDiagnostic(
+				diagnostics,
+				"Actor 'Logger' has no handler 'log'",
+			).fixes?.[0];
+			assert.ok(fix);
+			const fixed = applyFix(source, fix);
+			assert.strictEqual(
+				fixed.split("\n").slice(0, 4).join("\n"),
+				lines(
+					"actor Logger {",
+					"",
+					"  fun log(arg1: Int, arg2: String) {",
+					"  }",
+				),
+			);
+			assert.deepStrictEqual(problems(fixed), []);
+		});
+
+		test("no stub is created for arguments whose type cannot be written", () => {
+			const source = lines(
+				"actor Logger {",
+				"}",
+				"",
+				"io fun main() {",
+				"    val logger = Logger.new()",
+				"    send(logger, log(null))",
+				"    println(format(null))",
+				"}",
+			);
+			const { diagnostics } = new Analyzer().analyze(source);
+			assert.deepStrictEqual(
+				diagnostics.map((d) => [d.message, d.fixes?.map((fix) => fix.title)]),
+				[
+					["Actor 'Logger' has no handler 'log'", []],
+					["Cannot find name 'format'", []],
+				],
+			);
+		});
+	});
+});
@@ -0,0 +1,70 @@
+import * as assert from "node:assert";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { main } from "../cli/main";
+import { lines } from "./helpers";
+
+suite("synotra-check", () => {
+	let dir: string;
+
+	setup(() => {
+		dir = fs.mkdtempSync(path.join(os.tmpdir(), "synotra-check-"));
+		fs.writeFileSync(
+			path.join(dir, "ok.sy"),
+			lines("io fun main() {", '    println("hello")', "}"),
+		);
+		fs.mkdirSync(path.join(dir, "lib"));
+		fs.writeFileSync(
+			path.join(dir, "lib", "bad.sy"),
+			lines(
+				"fun half(n: Int): Int {",
+				'    val s: Int = "two"',
+				"    println(s)",
+				"    return n /",
+				"}",
+			),
+		);
+	});
+
+	teardown(() => {
+		fs.rmSync(dir, { recursive: true, force: true });
+	});
+
+	test("reports the problems of every file found and exits with 1", async () => {
+		const output = path.join(dir, "report.json");
+		assert.strictEqual(await main(["--format", "json", "-o", output, dir]), 1);
+		const report = JSON.parse(fs.readFileSync(output, "utf8"));
+		assert.deepStrictEqual(
+			report.map(
+				(d: { file: string; code: string; line: number }) =>
+					`${path.relative(dir, d.file)}:${d.line} ${d.code}`,
+			),
+			[
+				`${path.join("lib", "bad.sy")}:4 syntax`,
+				`${path.join("lib", "bad.sy")}:2 type`,
+				`${path.join("lib", "bad.sy")}:1 effect`,
+			],
+		);
+	});
+
+	test("exits with 0 when no errors are found", async () => {
+		const output = path.join(dir, "report.txt");
+		assert.strictEqual(await main(["-o", output, path.join(dir, "ok.sy")]), 0);
+		assert.strictEqual(
+			fs.readFileSync(output, "utf8"),
+			"No problems found in 1 file\n",
+		);
+	});
+
+	test("exits with 2 on bad arguments and files that do not exist", async () => {
+		const error = console.error;
+		console.error = () => {};
+		try {
+			assert.strictEqual(await main(["--format", "xml", dir]), 2);
+			assert.strictEqual(await main([path.join(dir, "missing.sy")]), 2);
+		} finally {
+			console.error = error;
+		}
+	});
+});
@@ -0,0 +1,105 @@
+import * as assert from "node:assert";
+import {
+	CancellationToken,
+	type CodeAction,
+	CodeActionKind,
+	type Range,
+} from "vscode-languageserver";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { InProcessAnalysisHost } from "../server/analysisHost";
+import CodeActions from "../server/codeActions";
+import { DocumentInferenceService } from "../server/inferenceService";
+import { lines, positionOf } from "./helpers";
+
+/**
+ * Code actions of a document at the first occurrence of `search`, from an
+ * inference service whose (empty) workspace has been scanned.
+ */
+async function codeActionsAt(
+	text: string,
+	search: string,
+	only?: string[],
+): Promise<{ document: TextDocument; actions: CodeAction[] }> {
+	const host = new InProcessAnalysisHost();
+	await host.scanFolders([]);
+	const document = TextDocument.create(
+		"file:///workspace/test.sy",
+		"synotra",
+		1,
+		text,
+	);
+	const position = positionOf(document, search);
+	const range: Range = { start: position, end: position };
+	const actions = await new CodeActions(
+		new DocumentInferenceService(host),
+	).provideCodeActions(
+		document,
+		range,
+		{ diagnostics: [], only },
+		CancellationToken.None,
+	);
+	return { document, actions };
+}
+
+/**
+ * The text of a document after applying the edits of an action.
+ */
+function applyAction(document: TextDocument, action: CodeAction): string {
+	const edits = action.edit?.changes?.[document.uri] ?? [];
+	return TextDocument.applyEdits(document, edits);
+}
+
+suite("CodeActions", () => {
+	test("offers the fixes of an undeclared name, the first preferred", async () => {
+		const source = lines(
+			"fun total(xs: List<Int>): Int {",
+			"    return xs.size()",
+			"}",
+			"io fun main() {",
+			"    println(totl(5))",
+			"}",
+		);
+		const { document, actions } = await codeActionsAt(source, "totl", [
+			CodeActionKind.QuickFix,
+		]);
+		assert.deepStrictEqual(
+			actions.map((action) => [
+				action.title,
+				action.isPreferred,
+				action.diagnostics?.map((d) => d.message),
+			]),
+			[
+				["Did you mean 'total'?", true, ["Cannot find name 'totl'"]],
+				["Create function 'totl'", undefined, ["Cannot find name 'totl'"]],
+			],
+		);
+		assert.strictEqual(
+			applyAction(document, actions[0]),
+			source.replace("totl", "total"),
+		);
+	});
+
+	test("a created function takes the indentation of the file", async () => {
+		const source = lines(
+			"class Box(val value: Int) {",
+			"  fun get(): Int {",
+			"    return value",
+			"  }",
+			"",
+			"  fun doubled(): Int {",
+			"    return twice(value)",
+			"  }",
+			"}",
+		);
+		const { document, actions } = await codeActionsAt(source, "twice");
+		const create = actions.find(
+			(action) => action.title === "Create function 'twice' in class 'Box'",
+		);
+		assert.ok(create);
+		assert.ok(
+			applyAction(document, create).endsWith(
+				lines("  }", "", "  fun twice(value: Int) {", "  }", "}"),
+			),
+		);
+	});
+});
@@ -0,0 +1,69 @@
+import * as assert from "node:assert";
+import { CancellationToken, TextDocuments } from "vscode-languageserver";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import Completion from "../server/completion";
+import { WorkspaceIndex } from "../server/workspaceIndex";
+import { lines, openDocument, positionOf } from "./helpers";
+
+/**
+ * Labels of the completions offered right after the first occurrence of
+ * `search`.
+ */
+async function completionsAfter(
+	text: string,
+	search: string,
+): Promise<string[]> {
+	const { document, inferenceService } = openDocument(text);
+	const index = new WorkspaceIndex(
+		inferenceService,
+		new TextDocuments(TextDocument),
+	);
+	const items = await new Completion(
+		inferenceService,
+		index,
+	).provideCompletionItems(
+		document,
+		positionOf(document, search, search.length),
+		CancellationToken.None,
+	);
+	index.dispose();
+	return items.map((item) => item.label);
+}
+
+const POINT = lines(
+	"class Point(val x: Int, y: Int) {",
+	"    fun sum(): Int {",
+	"        return x + y",
+	"    }",
+	"}",
+	"",
+);
+
+suite("Completion", () => {
+	test("offers the fields and methods of the receiver's class", async () => {
+		const source = lines(`${POINT}fun show(p: Point) {`, "    p.", "}");
+		// y is a constructor parameter, not a field
+		assert.deepStrictEqual((await completionsAfter(source, "p.")).sort(), [
+			"sum",
+			"x",
+		]);
+	});
+
+	test("offers the methods of a built-in collection", async () => {
+		const source = lines(
+			"fun main() {",
+			"    val xs = List<Int>.new()",
+			"    xs.",
+			"}",
+		);
+		const labels = await completionsAfter(source, "xs.");
+		for (const method of ["add", "get", "size"]) {
+			assert.ok(labels.includes(method), method);
+		}
+	});
+
+	test("offers new on a type name", async () => {
+		const source = lines(`${POINT}fun main() {`, "    Point.", "}");
+		assert.deepStrictEqual(await completionsAfter(source, "Point."), ["new"]);
+	});
+});
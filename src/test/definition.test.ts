@@ -0,0 +1,78 @@
+import * as assert from "node:assert";
+import { CancellationToken } from "vscode-languageserver";
+import Definition from "../server/definition";
+import Hover from "../server/hover";
+import { lines, openDocument, positionOf } from "./helpers";
+
+const SOURCE = lines(
+	"class Point(val x: Int, val y: Int) {",
+	"    fun sum(): Int {",
+	"        return x + y",
+	"    }",
+	"}",
+	"fun main() {",
+	"    val p = Point.new(1, 2)",
+	"    val total = p.sum() + p.x",
+	"}",
+);
+
+suite("Definition", () => {
+	test("goes to a function called through a receiver", async () => {
+		const { document, inferenceService } = openDocument(SOURCE);
+		const location = await new Definition(inferenceService).provideDefinition(
+			document,
+			positionOf(document, "p.sum", 3),
+			CancellationToken.None,
+		);
+		assert.deepStrictEqual(location?.range.start, positionOf(document, "sum"));
+	});
+
+	test("goes to a field accessed through a receiver", async () => {
+		const { document, inferenceService } = openDocument(SOURCE);
+		const location = await new Definition(inferenceService).provideDefinition(
+			document,
+			positionOf(document, "p.x", 2),
+			CancellationToken.None,
+		);
+		assert.deepStrictEqual(location?.range.start, positionOf(document, "x:"));
+	});
+
+	test("goes to the type of a variable", async () => {
+		const { document, inferenceService } = openDocument(SOURCE);
+		const location = await new Definition(
+			inferenceService,
+		).provideTypeDefinition(
+			document,
+			positionOf(document, "p.sum"),
+			CancellationToken.None,
+		);
+		assert.deepStrictEqual(
+			location?.range.start,
+			positionOf(document, "Point"),
+		);
+	});
+});
+
+suite("Hover", () => {
+	test("shows the signature of a function called through a receiver", async () => {
+		const { document, inferenceService } = openDocument(SOURCE);
+		const hover = await new Hover(inferenceService).provideHover(
+			document,
+			positionOf(document, "p.sum", 3),
+			CancellationToken.None,
+		);
+		const contents = hover?.contents as { value: string } | undefined;
+		assert.match(contents?.value ?? "", /fun sum\(\): Int/);
+	});
+
+	test("shows the type of a field accessed through a receiver", async () => {
+		const { document, inferenceService } = openDocument(SOURCE);
+		const hover = await new Hover(inferenceService).provideHover(
+			document,
+			positionOf(document, "p.x", 2),
+			CancellationToken.None,
+		);
+		const contents = hover?.contents as { value: string } | undefined;
+		assert.match(contents?.value ?? "", /Int/);
+	});
+});
@@ -0,0 +1,70 @@
+import * as assert from "node:assert";
+import { checkEffects, EffectAnalyzer } from "../core/effects";
+import { InferenceEngine } from "../core/inference";
+import { Parser } from "../core/parser";
+import { lines } from "./helpers";
+
+/**
+ * The I/O each function of a source file performs, by name.
+ */
+function effectsOf(source: string) {
+	const engine = new InferenceEngine();
+	const ast = new Parser(source).parse();
+	engine.infer(ast);
+	const effects = new EffectAnalyzer(engine).analyze(ast);
+	const found: Record<string, string[]> = {};
+	effects.forEach((operations, fn) => {
+		found[fn.name] = operations.map((operation) => operation.description);
+	});
+	return { effects, found };
+}
+
+suite("EffectAnalyzer", () => {
+	test("finds the I/O each function performs itself", () => {
+		const { found } = effectsOf(
+			lines(
+				"actor Counter {",
+				"    var count: Int = 0",
+				"    fun increment(by: Int) {",
+				"        count = count + by",
+				"    }",
+				"}",
+				"fun square(x: Int): Int {",
+				"    return x * x",
+				"}",
+				"io fun log(s: String) {",
+				"    println(s)",
+				"}",
+				"io fun main() {",
+				"    val c = Counter.new()",
+				"    send(c, increment(square(2)))",
+				'    log("sent")',
+				"}",
+			),
+		);
+		// The handler called in the message runs on the actor
+		assert.deepStrictEqual(found, {
+			increment: [],
+			square: [],
+			log: ["calls 'println'"],
+			main: ["messages an actor with 'send'", "calls io function 'log'"],
+		});
+	});
+
+	test("reports I/O in a function not declared io, with a fix", () => {
+		const source = lines("fun greet() {", '    print("hi")', "}");
+		const diagnostics = checkEffects(effectsOf(source).effects);
+		assert.deepStrictEqual(
+			diagnostics.map((d) => [d.message, d.fixes?.[0].title]),
+			[
+				[
+					"Function 'greet' calls 'print' but is not declared 'io'",
+					"Add 'io' modifier to 'greet'",
+				],
+			],
+		);
+		const [edit] = diagnostics[0].fixes?.[0].edits ?? [];
+		assert.strictEqual(edit?.range.start.offset, 0);
+		assert.strictEqual(edit?.newText, "io ");
+	});
+});
@@ -0,0 +1,111 @@
+import * as assert from "node:assert";
+import type { TextEdit } from "../core/ast";
+import {
+	type FormatOptions,
+	formatDocument,
+	formatOnType,
+	formatRange,
+} from "../core/formatter";
+import { lines } from "./helpers";
+
+const SPACES: FormatOptions = { tabSize: 4, insertSpaces: true };
+const TABS: FormatOptions = { tabSize: 4, insertSpaces: false };
+
+function applyEdits(text: string, edits: TextEdit[] | null): string {
+	assert.ok(edits, "the text was left alone");
+	const sorted = [...edits].sort(
+		(a, b) => b.range.start.offset - a.range.start.offset,
+	);
+	for (const { range, newText } of sorted) {
+		text =
+			text.slice(0, range.start.offset) +
+			newText +
+			text.slice(range.end.offset);
+	}
+	return text;
+}
+
+suite("Formatter", () => {
+	test("indents by depth and spaces tokens", () => {
+		const source = lines(
+			"class Box(val value:Int,val items:List<Int>)",
+			"{",
+			"fun get():Int{",
+			"return value*2+items.size()",
+			"}",
+			"}",
+		);
+		const formatted = lines(
+			"class Box(val value: Int, val items: List<Int>) {",
+			"    fun get(): Int {",
+			"        return value * 2 + items.size()",
+			"    }",
+			"}",
+			"",
+		);
+		assert.strictEqual(
+			applyEdits(source, formatDocument(source, SPACES)),
+			formatted,
+		);
+		assert.strictEqual(
+			applyEdits(source, formatDocument(source, TABS)),
+			formatted.replace(/ {4}/g, "\t"),
+		);
+		// Formatted code is left as it is
+		assert.deepStrictEqual(formatDocument(formatted, SPACES), []);
+	});
+
+	test("keeps comments and collapses blank lines", () => {
+		const source = lines(
+			"fun a() {",
+			"",
+			"  // first",
+			"  val x = 1 // one",
+			"",
+			"",
+			"",
+			"  val y = 2",
+			"",
+			"}",
+			"fun b() {",
+			"}",
+		);
+		assert.strictEqual(
+			applyEdits(source, formatDocument(source, SPACES)),
+			lines(
+				"fun a() {",
+				"    // first",
+				"    val x = 1 // one",
+				"",
+				"    val y = 2",
+				"}",
+				"",
+				"fun b() {",
+				"}",
+				"",
+			),
+		);
+	});
+
+	test("formats only the lines in a range", () => {
+		const source = lines("fun a() {", "val x=1", "val y=2", "}");
+		const start = source.indexOf("val y");
+		assert.strictEqual(
+			applyEdits(source, formatRange(source, start, start + 7, SPACES)),
+			lines("fun a() {", "val x=1", "    val y = 2", "}"),
+		);
+	});
+
+	test("formats the block closed by a typed brace", () => {
+		const source = lines("val z=0", "fun a() {", "val x=1", "}");
+		// Including the blank line before the fun
+		assert.strictEqual(
+			applyEdits(source, formatOnType(source, source.length, "}", SPACES)),
+			lines("val z=0", "", "fun a() {", "    val x = 1", "}"),
+		);
+	});
+
+	test("leaves text that cannot be tokenized alone", () => {
+		assert.strictEqual(formatDocument('val s = "unterminated', SPACES), null);
+	});
+});
@@ -0,0 +1,93 @@
+import type { Position } from "vscode-languageserver";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import type { AnalysisResult } from "../core/analyzer";
+import { type TextEdit, walk } from "../core/ast";
+import { typeToString } from "../core/inference";
+import { LineIndex } from "../core/lexer";
+import { DocumentInferenceService } from "../server/inferenceService";
+
+/**
+ * A Synotra document and an inference service analyzing it in process,
+ * as the providers get them from the server.
+ */
+export function openDocument(
+	text: string,
+	uri = "file:///workspace/test.sy",
+): { document: TextDocument; inferenceService: DocumentInferenceService } {
+	return {
+		document: TextDocument.create(uri, "synotra", 1, text),
+		inferenceService: new DocumentInferenceService(),
+	};
+}
+
+/**
+ * Position `delta` characters into the first occurrence of `search`.
+ */
+export function positionOf(
+	document: TextDocument,
+	search: string,
+	delta = 0,
+): Position {
+	const offset = document.getText().indexOf(search);
+	if (offset === -1) {
+		throw new Error(`'${search}' does not occur in the document`);
+	}
+	return document.positionAt(offset + delta);
+}
+
+/**
+ * Source lines joined into a document text.
+ */
+export function lines(...source: string[]): string {
+	return source.join("\n");
+}
+
+/**
+ * Replace the first occurrence of `search` (or insert after it when
+ * `after` is set), returning the new text and the edit an editor would
+ * report.
+ */
+export function edit(
+	text: string,
+	search: string,
+	newText: string,
+	after = false,
+): { text: string; edit: TextEdit } {
+	const start = text.indexOf(search) + (after ? search.length : 0);
+	const end = after ? start : start + search.length;
+	const index = new LineIndex(text);
+	return {
+		text: text.slice(0, start) + newText + text.slice(end),
+		edit: {
+			range: { start: index.positionAt(start), end: index.positionAt(end) },
+			newText,
+		},
+	};
+}
+
+/**
+ * Everything a result reports, in a form that can be compared between
+ * analyses of the same text.
+ */
+export function summarize(result: AnalysisResult) {
+	const nodes: string[] = [];
+	walk(result.ast, (node) => {
+		const type = result.types.get(node);
+		nodes.push(
+			`${node.kind} ${node.name} ${node.range.start.offset}-${node.range.end.offset}` +
+				(type ? `: ${typeToString(type)}` : ""),
+		);
+	});
+	const diagnostics = result.diagnostics
+		.map(
+			(d) =>
+				`${d.range.start.offset} ${d.message} ${JSON.stringify(d.fixes ?? [])}`,
+		)
+		.sort();
+	const effects = [...result.effects]
+		.map(([fn, operations]) =>
+			[fn.name, ...operations.map((o) => o.description)].join(" "),
+		)
+		.sort();
+	return { nodes, diagnostics, effects };
+}
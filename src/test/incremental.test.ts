@@ -0,0 +1,292 @@
+import * as assert from "node:assert";
+import { type AnalysisResult, Analyzer } from "../core/analyzer";
+import { type ASTNode, type TextEdit, walk } from "../core/ast";
+import { relex } from "../core/incremental";
+import { LineIndex, lex } from "../core/lexer";
+import { edit, lines, summarize } from "./helpers";
+
+const SOURCE = lines(
+	"class Point(val x: Int, val y: Int) {",
+	"    fun sum(): Int {",
+	"        return x + y",
+	"    }",
+	"}",
+	"",
+	"actor Counter(start: Int) {",
+	"    var count: Int = 0",
+	"    io fun increment(n: Int) {",
+	"        count = count + n",
+	"    }",
+	"}",
+	"",
+	"fun total(p: Point): Int {",
+	"    val s = p.sum()",
+	"    return s + p.x",
+	"}",
+	"",
+	"io fun main() {",
+	"    val c = Counter.new(0)",
+	"    send(c, increment(total(Point.new(1, 2))))",
+	"}",
+);
+
+// Source of the random edit test, with a handler and a top-level function
+// of the same name
+const MESSAGES = lines(
+	"class Point(val x: Int, val y: Int) {",
+	"    fun sum(): Int {",
+	"        return x + y",
+	"    }",
+	"}",
+	"",
+	"actor Counter(start: Int) {",
+	"    var count: Int = 0",
+	"    io fun increment(n: Int) {",
+	"        count = count + n",
+	"    }",
+	"    fun get(): Int {",
+	"        return count",
+	"    }",
+	"}",
+	"",
+	"fun get(): String {",
+	'    return "g"',
+	"}",
+	"",
+	"fun total(p: Point): Int {",
+	"    val s = p.sum()",
+	"    return s + p.x",
+	"}",
+	"",
+	"io fun main() {",
+	"    val c = Counter.new(0)",
+	"    send(c, increment(total(Point.new(1, 2))))",
+	"    val r = ask(c, get())",
+	"    val t = total(Point.new(r, 2))",
+	"    println(t)",
+	"}",
+);
+
+// Text inserted by the random edit test: text that opens or closes
+// strings, blocks and calls, declares, and misspells names
+const INSERTIONS = [
+	'"',
+	"{",
+	"}",
+	"(",
+	")",
+	"fun ",
+	"val ",
+	": Int",
+	"x",
+	".",
+	"get",
+	"Counter",
+	"actor ",
+	"\n",
+];
+
+/**
+ * Pseudo-random numbers in [0, 1) from a seed, so that failures repeat.
+ */
+function random(seed: number): () => number {
+	return () => {
+		seed = (seed + 0x6d2b79f5) | 0;
+		let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+		t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+		return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+	};
+}
+
+/**
+ * Reanalyze after one edit and check the result against a full analysis.
+ */
+function reanalyzeAndCompare(
+	analyzer: Analyzer,
+	previous: AnalysisResult,
+	text: string,
+	change: TextEdit,
+): AnalysisResult {
+	const result = analyzer.reanalyze(text, previous, [change]);
+	assert.deepStrictEqual(
+		summarize(result),
+		summarize(new Analyzer().analyze(text)),
+	);
+	return result;
+}
+
+function findNode(ast: ASTNode, kind: string, name: string): ASTNode {
+	let found: ASTNode | undefined;
+	walk(ast, (node) => {
+		if (!found && node.kind === kind && node.name === name) {
+			found = node;
+		}
+	});
+	assert.ok(found, `no ${kind} ${name}`);
+	return found;
+}
+
+suite("Incremental analysis", () => {
+	test("typing inside a function body matches a full analysis", () => {
+		const analyzer = new Analyzer();
+		const previous = analyzer.analyze(SOURCE);
+		const changed = edit(SOURCE, "val s", "x", true);
+		reanalyzeAndCompare(analyzer, previous, changed.text, changed.edit);
+	});
+
+	test("changing a signature updates the code using it", () => {
+		const analyzer = new Analyzer();
+		let result = analyzer.analyze(SOURCE);
+		assert.deepStrictEqual(result.diagnostics, []);
+
+		// The call in main no longer matches, and total's body is rechecked
+		let changed = edit(SOURCE, "fun sum(): Int", "fun sum(): String");
+		result = reanalyzeAndCompare(analyzer, result, changed.text, changed.edit);
+		assert.ok(result.diagnostics.length > 0);
+
+		// A handler that is renamed is no longer found by the send in main
+		changed = edit(changed.text, "fun increment", "fun add");
+		reanalyzeAndCompare(analyzer, result, changed.text, changed.edit);
+	});
+
+	test("a member that becomes a top-level function is no longer a handler", () => {
+		const source = lines(
+			"actor Counter {",
+			"    var count: Int = 0",
+			"    fun inc(n: Int) {",
+			"        count = count + n",
+			"    }",
+			"    fun get(): Int {",
+			"        return count",
+			"    }",
+			"}",
+			"",
+			"fun main() {",
+			"    val c = Counter.new()",
+			"    val r = ask(c, get())",
+			"}",
+		);
+		const analyzer = new Analyzer();
+		const previous = analyzer.analyze(source);
+		// The string runs to the end of the line, so get is parsed as a
+		// top-level function
+		const changed = edit(source, "fun inc(n: Int", '"', true);
+		const result = reanalyzeAndCompare(
+			analyzer,
+			previous,
+			changed.text,
+			changed.edit,
+		);
+		assert.ok(
+			result.diagnostics.some(
+				(d) => d.message === "Actor 'Counter' has no handler 'get'",
+			),
+		);
+	});
+
+	test("random edits made one after another match a full analysis", () => {
+		const next = random(2);
+		const analyzer = new Analyzer();
+		let text = MESSAGES;
+		let result = analyzer.analyze(text);
+		for (let i = 0; i < 150; i++) {
+			const start = Math.floor(next() * (text.length + 1));
+			const end =
+				next() < 0.3
+					? Math.min(text.length, start + 1 + Math.floor(next() * 8))
+					: start;
+			const newText =
+				start === end ? INSERTIONS[Math.floor(next() * INSERTIONS.length)] : "";
+			const index = new LineIndex(text);
+			const change: TextEdit = {
+				range: { start: index.positionAt(start), end: index.positionAt(end) },
+				newText,
+			};
+			text = text.slice(0, start) + newText + text.slice(end);
+			result = analyzer.reanalyze(text, result, [change]);
+			assert.deepStrictEqual(
+				summarize(result),
+				summarize(new Analyzer().analyze(text)),
+				`edit ${i}: ${JSON.stringify(change)}`,
+			);
+		}
+	});
+
+	test("declarations after the edit are moved", () => {
+		const analyzer = new Analyzer();
+		const previous = analyzer.analyze(SOURCE);
+		const changed = edit(SOURCE, "", "// A point\n");
+		const result = reanalyzeAndCompare(
+			analyzer,
+			previous,
+			changed.text,
+			changed.edit,
+		);
+		const main = findNode(result.ast, "function", "main");
+		assert.strictEqual(main.range.start.line, 19);
+	});
+
+	test("the previous result is left as it is", () => {
+		const analyzer = new Analyzer();
+		const previous = analyzer.analyze(SOURCE);
+		const main = findNode(previous.ast, "function", "main");
+		const { start } = main.range;
+
+		const changed = edit(SOURCE, "", "\n\n");
+		const result = analyzer.reanalyze(changed.text, previous, [changed.edit]);
+
+		assert.strictEqual(main.range.start, start);
+		assert.strictEqual(main.range.start.line, 18);
+		assert.strictEqual(main.parent, previous.ast);
+		assert.ok(!previous.ast.children.includes(result.ast.children[2]));
+		for (const node of result.types.keys()) {
+			let root = node;
+			while (root.parent) {
+				root = root.parent;
+			}
+			assert.strictEqual(root, result.ast);
+		}
+	});
+
+	test("types of copied declarations refer to the new classes", () => {
+		const analyzer = new Analyzer();
+		const previous = analyzer.analyze(SOURCE);
+		const changed = edit(SOURCE, "io fun main() {", "\n", true);
+		const result = analyzer.reanalyze(changed.text, previous, [changed.edit]);
+
+		const p = findNode(result.ast, "parameter", "p");
+		assert.strictEqual(
+			result.types.get(p)?.declaration,
+			findNode(result.ast, "class", "Point"),
+		);
+	});
+});
+
+suite("relex", () => {
+	test("matches lexing the edited text", () => {
+		const cases: [string, string, boolean][] = [
+			["val s", "x", true], // grows an identifier
+			["p.sum()", "p. sum()", false],
+			["fun main", "/* ", false], // opens a comment that runs to the end
+			["1, 2", "1.5", false],
+			["count = count + n", "", false],
+		];
+		for (const [search, newText, after] of cases) {
+			const changed = edit(SOURCE, search, newText, after);
+			assert.deepStrictEqual(
+				relex(lex(SOURCE), changed.text, [changed.edit]),
+				lex(changed.text),
+				`${search} -> ${newText}`,
+			);
+		}
+	});
+
+	test("combines edits made one after another", () => {
+		const first = edit(SOURCE, "class Point", "class Pt");
+		const second = edit(first.text, "Counter.new(0)", "Counter.new(10)");
+		assert.deepStrictEqual(
+			relex(lex(SOURCE), second.text, [first.edit, second.edit]),
+			lex(second.text),
+		);
+	});
+});
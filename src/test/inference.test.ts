@@ -0,0 +1,110 @@
+import * as assert from "node:assert";
+import { Analyzer } from "../core/analyzer";
+import { walk } from "../core/ast";
+import { typeToString } from "../core/inference";
+import { lines } from "./helpers";
+
+/**
+ * The inferred type of each variable, and the return type of each
+ * function, by name.
+ */
+function typesOf(source: string): Record<string, string> {
+	const { ast, types } = new Analyzer().analyze(source);
+	const found: Record<string, string> = {};
+	walk(ast, (node) => {
+		const type = types.get(node);
+		if (node.kind === "variable" && type) {
+			found[node.name] = typeToString(type);
+		} else if (node.kind === "function" && type) {
+			found[`${node.name}()`] = typeToString(type.returnType);
+		}
+	});
+	return found;
+}
+
+suite("InferenceEngine", () => {
+	test("types literals and operators", () => {
+		assert.deepStrictEqual(
+			typesOf(
+				lines(
+					"val i = 1 + 2",
+					"val d = i * 1.5",
+					"val c = 'x'",
+					'val s = "n = ${i}"',
+					"val b = i < 3 && !false",
+					"val n: Int? = null",
+				),
+			),
+			{
+				i: "Int",
+				d: "Double",
+				c: "Char",
+				s: "String",
+				b: "Bool",
+				n: "Int?",
+			},
+		);
+	});
+
+	test("infers return types and the types of calls in any order", () => {
+		assert.deepStrictEqual(
+			typesOf(
+				lines(
+					"fun main() {",
+					"    val total = sum(1, 2)",
+					"    val half = total / 2.0",
+					"}",
+					"fun sum(a: Int, b: Int) {",
+					"    return a + b",
+					"}",
+				),
+			),
+			{
+				"main()": "Unit",
+				total: "Int",
+				half: "Double",
+				"sum()": "Int",
+			},
+		);
+	});
+
+	test("types constructor calls, fields and methods of classes", () => {
+		assert.deepStrictEqual(
+			typesOf(
+				lines(
+					"class Point(val x: Int, val y: Int) {",
+					"    fun scaled(by: Double): Double {",
+					"        return x * by",
+					"    }",
+					"}",
+					"val p = Point.new(1, 2)",
+					"val x = p.x",
+					"val s = p.scaled(2.0)",
+				),
+			),
+			{ "scaled()": "Double", p: "Point", x: "Int", s: "Double" },
+		);
+	});
+
+	test("infers element types of collections from their use", () => {
+		assert.deepStrictEqual(
+			typesOf(
+				lines(
+					"fun fill() {",
+					"    val names = List.new()",
+					'    names.add("a")',
+					"    val first = names.get(0)",
+					"    val counts = MutableMap.new()",
+					"    counts.put(first, 1)",
+					"}",
+				),
+			),
+			{
+				"fill()": "Unit",
+				names: "List<String>",
+				first: "String",
+				counts: "MutableMap<String, Int>",
+			},
+		);
+	});
+});
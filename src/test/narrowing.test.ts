@@ -0,0 +1,101 @@
+import * as assert from "node:assert";
+import { Analyzer } from "../core/analyzer";
+import { lines } from "./helpers";
+
+/**
+ * Messages of the problems reported for the body of `fun f(p: Int?)`.
+ */
+function problems(...body: string[]): string[] {
+	const source = lines("fun f(p: Int?) {", ...body, "}");
+	return new Analyzer()
+		.analyze(source)
+		.diagnostics.map((diagnostic) => diagnostic.message);
+}
+
+const NULLABLE_OPERAND =
+	"Operator '+' cannot be applied to types 'Int?' and 'Int'";
+
+suite("Null narrowing", () => {
+	test("narrows inside the then branch of a null check", () => {
+		assert.deepStrictEqual(
+			problems(
+				"    val x: Int? = p",
+				"    if (x != null) {",
+				"        val y = x + 1",
+				"    }",
+			),
+			[],
+		);
+	});
+
+	test("an assignment in the then branch ends the narrowing", () => {
+		assert.deepStrictEqual(
+			problems(
+				"    var x: Int? = p",
+				"    if (x != null) {",
+				"        x = null",
+				"        val y = x + 1",
+				"    }",
+			),
+			[NULLABLE_OPERAND],
+		);
+	});
+
+	test("an assignment after the reference keeps the narrowing", () => {
+		assert.deepStrictEqual(
+			problems(
+				"    var x: Int? = p",
+				"    if (x != null) {",
+				"        val y = x + 1",
+				"        x = null",
+				"    }",
+			),
+			[],
+		);
+	});
+
+	test("an assignment later in a loop around the reference ends it", () => {
+		assert.deepStrictEqual(
+			problems(
+				"    var x: Int? = p",
+				"    if (x != null) {",
+				"        for (i in 0..3) {",
+				"            val y = x + 1",
+				"            x = null",
+				"        }",
+				"    }",
+			),
+			[NULLABLE_OPERAND],
+		);
+	});
+
+	test("an assignment in a while body ends the narrowing", () => {
+		assert.deepStrictEqual(
+			problems(
+				"    var x: Int? = p",
+				"    while (x != null) {",
+				"        x = null",
+				"        val y = x + 1",
+				"    }",
+			),
+			[NULLABLE_OPERAND],
+		);
+	});
+
+	test("narrows after an early return until an assignment", () => {
+		assert.deepStrictEqual(
+			problems(
+				"    var x: Int? = p",
+				"    if (x == null) {",
+				"        return",
+				"    }",
+				"    val y = x + 1",
+				"    if (y > 2) {",
+				"        x = null",
+				"    }",
+				"    val z = x + 1",
+			),
+			[NULLABLE_OPERAND],
+		);
+	});
+});
@@ -0,0 +1,118 @@
+import * as assert from "node:assert";
+import type { ASTNode } from "../core/ast";
+import { Parser } from "../core/parser";
+import { lines } from "./helpers";
+
+/**
+ * An expression in prefix form, e.g. "(+ a (* b c))".
+ */
+function prefix(node: ASTNode | undefined): string {
+	switch (node?.kind) {
+		case "binary":
+			return `(${node.operator} ${prefix(node.left)} ${prefix(node.right)})`;
+		case "unary":
+			return `(${node.operator} ${prefix(node.expression)})`;
+		case "call":
+			return `(call ${[node.callee, ...(node.args ?? [])].map(prefix).join(" ")})`;
+		case "member":
+			return `(. ${prefix(node.object)} ${node.name})`;
+		case "index":
+			return `([] ${prefix(node.object)} ${prefix(node.expression)})`;
+		default:
+			return node?.name || String(node?.kind);
+	}
+}
+
+function parseExpression(source: string): ASTNode | undefined {
+	return new Parser(`val x = ${source}`).parse().children[0].initializer;
+}
+
+suite("Parser", () => {
+	test("parses declarations with their parameters and types", () => {
+		const ast = new Parser(
+			lines(
+				"class Point(val x: Int, var y: Int?) {",
+				"    fun sum(): Int {",
+				"        return x + y",
+				"    }",
+				"}",
+				"io fun main(args: List<String>) {",
+				"}",
+			),
+		).parse();
+
+		const [point, main] = ast.children;
+		assert.deepStrictEqual(
+			[point.kind, point.name, main.kind, main.name, main.isIo],
+			["class", "Point", "function", "main", true],
+		);
+		assert.deepStrictEqual(
+			point.params?.map((param) => [
+				param.name,
+				param.mutable,
+				param.typeAnnotation?.name,
+				param.typeAnnotation?.nullable,
+			]),
+			[
+				["x", false, "Int", undefined],
+				["y", true, "Int", true],
+			],
+		);
+		assert.strictEqual(
+			main.params?.[0].typeAnnotation?.typeArgs?.[0].name,
+			"String",
+		);
+		const sum = point.children.find((child) => child.name === "sum");
+		assert.deepStrictEqual(sum?.nameRange?.start, {
+			line: 1,
+			character: 8,
+			offset: 47,
+		});
+	});
+
+	test("binary operators bind by precedence and associate left", () => {
+		assert.strictEqual(prefix(parseExpression("a + b * c")), "(+ a (* b c))");
+		assert.strictEqual(prefix(parseExpression("a - b - c")), "(- (- a b) c)");
+		assert.strictEqual(
+			prefix(parseExpression("!a && b || c == d")),
+			"(|| (&& (! a) b) (== c d))",
+		);
+		assert.strictEqual(
+			prefix(parseExpression("xs.get(i + 1).name")),
+			"(. (call (. xs get) (+ i 1)) name)",
+		);
+	});
+
+	test("tells type arguments from comparisons", () => {
+		const generic = parseExpression("List<Int>.new()");
+		assert.strictEqual(prefix(generic), "(call (. List new))");
+		assert.strictEqual(generic?.callee?.object?.typeArgs?.[0].name, "Int");
+		assert.strictEqual(prefix(parseExpression("a < b")), "(< a b)");
+	});
+
+	test("parses the expressions interpolated into strings", () => {
+		const string = parseExpression('"sum: ${a + b}"');
+		assert.deepStrictEqual(string?.children.map(prefix), ["(+ a b)"]);
+	});
+
+	test("reports syntax errors and goes on with the next declaration", () => {
+		const parser = new Parser(
+			lines(
+				"fun broken(a: Int {",
+				"    val = 1",
+				"}",
+				"fun fine(): Int {",
+				"    return 1",
+				"}",
+			),
+		);
+		const ast = parser.parse();
+		assert.ok(parser.diagnostics.length > 0);
+		assert.ok(
+			parser.diagnostics.every((diagnostic) => diagnostic.severity === "error"),
+		);
+		const fine = ast.children.find((child) => child.name === "fine");
+		assert.strictEqual(fine?.kind, "function");
+		assert.strictEqual(fine?.returnType?.name, "Int");
+	});
+});
@@ -0,0 +1,278 @@
+import * as assert from "node:assert";
+import type { CodeAction, Range } from "vscode-languageserver";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import Refactorings from "../server/refactorings";
+import { lines, openDocument, positionOf } from "./helpers";
+
+type Provider =
+	| "provideExtractFunction"
+	| "provideExtractVariable"
+	| "provideInlineVariable";
+
+/**
+ * The text left by a refactoring of the selection from the first
+ * occurrence of `start` to the end of the first occurrence of `end` (an
+ * empty selection at `start` without it), or null when it is not offered.
+ */
+async function refactor(
+	text: string,
+	provider: Provider,
+	start: string,
+	end?: string,
+): Promise<string | null> {
+	const { document, inferenceService } = openDocument(text);
+	const result = await inferenceService.getInferenceResult(document);
+	assert.ok(result);
+	const from = positionOf(document, start);
+	const range: Range = {
+		start: from,
+		end: end ? positionOf(document, end, end.length) : from,
+	};
+	const action: CodeAction | null = new Refactorings(inferenceService)[
+		provider
+	](document, range, result);
+	const edits = action?.edit?.changes?.[document.uri];
+	return edits ? TextDocument.applyEdits(document, edits) : null;
+}
+
+const COUNTER = lines(
+	"actor Counter {",
+	"    var count: Int = 0",
+	"",
+	"    fun increment(by: Int) {",
+	"        count = count + by",
+	"    }",
+	"",
+	"    fun current(): Int {",
+	"        return count",
+	"    }",
+	"}",
+	"",
+);
+
+suite("Refactorings", () => {
+	suite("Inline Variable", () => {
+		test("inlines an initializer without side effects into every use", async () => {
+			assert.strictEqual(
+				await refactor(
+					lines(
+						"io fun main() {",
+						"    val a = 2",
+						"    val b = a * 3 + 1",
+						"    println(b * b)",
+						"}",
+					),
+					"provideInlineVariable",
+					"b =",
+				),
+				lines(
+					"io fun main() {",
+					"    val a = 2",
+					"    println((a * 3 + 1) * (a * 3 + 1))",
+					"}",
+				),
+			);
+		});
+
+		test("a call used twice is not inlined", async () => {
+			const source = lines(
+				`${COUNTER}io fun main() {`,
+				"    val c = Counter.new()",
+				"    send(c, increment(1))",
+				"    send(c, increment(2))",
+				"}",
+			);
+			assert.strictEqual(
+				await refactor(source, "provideInlineVariable", "c ="),
+				null,
+			);
+		});
+
+		test("a call is not moved past other calls", async () => {
+			const source = lines(
+				"io fun main() {",
+				"    val list = List<Int>.new()",
+				"    val n = list.size()",
+				"    list.add(1)",
+				"    println(n)",
+				"}",
+			);
+			assert.strictEqual(
+				await refactor(source, "provideInlineVariable", "n ="),
+				null,
+			);
+		});
+
+		test("a call is not moved into a loop", async () => {
+			const source = lines(
+				"io fun main() {",
+				"    val list = List<Int>.new()",
+				"    val n = list.size()",
+				"    while (true) {",
+				"        println(n)",
+				"    }",
+				"}",
+			);
+			assert.strictEqual(
+				await refactor(source, "provideInlineVariable", "n ="),
+				null,
+			);
+		});
+
+		test("a call used once right after it is inlined", async () => {
+			assert.strictEqual(
+				await refactor(
+					lines(
+						"io fun main() {",
+						"    val list = List<Int>.new()",
+						"    val n = list.size()",
+						"    println(n + 1)",
+						"    list.add(1)",
+						"}",
+					),
+					"provideInlineVariable",
+					"n =",
+				),
+				lines(
+					"io fun main() {",
+					"    val list = List<Int>.new()",
+					"    println(list.size() + 1)",
+					"    list.add(1)",
+					"}",
+				),
+			);
+		});
+
+		test("an unused call is not deleted", async () => {
+			const source = lines(
+				`${COUNTER}io fun main() {`,
+				"    val c = Counter.new()",
+				"    val r = ask(c, current())",
+				"}",
+			);
+			assert.strictEqual(
+				await refactor(source, "provideInlineVariable", "r ="),
+				null,
+			);
+			// An unused value without side effects is
+			assert.strictEqual(
+				await refactor(
+					lines("fun main() {", "    val x = 1 + 2", "}"),
+					"provideInlineVariable",
+					"x =",
+				),
+				lines("fun main() {", "}"),
+			);
+		});
+	});
+
+	suite("Extract Variable", () => {
+		test("declares the value before the statement using it", async () => {
+			assert.strictEqual(
+				await refactor(
+					lines(
+						"io fun main() {",
+						"    val a = 2",
+						"    println(a * 3 + 1)",
+						"}",
+					),
+					"provideExtractVariable",
+					"a * 3",
+					"+ 1",
+				),
+				lines(
+					"io fun main() {",
+					"    val a = 2",
+					"    val value = a * 3 + 1",
+					"    println(value)",
+					"}",
+				),
+			);
+		});
+
+		test("an expression in a loop or branch without braces is not moved out of it", async () => {
+			const loop = lines(
+				"io fun main() {",
+				"    val xs = List<Int>.new()",
+				"    while (xs.size() > 0) println(xs.removeAt(0))",
+				"    for (x in xs) println(x + 1)",
+				"}",
+			);
+			assert.strictEqual(
+				await refactor(loop, "provideExtractVariable", "xs.removeAt", "(0)"),
+				null,
+			);
+			assert.strictEqual(
+				await refactor(loop, "provideExtractVariable", "x + 1", "x + 1"),
+				null,
+			);
+			const branch = lines(
+				"io fun main() {",
+				"    val a = 1",
+				"    if (a > 0) println(a + 1)",
+				"}",
+			);
+			assert.strictEqual(
+				await refactor(branch, "provideExtractVariable", "a + 1", "a + 1"),
+				null,
+			);
+		});
+
+		test("names the value after the call without its verb, or its type", async () => {
+			const names: string[] = [];
+			for (const call of [
+				"xs.getFirst()",
+				"xs.removeLast()",
+				"xs.removeAt(0)",
+				"xs.get(0)",
+				"xs.size()",
+				"Counter.new()",
+			]) {
+				const extracted = await refactor(
+					lines(
+						`${COUNTER}io fun main() {`,
+						"    val xs = List<String>.new()",
+						`    println(${call})`,
+						"}",
+					),
+					"provideExtractVariable",
+					call,
+					call,
+				);
+				names.push(extracted?.match(/val (\w+) =/g)?.[1] ?? "");
+			}
+			assert.deepStrictEqual(names, [
+				"val first =",
+				"val last =",
+				"val string =",
+				"val string =",
+				"val size =",
+				"val counter =",
+			]);
+		});
+	});
+
+	suite("Extract Function", () => {
+		test("indents the new function like the document", async () => {
+			const source = lines(
+				"io fun main() {",
+				"\tval a = 1",
+				"\tprintln(a + 1)",
+				"}",
+			);
+			assert.strictEqual(
+				await refactor(source, "provideExtractFunction", "println", "+ 1)"),
+				lines(
+					"io fun main() {",
+					"\tval a = 1",
+					"\textracted(a)",
+					"}",
+					"",
+					"io fun extracted(a: Int) {",
+					"\tprintln(a + 1)",
+					"}",
+				),
+			);
+		});
+	});
+});
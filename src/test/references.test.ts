@@ -0,0 +1,99 @@
+import * as assert from "node:assert";
+import { CancellationToken } from "vscode-languageserver";
+import { TextDocuments } from "vscode-languageserver/node";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import References from "../server/references";
+import Rename from "../server/rename";
+import { WorkspaceIndex } from "../server/workspaceIndex";
+import { lines, openDocument, positionOf } from "./helpers";
+
+const SOURCE = lines(
+	"class Point(val x: Int, val y: Int) {",
+	"    fun sum(): Int {",
+	"        return x + y",
+	"    }",
+	"}",
+	"fun main() {",
+	"    val p = Point.new(1, 2)",
+	"    val q = Point.new(3, 4)",
+	"    println(p.sum() + q.sum() + p.x)",
+	"}",
+);
+
+function setUp(text: string) {
+	const { document, inferenceService } = openDocument(text);
+	const index = new WorkspaceIndex(
+		inferenceService,
+		new TextDocuments(TextDocument),
+	);
+	return { document, inferenceService, index };
+}
+
+suite("References", () => {
+	test("finds calls of a method through receivers", async () => {
+		const { document, inferenceService, index } = setUp(SOURCE);
+		const locations = await new References(
+			inferenceService,
+			index,
+		).provideReferences(
+			document,
+			positionOf(document, "sum"),
+			{ includeDeclaration: false },
+			CancellationToken.None,
+		);
+		assert.deepStrictEqual(
+			locations?.map((location) => location.range.start),
+			[positionOf(document, "p.sum", 2), positionOf(document, "q.sum", 2)],
+		);
+	});
+
+	test("finds a field from an access through a receiver", async () => {
+		const { document, inferenceService, index } = setUp(SOURCE);
+		const locations = await new References(
+			inferenceService,
+			index,
+		).provideReferences(
+			document,
+			positionOf(document, "p.x", 2),
+			{ includeDeclaration: true },
+			CancellationToken.None,
+		);
+		assert.deepStrictEqual(
+			locations?.map((location) => location.range.start),
+			[
+				positionOf(document, "x:"),
+				positionOf(document, "x + y"),
+				positionOf(document, "p.x", 2),
+			],
+		);
+	});
+});
+
+suite("Rename", () => {
+	test("renames a method and its calls through receivers", async () => {
+		const { document, inferenceService, index } = setUp(SOURCE);
+		const rename = new Rename(inferenceService, index);
+		const position = positionOf(document, "q.sum", 2);
+
+		const prepared = await rename.prepareRename(
+			document,
+			position,
+			CancellationToken.None,
+		);
+		assert.strictEqual(prepared?.placeholder, "sum");
+
+		const edit = await rename.provideRenameEdits(
+			document,
+			position,
+			"total",
+			CancellationToken.None,
+		);
+		const renamed = TextDocument.applyEdits(
+			document,
+			edit?.changes?.[document.uri] ?? [],
+		);
+		assert.match(renamed, /fun total\(\): Int/);
+		assert.match(renamed, /p\.total\(\) \+ q\.total\(\)/);
+		assert.doesNotMatch(renamed, /sum/);
+	});
+});
@@ -0,0 +1,151 @@
+import * as assert from "node:assert";
+import { type AnalysisResult, Analyzer } from "../core/analyzer";
+import { type ASTNode, walk } from "../core/ast";
+import {
+	type EncodedUnit,
+	ResultDecoder,
+	ResultEncoder,
+} from "../server/resultTransfer";
+import { edit, lines, summarize } from "./helpers";
+
+const URI = "file:///workspace/test.sy";
+
+const SOURCE = lines(
+	"class Point(val x: Int, val y: Int) {",
+	"    fun sum(): Int {",
+	"        return x + y",
+	"    }",
+	"}",
+	"",
+	"fun total(p: Point): Int {",
+	"    return p.sum() + p.x",
+	"}",
+	"",
+	"io fun main() {",
+	"    val p = Point.new(1, 2)",
+	'    println("total")',
+	"}",
+);
+
+/**
+ * An analyzer and the two ends of the worker's channel, passing results
+ * through structuredClone as postMessage does.
+ */
+function setUp() {
+	const analyzer = new Analyzer();
+	const encoder = new ResultEncoder();
+	const decoder = new ResultDecoder();
+	const transfer = (result: AnalysisResult) => {
+		const encoded = structuredClone(
+			encoder.encode(URI, result, analyzer.reusedNodes(result)),
+		);
+		const decoded = decoder.decode(URI, encoded);
+		assert.deepStrictEqual(summarize(decoded), summarize(result));
+		return { encoded, decoded };
+	};
+	return { analyzer, transfer };
+}
+
+function unitKinds(units: EncodedUnit[]): string[] {
+	return units.map((unit) => {
+		if ("node" in unit) {
+			return "node";
+		}
+		return unit.takenOver ? "taken over" : "copy";
+	});
+}
+
+function findNode(ast: ASTNode, kind: string, name: string): ASTNode {
+	let found: ASTNode | undefined;
+	walk(ast, (node) => {
+		if (!found && node.kind === kind && node.name === name) {
+			found = node;
+		}
+	});
+	assert.ok(found, `no ${kind} ${name}`);
+	return found;
+}
+
+suite("Result transfer", () => {
+	test("sends only the declarations that were parsed again", () => {
+		const { analyzer, transfer } = setUp();
+		let result = analyzer.analyze(SOURCE);
+		const first = transfer(result);
+		assert.deepStrictEqual(unitKinds(first.encoded.units), [
+			"node",
+			"node",
+			"node",
+		]);
+
+		const changed = edit(SOURCE, '"total"', '"sum"');
+		result = analyzer.reanalyze(changed.text, result, [changed.edit]);
+		const second = transfer(result);
+		assert.deepStrictEqual(unitKinds(second.encoded.units), [
+			"taken over",
+			"taken over",
+			"node",
+		]);
+		// Types of the declarations taken over are not sent again
+		assert.ok(second.encoded.types.length < first.encoded.types.length);
+	});
+
+	test("sends the types of copied declarations analyzed again", () => {
+		const { analyzer, transfer } = setUp();
+		let result = analyzer.analyze(SOURCE);
+		transfer(result);
+
+		// total uses sum, so its types are inferred again
+		const changed = edit(SOURCE, "fun sum(): Int", "fun sum(): String");
+		result = analyzer.reanalyze(changed.text, result, [changed.edit]);
+		const { encoded } = transfer(result);
+		assert.deepStrictEqual(unitKinds(encoded.units), [
+			"node",
+			"copy",
+			"taken over",
+		]);
+	});
+
+	test("moves declarations and links them to the new AST", () => {
+		const { analyzer, transfer } = setUp();
+		let result = analyzer.analyze(SOURCE);
+		transfer(result);
+
+		const changed = edit(SOURCE, "", "// Points\n\n");
+		result = analyzer.reanalyze(changed.text, result, [changed.edit]);
+		const { decoded } = transfer(result);
+
+		const main = findNode(decoded.ast, "function", "main");
+		assert.strictEqual(main.range.start.line, 12);
+		for (const node of decoded.types.keys()) {
+			let root = node;
+			while (root.parent) {
+				root = root.parent;
+			}
+			assert.strictEqual(root, decoded.ast);
+		}
+		const p = findNode(decoded.ast, "parameter", "p");
+		assert.strictEqual(
+			decoded.types.get(p)?.declaration,
+			findNode(decoded.ast, "class", "Point"),
+		);
+	});
+
+	test("starts over after the document is forgotten", () => {
+		const analyzer = new Analyzer();
+		const encoder = new ResultEncoder();
+		const decoder = new ResultDecoder();
+		const previous = analyzer.analyze(SOURCE);
+		encoder.encode(URI, previous, analyzer.reusedNodes(previous));
+		encoder.forget(URI);
+		decoder.forget(URI);
+
+		const changed = edit(SOURCE, '"total"', '"sum"');
+		const result = analyzer.reanalyze(changed.text, previous, [changed.edit]);
+		const encoded = encoder.encode(URI, result, analyzer.reusedNodes(result));
+		assert.deepStrictEqual(unitKinds(encoded.units), ["node", "node", "node"]);
+		assert.deepStrictEqual(
+			summarize(decoder.decode(URI, encoded)),
+			summarize(result),
+		);
+	});
+});
@@ -0,0 +1,141 @@
+import * as assert from "node:assert";
+import { CancellationToken, TextDocuments } from "vscode-languageserver";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import SemanticTokens, {
+	SEMANTIC_TOKENS_LEGEND,
+} from "../server/semanticTokens";
+import { lines, openDocument, positionOf } from "./helpers";
+
+/**
+ * Encoded tokens as "text type modifiers..." in document order.
+ */
+function decode(document: TextDocument, data: number[]): string[] {
+	const { tokenTypes, tokenModifiers } = SEMANTIC_TOKENS_LEGEND;
+	const tokens: string[] = [];
+	let line = 0;
+	let character = 0;
+	for (let i = 0; i < data.length; i += 5) {
+		character = data[i] === 0 ? character + data[i + 1] : data[i + 1];
+		line += data[i];
+		const start = document.offsetAt({ line, character });
+		const text = document.getText().slice(start, start + data[i + 2]);
+		const modifiers = tokenModifiers.filter(
+			(_, bit) => data[i + 4] & (1 << bit),
+		);
+		tokens.push([text, tokenTypes[data[i + 3]], ...modifiers].join(" "));
+	}
+	return tokens;
+}
+
+function createProvider(): {
+	document: TextDocument;
+	provider: SemanticTokens;
+} {
+	const { document, inferenceService } = openDocument(SOURCE);
+	return {
+		document,
+		provider: new SemanticTokens(
+			inferenceService,
+			new TextDocuments(TextDocument),
+		),
+	};
+}
+
+const SOURCE = lines(
+	"actor Counter {",
+	"    var count: Int = 0",
+	"    io fun log() {",
+	"        println(count)",
+	"    }",
+	"}",
+	"io fun main() {",
+	"    val c = Counter.new()",
+	"    send(c, log())",
+	"}",
+);
+
+suite("SemanticTokens", () => {
+	test("classifies declarations and the names referring to them", async () => {
+		const { document, provider } = createProvider();
+		const tokens = await provider.provideDocumentSemanticTokens(
+			document,
+			CancellationToken.None,
+		);
+		assert.deepStrictEqual(decode(document, tokens.data), [
+			"Counter actor declaration",
+			"count property declaration",
+			"Int type defaultLibrary",
+			"log method declaration io",
+			"println function defaultLibrary",
+			"count property",
+			"main function declaration io",
+			"c variable declaration readonly",
+			"Counter actor",
+			"send function defaultLibrary",
+			"c variable readonly",
+			"log method io",
+		]);
+		provider.dispose();
+	});
+
+	test("answers a request for changes with edits to the previous result", async () => {
+		const { document, provider } = createProvider();
+		const previous = await provider.provideDocumentSemanticTokens(
+			document,
+			CancellationToken.None,
+		);
+		assert.ok(previous.resultId);
+
+		const start = positionOf(document, "val c");
+		TextDocument.update(
+			document,
+			[{ range: { start, end: positionOf(document, " c =") }, text: "var" }],
+			2,
+		);
+
+		const delta = await provider.provideDocumentSemanticTokensEdits(
+			document,
+			previous.resultId,
+			CancellationToken.None,
+		);
+		assert.ok("edits" in delta);
+		const data = [...previous.data];
+		for (const { start, deleteCount, data: inserted } of delta.edits) {
+			data.splice(start, deleteCount, ...(inserted ?? []));
+		}
+		const current = await provider.provideDocumentSemanticTokens(
+			document,
+			CancellationToken.None,
+		);
+		assert.deepStrictEqual(data, current.data);
+		assert.ok(decode(document, data).includes("c variable declaration"));
+
+		// Without the previous result, all tokens are sent again
+		const full = await provider.provideDocumentSemanticTokensEdits(
+			document,
+			"unknown",
+			CancellationToken.None,
+		);
+		assert.ok("data" in full);
+		provider.dispose();
+	});
+
+	test("classifies only the names of the nodes in a range", async () => {
+		const { document, provider } = createProvider();
+		const tokens = await provider.provideDocumentRangeSemanticTokens(
+			document,
+			{
+				start: positionOf(document, "val c"),
+				end: positionOf(document, "Counter.new"),
+			},
+			CancellationToken.None,
+		);
+		// Including main, which the range is in
+		assert.deepStrictEqual(decode(document, tokens.data), [
+			"main function declaration io",
+			"c variable declaration readonly",
+			"Counter actor",
+		]);
+		provider.dispose();
+	});
+});
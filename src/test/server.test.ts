@@ -0,0 +1,106 @@
+import * as assert from "node:assert";
+import { type ChildProcess, fork } from "node:child_process";
+import * as path from "node:path";
+import {
+	CompletionRequest,
+	createProtocolConnection,
+	DidOpenTextDocumentNotification,
+	ExitNotification,
+	InitializedNotification,
+	InitializeRequest,
+	type ProtocolConnection,
+	PublishDiagnosticsNotification,
+	type PublishDiagnosticsParams,
+	ShutdownRequest,
+	StreamMessageReader,
+	StreamMessageWriter,
+} from "vscode-languageserver/node";
+import { lines } from "./helpers";
+
+const URI = "file:///workspace/main.sy";
+
+suite("Language server", () => {
+	let server: ChildProcess;
+	let connection: ProtocolConnection;
+
+	setup(async () => {
+		server = fork(
+			path.join(__dirname, "..", "server", "server.js"),
+			["--stdio"],
+			{
+				silent: true,
+			},
+		);
+		if (!server.stdout || !server.stdin) {
+			throw new Error("the server has no stdio");
+		}
+		connection = createProtocolConnection(
+			new StreamMessageReader(server.stdout),
+			new StreamMessageWriter(server.stdin),
+		);
+		connection.listen();
+		await connection.sendRequest(InitializeRequest.type, {
+			processId: process.pid,
+			rootUri: null,
+			capabilities: {},
+			workspaceFolders: null,
+		});
+		await connection.sendNotification(InitializedNotification.type, {});
+	});
+
+	teardown(async () => {
+		await connection.sendRequest(ShutdownRequest.type);
+		const exited = new Promise((resolve) => server.once("exit", resolve));
+		await connection.sendNotification(ExitNotification.type);
+		await exited;
+		connection.dispose();
+	});
+
+	test("publishes the problems of an opened document", async () => {
+		const published = new Promise<PublishDiagnosticsParams>((resolve) => {
+			connection.onNotification(PublishDiagnosticsNotification.type, resolve);
+		});
+		await connection.sendNotification(DidOpenTextDocumentNotification.type, {
+			textDocument: {
+				uri: URI,
+				languageId: "synotra",
+				version: 1,
+				text: lines("fun main() {", '    val n: Int = "one"', "}"),
+			},
+		});
+		const { uri, diagnostics } = await published;
+		assert.strictEqual(uri, URI);
+		assert.deepStrictEqual(
+			diagnostics.map((d) => [d.range.start.line, d.source, d.message]),
+			[[1, "synotra", "Type 'String' is not assignable to type 'Int'"]],
+		);
+	});
+
+	test("answers requests about open documents", async () => {
+		const text = lines(
+			"class Point(val x: Int, val y: Int) {",
+			"}",
+			"fun show(p: Point) {",
+			"    p.",
+			"}",
+		);
+		await connection.sendNotification(DidOpenTextDocumentNotification.type, {
+			textDocument: { uri: URI, languageId: "synotra", version: 1, text },
+		});
+		const items = await connection.sendRequest(CompletionRequest.type, {
+			textDocument: { uri: URI },
+			position: { line: 3, character: 6 },
+		});
+		assert.ok(Array.isArray(items));
+		assert.deepStrictEqual(items.map((item) => item.label).sort(), ["x", "y"]);
+
+		// Documents that were not opened are not analyzed
+		assert.deepStrictEqual(
+			await connection.sendRequest(CompletionRequest.type, {
+				textDocument: { uri: "file:///workspace/closed.sy" },
+				position: { line: 0, character: 0 },
+			}),
+			[],
+		);
+	});
+});
@@ -0,0 +1,75 @@
+import * as assert from "node:assert";
+import { CancellationToken, TextDocuments } from "vscode-languageserver";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import SignatureHelp from "../server/signatureHelp";
+import { WorkspaceIndex } from "../server/workspaceIndex";
+import { lines, openDocument, positionOf } from "./helpers";
+
+/**
+ * The signature and active parameter shown right after the first
+ * occurrence of `search`, or null when there is none.
+ */
+async function signatureAfter(
+	text: string,
+	search: string,
+): Promise<[string, number | null | undefined] | null> {
+	const { document, inferenceService } = openDocument(text);
+	const index = new WorkspaceIndex(
+		inferenceService,
+		new TextDocuments(TextDocument),
+	);
+	const help = await new SignatureHelp(
+		inferenceService,
+		index,
+	).provideSignatureHelp(
+		document,
+		positionOf(document, search, search.length),
+		CancellationToken.None,
+	);
+	index.dispose();
+	return help ? [help.signatures[0].label, help.activeParameter] : null;
+}
+
+const SOURCE = lines(
+	"class Point(val x: Int, val y: Int) {",
+	"}",
+	"",
+	"fun sum(a: Int, b: Int): Int {",
+	"    return a + b",
+	"}",
+	"",
+	"fun main() {",
+	"    val xs = List<Int>.new()",
+	"    xs.add(sum(xs.size(), 2))",
+	"    val p = Point.new(1, 2)",
+	"}",
+);
+
+suite("SignatureHelp", () => {
+	test("shows the parameters of a function with the one being typed", async () => {
+		assert.deepStrictEqual(await signatureAfter(SOURCE, "sum(xs.size(), "), [
+			"fun sum(a: Int, b: Int): Int",
+			1,
+		]);
+		// Commas of nested calls do not count
+		assert.deepStrictEqual(await signatureAfter(SOURCE, "sum(xs.size("), [
+			"size(): Int",
+			0,
+		]);
+	});
+
+	test("shows the parameters of constructors and collection methods", async () => {
+		assert.deepStrictEqual(await signatureAfter(SOURCE, "Point.new(1, "), [
+			"Point.new(x: Int, y: Int): Point",
+			1,
+		]);
+		assert.deepStrictEqual(await signatureAfter(SOURCE, "xs.add("), [
+			"add(element: Int): Unit",
+			0,
+		]);
+	});
+
+	test("shows nothing outside of a call", async () => {
+		assert.strictEqual(await signatureAfter(SOURCE, "val p"), null);
+	});
+});
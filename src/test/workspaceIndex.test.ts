@@ -0,0 +1,237 @@
+import * as assert from "node:assert";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { CancellationToken } from "vscode-languageserver";
+import { TextDocuments } from "vscode-languageserver/node";
+import { TextDocument } from "vscode-languageserver-textdocument";
+import { URI } from "vscode-uri";
+import { Analyzer } from "../core/analyzer";
+import {
+	InProcessAnalysisHost,
+	WorkerAnalysisHost,
+} from "../server/analysisHost";
+import References from "../server/references";
+import { WorkspaceIndex } from "../server/workspaceIndex";
+import { edit, lines, openDocument, positionOf, summarize } from "./helpers";
+
+const POINT = lines(
+	"class Point(val x: Int, val y: Int) {",
+	"    fun sum(): Int {",
+	"        val s = x + y",
+	"        return s",
+	"    }",
+	"}",
+	"fun origin(): Point {",
+	"    return Point.new(0, 0)",
+	"}",
+);
+
+const MAIN = lines(
+	"fun main() {",
+	"    val p: Point = origin()",
+	"    println(p.sum())",
+	"}",
+);
+
+/**
+ * A workspace folder on disk with the given files.
+ */
+function createWorkspace(files: Record<string, string>): string {
+	const folder = fs.mkdtempSync(path.join(os.tmpdir(), "synotra-"));
+	for (const [name, text] of Object.entries(files)) {
+		fs.mkdirSync(path.dirname(path.join(folder, name)), { recursive: true });
+		fs.writeFileSync(path.join(folder, name), text);
+	}
+	return folder;
+}
+
+function uriOf(folder: string, name: string): string {
+	return URI.file(path.join(folder, name)).toString();
+}
+
+suite("WorkspaceIndex", () => {
+	let folder: string;
+
+	setup(() => {
+		folder = createWorkspace({
+			"point.sy": POINT,
+			"main.sy": MAIN,
+			"node_modules/lib.sy": "fun hidden() {}",
+			".git/old.sy": "fun old() {}",
+		});
+	});
+
+	teardown(() => {
+		fs.rmSync(folder, { recursive: true, force: true });
+	});
+
+	test("indexes the outlines of the files below the folders", async () => {
+		const { inferenceService } = openDocument("");
+		const index = new WorkspaceIndex(
+			inferenceService,
+			new TextDocuments(TextDocument),
+		);
+		index.scan([URI.file(folder).toString()]);
+
+		const symbols = await index.search("");
+		assert.deepStrictEqual(
+			symbols.map((symbol) => `${symbol.containerName}.${symbol.name}`).sort(),
+			[".Point", ".main", ".origin", "Point.sum", "Point.x", "Point.y"],
+		);
+
+		// Bodies are left out, signatures are kept
+		const origin = await index.findGlobalDeclaration("origin");
+		assert.strictEqual(origin?.returnType?.name, "Point");
+		assert.strictEqual(origin?.body, undefined);
+		const point = await index.findGlobalDeclaration("Point");
+		const sum = point?.children.find((child) => child.name === "sum");
+		assert.deepStrictEqual(
+			sum?.children.map((child) => child.kind),
+			["typeRef"],
+		);
+	});
+
+	test("finds references in files that are not open", async () => {
+		const { inferenceService } = openDocument("");
+		const index = new WorkspaceIndex(
+			inferenceService,
+			new TextDocuments(TextDocument),
+		);
+		index.scan([URI.file(folder).toString()]);
+
+		// main.sy is open with a second use of Point that is not saved
+		const text = `${MAIN}\nfun other(q: Point) {}`;
+		const document = TextDocument.create(
+			uriOf(folder, "main.sy"),
+			"synotra",
+			2,
+			text,
+		);
+		const locations = await new References(
+			inferenceService,
+			index,
+		).provideReferences(
+			document,
+			positionOf(document, "Point"),
+			{ includeDeclaration: true },
+			CancellationToken.None,
+		);
+		assert.deepStrictEqual(
+			locations?.map(
+				(location) =>
+					`${path.basename(URI.parse(location.uri).fsPath)}:${location.range.start.line}`,
+			),
+			["point.sy:0", "main.sy:1", "main.sy:4", "point.sy:6", "point.sy:7"],
+		);
+	});
+});
+
+suite("InProcessAnalysisHost", () => {
+	test("names declared in the workspace files are declared", async () => {
+		const folder = createWorkspace({ "point.sy": POINT });
+		try {
+			const host = new InProcessAnalysisHost();
+			await host.scanFolders([folder]);
+			const analyze = (text: string) =>
+				host.analyze({
+					uri: uriOf(folder, "main.sy"),
+					version: 1,
+					text,
+					baseVersion: null,
+					edits: [],
+				});
+			const main = await analyze(`io ${MAIN}`);
+			assert.deepStrictEqual(main?.diagnostics, []);
+
+			const misspelled = await analyze(`io ${MAIN.replace("origin", "orign")}`);
+			assert.deepStrictEqual(
+				misspelled?.diagnostics.map((d) => [
+					d.message,
+					d.fixes?.map((fix) => fix.title),
+				]),
+				[
+					[
+						"Cannot find name 'orign'",
+						["Did you mean 'origin'?", "Create function 'orign'"],
+					],
+				],
+			);
+		} finally {
+			fs.rmSync(folder, { recursive: true, force: true });
+		}
+	});
+});
+
+suite("WorkerAnalysisHost", () => {
+	let host: WorkerAnalysisHost;
+
+	setup(() => {
+		// Compiled next to the tests
+		host = new WorkerAnalysisHost(
+			path.join(__dirname, "..", "server", "analysisWorker.js"),
+		);
+	});
+
+	teardown(() => {
+		host.dispose();
+	});
+
+	test("results match an analysis in process", async () => {
+		const uri = "file:///workspace/test.sy";
+		const text = `${POINT}\n${MAIN}`;
+		const first = await host.analyze({
+			uri,
+			version: 1,
+			text,
+			baseVersion: null,
+			edits: [],
+		});
+		const analyzer = new Analyzer();
+		const expected = analyzer.analyze(text);
+		assert.ok(first);
+		assert.deepStrictEqual(summarize(first), summarize(expected));
+
+		const changed = edit(text, "val s = x + y", "val s = x * y");
+		const second = await host.analyze({
+			uri,
+			version: 2,
+			text: changed.text,
+			baseVersion: 1,
+			edits: [changed.edit],
+		});
+		assert.ok(second);
+		assert.deepStrictEqual(
+			summarize(second),
+			summarize(analyzer.reanalyze(changed.text, expected, [changed.edit])),
+		);
+	});
+
+	test("scans the workspace and finds references in the worker", async () => {
+		const folder = createWorkspace({ "point.sy": POINT, "main.sy": MAIN });
+		try {
+			const indexed: string[] = [];
+			host.setIndexListener((uri, outline) => {
+				if (outline) {
+					indexed.push(path.basename(URI.parse(uri).fsPath));
+				}
+			});
+			await host.scanFolders([folder]);
+			assert.deepStrictEqual(indexed.sort(), ["main.sy", "point.sy"]);
+
+			const files = await host.findReferences("origin", [
+				uriOf(folder, "point.sy"),
+			]);
+			assert.deepStrictEqual(
+				files.map((file) => [
+					path.basename(URI.parse(file.uri).fsPath),
+					file.declaration,
+					file.references.map((range) => range.start.line),
+				]),
+				[["main.sy", null, [1]]],
+			);
+		} finally {
+			fs.rmSync(folder, { recursive: true, force: true });
+		}
+	});
+});